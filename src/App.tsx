@@ -7,12 +7,14 @@ import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import { BookshelfProvider } from "./context/BookshelfContext";
 import { useEffect } from "react";
-import { useAuthState } from 'react-firebase-hooks/auth';
-import { auth } from './firebaseConfig';
+import { useAuth } from './hooks/useAuth';
 import Login from './components/Login';
 import Header from './components/Header';
 import Home from './pages/Home';
 import Library from './pages/Library';
+import PublicLibrary from './pages/PublicLibrary';
+import Recommend from './pages/Recommend';
+import * as storageService from './services/storageService';
 
 // Configure React Query for better caching and retries
 const queryClient = new QueryClient({
@@ -35,18 +37,21 @@ const queryClient = new QueryClient({
 // Log when the app initializes
 const DataPersistenceLogger = () => {
   useEffect(() => {
-    console.log('App initialized, checking localStorage data');
-    try {
-      const books = localStorage.getItem('books');
-      const recommendations = localStorage.getItem('recommendations');
-      console.log(`Found ${books ? JSON.parse(books).length : 0} books and ${recommendations ? JSON.parse(recommendations).length : 0} recommendations in localStorage`);
-    } catch (error) {
-      console.error('Error checking localStorage:', error);
-    }
+    console.log('App initialized, checking IndexedDB data');
+    Promise.all([
+      storageService.getStoredBooks(),
+      storageService.getStoredRecommendations()
+    ])
+      .then(([books, recommendations]) => {
+        console.log(`Found ${books.length} books and ${recommendations.length} recommendations in IndexedDB`);
+      })
+      .catch(error => {
+        console.error('Error checking IndexedDB:', error);
+      });
     
     return () => {
       console.log('App unmounting, ensuring data is saved');
-      // No need to do anything, our hooks handle saving on unmount
+      // No need to do anything, every write goes straight to IndexedDB
     };
   }, []);
   
@@ -55,9 +60,9 @@ const DataPersistenceLogger = () => {
 
 // Main App Component with Authentication Handling
 const App = () => {
-  const [user, loading, error] = useAuthState(auth);
+  const { user, isLoading } = useAuth();
 
-  if (loading) {
+  if (isLoading) {
     // Optional: Add a loading spinner component
     return <div>Loading...</div>;
   }
@@ -75,6 +80,10 @@ const App = () => {
             <Routes>
               <Route path="/" element={<Navigate to="/library" replace />} />
               <Route path="/library" element={<Library />} />
+              <Route path="/library/:ownerId" element={<Library />} />
+              <Route path="/u/:handle" element={<PublicLibrary />} />
+              <Route path="/u/:handle/recommend" element={<Recommend />} />
+              <Route path="/recommend" element={<Recommend />} />
               <Route path="/login" element={user ? <Navigate to="/library" replace /> : <Login />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
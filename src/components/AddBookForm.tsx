@@ -9,11 +9,17 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useBookshelf } from '@/context/BookshelfContext';
-import { BookIcon, BookMarked, Upload, Link, Tag, X } from 'lucide-react';
+import { BookIcon, BookMarked, EyeOff, Upload, Link, Tag, X } from 'lucide-react';
 import DateReadPicker from './DateReadPicker';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import { bookFormSchema } from '@/lib/bookSchema';
+import { normalizeIsbn } from '@/utils/bookMatching';
+import { BookConflictError } from '@/services/errors';
+import * as coverStorageService from '@/services/coverStorageService';
+import { toast } from 'sonner';
+import BookMergeDialog from './BookMergeDialog';
 
 // Predefined list of genres
 const GENRES = [
@@ -23,24 +29,6 @@ const GENRES = [
   'Music', 'Gaming', 'Food', 'Travel', 'Art', 'Philosophy'
 ];
 
-// Create a schema for form validation
-const bookFormSchema = z.object({
-  title: z.string().min(1, "Title is required"),
-  author: z.string().min(1, "Author is required"),
-  status: z.enum(['read', 'reading', 'to-read', 'wishlist', 'recommendation']).default('read'),
-  dateRead: z.date().optional(),
-  pages: z.number().int().min(1, "Pages is required").max(10000, "Too many pages").optional(),
-  progress: z.number().int().min(0, "Progress must be at least 0").max(100, "Progress can't exceed 100%").default(0),
-  coverUrl: z.string().url("Must be a valid URL").optional().or(z.literal('')),
-  genres: z.array(z.string()).optional(),
-  recommendedBy: z.string().optional(),
-  isSeries: z.boolean().default(false),
-  seriesName: z.string().optional(),
-  seriesPosition: z.number().int().min(1, "Series position must be at least 1").optional(),
-  tags: z.array(z.string()).optional(),
-  email: z.string().email("Must be a valid email address").optional().or(z.literal('')),
-});
-
 interface AddBookFormProps {
   isOpen?: boolean;
   onClose?: () => void;
@@ -49,7 +37,7 @@ interface AddBookFormProps {
 }
 
 const AddBookForm: React.FC<AddBookFormProps> = ({ isOpen, onClose, onSuccess, bookToEdit }) => {
-  const { addBook, editBook } = useBookshelf();
+  const { addBook, editBook, libraryOwnerId } = useBookshelf();
   const [showSeriesOptions, setShowSeriesOptions] = useState(bookToEdit?.isSeries || false);
   const [totalSeriesBooks, setTotalSeriesBooks] = useState<number>(0);
   const [totalSeriesPages, setTotalSeriesPages] = useState<number>(0);
@@ -59,6 +47,7 @@ const AddBookForm: React.FC<AddBookFormProps> = ({ isOpen, onClose, onSuccess, b
   const [selectedGenres, setSelectedGenres] = useState<string[]>(bookToEdit?.genres || []);
   const [newTag, setNewTag] = useState<string>('');
   const [tags, setTags] = useState<string[]>(bookToEdit?.tags || []);
+  const [conflict, setConflict] = useState<{ local: Partial<Book>; remote: Book } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const form = useForm<z.infer<typeof bookFormSchema>>({
@@ -78,6 +67,8 @@ const AddBookForm: React.FC<AddBookFormProps> = ({ isOpen, onClose, onSuccess, b
       dateRead: bookToEdit?.dateRead || undefined,
       tags: bookToEdit?.tags || [],
       email: bookToEdit?.email || '',
+      isbn: bookToEdit?.isbn || '',
+      hidden: bookToEdit?.hidden || false,
     },
   });
 
@@ -142,18 +133,21 @@ const AddBookForm: React.FC<AddBookFormProps> = ({ isOpen, onClose, onSuccess, b
   };
 
   const onSubmit = async (data: z.infer<typeof bookFormSchema>) => {
+    let uploadedCoverUrl: string | null = null;
+    
     try {
       let finalCoverUrl = data.coverUrl || '';
       
-      // If we have an uploaded file, create a data URL from it
+      // Uploaded files are resized and stored, and the book keeps only their URL
       if (coverImageMode === 'upload' && uploadedCoverFile) {
-        // For simplicity, we'll use a data URL approach
-        // In a production app, you would typically upload this to a storage service
-        const reader = new FileReader();
-        finalCoverUrl = await new Promise((resolve) => {
-          reader.onload = (e) => resolve(e.target?.result as string);
-          reader.readAsDataURL(uploadedCoverFile);
-        });
+        try {
+          finalCoverUrl = await coverStorageService.uploadCover(uploadedCoverFile, libraryOwnerId);
+          uploadedCoverUrl = finalCoverUrl;
+        } catch (uploadError) {
+          console.error('Error uploading cover:', uploadError);
+          toast.error('Failed to upload the cover image');
+          return;
+        }
       }
       
       const bookData: Omit<Book, 'id'> = {
@@ -172,11 +166,21 @@ const AddBookForm: React.FC<AddBookFormProps> = ({ isOpen, onClose, onSuccess, b
         seriesName: data.isSeries ? (data.seriesName || data.title) : undefined,
         seriesPosition: data.isSeries ? data.seriesPosition : undefined,
         email: data.email || undefined,
+        isbn: normalizeIsbn(data.isbn) || undefined,
+        hidden: data.hidden,
       };
       
       if (bookToEdit) {
-        // If we're editing an existing book
-        await editBook(bookToEdit.id, bookData);
+        // If we're editing an existing book, only save over the version we loaded
+        try {
+          await editBook(bookToEdit.id, bookData, { expectedVersion: bookToEdit.updatedAt });
+        } catch (error) {
+          if (error instanceof BookConflictError) {
+            setConflict({ local: bookData, remote: error.remote });
+            return;
+          }
+          throw error;
+        }
       } else if (data.isSeries && totalSeriesBooks > 1 && totalSeriesPages > 0) {
         // If we're adding a new series
         await addBook(bookData, totalSeriesBooks, totalSeriesPages);
@@ -185,22 +189,52 @@ const AddBookForm: React.FC<AddBookFormProps> = ({ isOpen, onClose, onSuccess, b
         await addBook(bookData);
       }
       
-      form.reset();
-      // Clean up object URLs
-      if (uploadedCoverPreview) {
-        URL.revokeObjectURL(uploadedCoverPreview);
-        setUploadedCoverPreview('');
-      }
-      setUploadedCoverFile(null);
-      setSelectedGenres([]);
-      setTags([]);
-      
-      if (onClose) onClose();
-      if (onSuccess) onSuccess();
+      finishSubmit();
     } catch (error) {
       console.error('Error adding book:', error);
+      // The book was never saved, so nothing points at the new upload
+      if (uploadedCoverUrl) {
+        coverStorageService.deleteCover(uploadedCoverUrl);
+      }
     }
   };
+  
+  const finishSubmit = () => {
+    form.reset();
+    // Clean up object URLs
+    if (uploadedCoverPreview) {
+      URL.revokeObjectURL(uploadedCoverPreview);
+      setUploadedCoverPreview('');
+    }
+    setUploadedCoverFile(null);
+    setSelectedGenres([]);
+    setTags([]);
+    
+    if (onClose) onClose();
+    if (onSuccess) onSuccess();
+  };
+  
+  // Save the merged fields against the newer version; may conflict again
+  const handleResolveConflict = async (merged: Partial<Book>) => {
+    if (!bookToEdit || !conflict) return;
+    
+    try {
+      await editBook(bookToEdit.id, merged, { expectedVersion: conflict.remote.updatedAt });
+      setConflict(null);
+      finishSubmit();
+    } catch (error) {
+      if (error instanceof BookConflictError) {
+        setConflict({ local: merged, remote: error.remote });
+        return;
+      }
+      console.error('Error saving merged book:', error);
+    }
+  };
+  
+  const handleDiscardEdit = () => {
+    setConflict(null);
+    handleCancel();
+  };
 
   const handleCancel = () => {
     form.reset();
@@ -269,6 +303,20 @@ const AddBookForm: React.FC<AddBookFormProps> = ({ isOpen, onClose, onSuccess, b
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="isbn"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>ISBN (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="978-0-00-000000-0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               {/* Status selection */}
               <FormField
                 control={form.control}
@@ -670,6 +718,29 @@ const AddBookForm: React.FC<AddBookFormProps> = ({ isOpen, onClose, onSuccess, b
               </div>
             )}
             
+            <FormField
+              control={form.control}
+              name="hidden"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                    />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel className="flex items-center">
+                      <EyeOff className="h-4 w-4 mr-1" /> Hide from visitors
+                    </FormLabel>
+                    <FormDescription>
+                      Only you and the people you share your library with will see this book
+                    </FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+            
             <DialogFooter>
               <Button type="button" variant="outline" onClick={handleCancel} className="border-gray-300 text-gray-700 hover:bg-gray-100">
                 Cancel
@@ -678,6 +749,17 @@ const AddBookForm: React.FC<AddBookFormProps> = ({ isOpen, onClose, onSuccess, b
             </DialogFooter>
           </form>
         </Form>
+        
+        {bookToEdit && conflict && (
+          <BookMergeDialog
+            isOpen={!!conflict}
+            base={bookToEdit}
+            local={conflict.local}
+            remote={conflict.remote}
+            onResolve={handleResolveConflict}
+            onCancel={handleDiscardEdit}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,189 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { History, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useBookshelf } from '@/context/BookshelfContext';
+import * as backupService from '@/services/backupService';
+import { LibraryContents, LibrarySnapshot, SnapshotDiff, SnapshotReason } from '@/types/backup';
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  scheduled: 'Automatic',
+  manual: 'Manual',
+  'before-restore': 'Before restore'
+};
+
+const describeDiff = (diff: SnapshotDiff | undefined): string => {
+  if (!diff) {
+    return 'Comparing with your library...';
+  }
+  
+  const { added, removed, changed } = diff;
+  if (added === 0 && removed === 0 && changed === 0) {
+    return 'Same as your library now';
+  }
+  return [
+    added > 0 && `${added} to add back`,
+    changed > 0 && `${changed} changed`,
+    removed > 0 && `${removed} added since`
+  ].filter(Boolean).join(' · ');
+};
+
+// Lists saved snapshots of the library and restores a chosen one
+const BackupManager: React.FC = () => {
+  const { libraryOwnerId, loadLibrary, createBackup, restoreBackup } = useBookshelf();
+  const [isOpen, setIsOpen] = useState(false);
+  const [snapshots, setSnapshots] = useState<LibrarySnapshot[]>([]);
+  const [snapshotToRestore, setSnapshotToRestore] = useState<LibrarySnapshot | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  // Snapshots are compared with the whole library, not just the pages on screen
+  const [library, setLibrary] = useState<LibraryContents | null>(null);
+
+  const loadSnapshots = useCallback(() => {
+    backupService.listSnapshots(libraryOwnerId).then(setSnapshots);
+  }, [libraryOwnerId]);
+
+  useEffect(() => {
+    if (isOpen) loadSnapshots();
+  }, [isOpen, loadSnapshots]);
+
+  // Reread whenever the snapshots are, since creating or restoring one changes the library too
+  useEffect(() => {
+    if (!isOpen) return;
+    loadLibrary()
+      .then(setLibrary)
+      .catch(error => console.error('Error loading the library to compare with backups:', error));
+  }, [isOpen, snapshots, loadLibrary]);
+
+  const diffs = useMemo(() => new Map(library ? snapshots.map(snapshot => [
+    snapshot.id,
+    backupService.diffSnapshot(snapshot, library)
+  ]) : []), [snapshots, library]);
+
+  const handleCreate = async () => {
+    setIsWorking(true);
+    await createBackup();
+    loadSnapshots();
+    setIsWorking(false);
+  };
+
+  const handleRestore = async () => {
+    if (!snapshotToRestore) return;
+    
+    setIsWorking(true);
+    await restoreBackup(snapshotToRestore.id);
+    setSnapshotToRestore(null);
+    loadSnapshots();
+    setIsWorking(false);
+  };
+
+  const handleDelete = async (id: string) => {
+    await backupService.deleteSnapshot(id);
+    loadSnapshots();
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="icon"
+        className="rounded-full h-10 w-10 border-gray-300 text-gray-600"
+        onClick={() => setIsOpen(true)}
+        aria-label="Backups"
+      >
+        <History className="h-4 w-4" />
+      </Button>
+      
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Backups</DialogTitle>
+            <DialogDescription>
+              Snapshots of your books and recommendations, saved in this browser. Restoring one moves books added since to the trash.
+            </DialogDescription>
+          </DialogHeader>
+          
+          <div className="flex justify-end">
+            <Button size="sm" variant="outline" onClick={handleCreate} disabled={isWorking}>
+              <Save className="h-4 w-4 mr-2" /> Back Up Now
+            </Button>
+          </div>
+          
+          {snapshots.length === 0 ? (
+            <div className="text-center py-8 bg-gray-50 rounded-md">
+              <p className="text-gray-600">No backups yet</p>
+              <p className="text-sm text-gray-400 mt-1">Your library is backed up automatically while the app is open.</p>
+            </div>
+          ) : (
+            <div className="max-h-80 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-md">
+              {snapshots.map(snapshot => (
+                <div key={snapshot.id} className="flex items-center gap-3 p-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium">
+                      {format(new Date(snapshot.createdAt), 'MMM d, yyyy h:mm a')}
+                      <span className="ml-2 text-xs font-normal text-gray-400">{REASON_LABELS[snapshot.reason]}</span>
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {snapshot.books.length} books · {snapshot.recommendations.length} recommendations
+                      {' · '}{formatDistanceToNow(new Date(snapshot.createdAt), { addSuffix: true })}
+                    </p>
+                    <p className="text-xs text-gray-400">{describeDiff(diffs.get(snapshot.id))}</p>
+                  </div>
+                  <Button 
+                    variant="ghost" 
+                    size="sm" 
+                    onClick={() => setSnapshotToRestore(snapshot)} 
+                    disabled={isWorking}
+                  >
+                    <RotateCcw className="h-4 w-4 sm:mr-2" />
+                    <span className="hidden sm:inline">Restore</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    onClick={() => handleDelete(snapshot.id)}
+                    disabled={isWorking}
+                    aria-label="Delete backup"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+      
+      <AlertDialog open={snapshotToRestore !== null} onOpenChange={open => !open && setSnapshotToRestore(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore this backup?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {snapshotToRestore && describeDiff(diffs.get(snapshotToRestore.id))}. 
+              Your current library is backed up first, so you can switch back.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isWorking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestore} disabled={isWorking}>
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default BackupManager;
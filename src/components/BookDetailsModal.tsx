@@ -8,16 +8,18 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Book } from '@/types/book';
-import { CalendarIcon, BookOpenText, Pencil, Star } from 'lucide-react';
+import { CalendarIcon, BookOpenText, EyeOff, Pencil, Star } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { format } from 'date-fns';
+import { parseRecommenders } from '@/utils/recommenders';
 
 interface BookDetailsModalProps {
   book: Book | null;
   isOpen: boolean;
   onClose: () => void;
-  onEdit: () => void;
+  // Left out for users who may not edit the book, which hides the Edit button
+  onEdit?: () => void;
 }
 
 const BookDetailsModal: React.FC<BookDetailsModalProps> = ({
@@ -28,6 +30,8 @@ const BookDetailsModal: React.FC<BookDetailsModalProps> = ({
 }) => {
   if (!book) return null;
 
+  const recommenders = parseRecommenders(book.recommendedBy);
+
   const formatDate = (date: Date | string | undefined) => {
     if (!date) return 'Unknown';
     try {
@@ -107,6 +111,13 @@ const BookDetailsModal: React.FC<BookDetailsModalProps> = ({
               </div>
             )}
             
+            {book.isbn && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-500">ISBN</h3>
+                <p className="text-sm">{book.isbn}</p>
+              </div>
+            )}
+            
             {book.pages && (
               <div>
                 <h3 className="text-sm font-medium text-gray-500">Pages</h3>
@@ -130,10 +141,21 @@ const BookDetailsModal: React.FC<BookDetailsModalProps> = ({
               </div>
             )}
             
-            {book.recommendedBy && (
+            {recommenders.length > 0 && (
               <div>
-                <h3 className="text-sm font-medium text-gray-500">Recommended By</h3>
-                <p className="text-sm">{book.recommendedBy}</p>
+                <h3 className="text-sm font-medium text-gray-500">
+                  Recommended By{recommenders.length > 1 && ` (${recommenders.length} people)`}
+                </h3>
+                {recommenders.length > 1 ? (
+                  <ul className="text-sm list-disc list-inside">
+                    {recommenders.map(name => <li key={name}>{name}</li>)}
+                  </ul>
+                ) : (
+                  <p className="text-sm">{recommenders[0]}</p>
+                )}
+                {book.sourceRecommendationId && (
+                  <p className="text-xs text-gray-400">Accepted from the library's recommendations</p>
+                )}
               </div>
             )}
             
@@ -170,19 +192,27 @@ const BookDetailsModal: React.FC<BookDetailsModalProps> = ({
                 <span className="text-sm">Favorite</span>
               </div>
             )}
+            {book.hidden && (
+              <div className="flex items-center text-gray-500 ml-3">
+                <EyeOff className="h-4 w-4 mr-1" /> 
+                <span className="text-sm">Hidden from visitors</span>
+              </div>
+            )}
           </div>
           <div className="flex gap-2">
             <Button variant="outline" onClick={onClose}>
               Close
             </Button>
-            <Button 
-              variant="default" 
-              onClick={onEdit}
-              className="flex items-center gap-1"
-            >
-              <Pencil className="h-4 w-4" /> 
-              Edit
-            </Button>
+            {onEdit && (
+              <Button 
+                variant="default" 
+                onClick={onEdit}
+                className="flex items-center gap-1"
+              >
+                <Pencil className="h-4 w-4" /> 
+                Edit
+              </Button>
+            )}
           </div>
         </DialogFooter>
       </DialogContent>
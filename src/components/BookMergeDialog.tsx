@@ -0,0 +1,114 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitMerge } from 'lucide-react';
+import { Book } from '@/types/book';
+import { Button } from '@/components/ui/button';
+import { 
+  Dialog, 
+  DialogContent, 
+  DialogDescription, 
+  DialogFooter, 
+  DialogHeader, 
+  DialogTitle 
+} from '@/components/ui/dialog';
+import {
+  FieldConflict,
+  MergeChoice,
+  MergeableField,
+  formatMergeValue,
+  getFieldConflicts,
+  mergeBookFields
+} from '@/utils/bookMergeUtils';
+import { cn } from '@/lib/utils';
+
+interface BookMergeDialogProps {
+  isOpen: boolean;
+  base: Book;
+  local: Partial<Book>;
+  remote: Book;
+  onResolve: (merged: Partial<Book>) => void;
+  onCancel: () => void;
+}
+
+// Lets the user choose, field by field, between their edit and a newer server copy
+const BookMergeDialog: React.FC<BookMergeDialogProps> = ({
+  isOpen,
+  base,
+  local,
+  remote,
+  onResolve,
+  onCancel
+}) => {
+  const conflicts = useMemo(() => getFieldConflicts(base, local, remote), [base, local, remote]);
+  const [choices, setChoices] = useState<Partial<Record<MergeableField, MergeChoice>>>({});
+
+  useEffect(() => {
+    setChoices(Object.fromEntries(conflicts.map(conflict => [conflict.field, conflict.suggested])));
+  }, [conflicts]);
+
+  const renderOption = (conflict: FieldConflict, side: MergeChoice) => {
+    const isSelected = choices[conflict.field] === side;
+    return (
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => setChoices(prev => ({ ...prev, [conflict.field]: side }))}
+        className={cn(
+          "flex-1 h-auto min-h-10 py-2 flex flex-col items-start text-left whitespace-normal",
+          isSelected ? 'border-gray-900 bg-gray-900 text-white hover:bg-gray-700 hover:text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+        )}
+      >
+        <span className="text-[10px] uppercase tracking-wider opacity-70">
+          {side === 'local' ? 'Your edit' : 'Saved version'}
+        </span>
+        <span className="text-sm break-all line-clamp-2">{formatMergeValue(conflict[side])}</span>
+      </Button>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-md md:max-w-xl overflow-y-auto max-h-screen">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <GitMerge className="h-5 w-5 mr-2" /> This book was changed elsewhere
+          </DialogTitle>
+          <DialogDescription>
+            Someone saved a newer version of "{remote.title}" while you were editing. 
+            Choose which value to keep for each field.
+          </DialogDescription>
+        </DialogHeader>
+        
+        {conflicts.length === 0 ? (
+          <p className="text-sm text-gray-500">Your edit matches the saved version.</p>
+        ) : (
+          <div className="space-y-4">
+            {conflicts.map(conflict => (
+              <div key={conflict.field}>
+                <p className="text-sm font-medium mb-1">{conflict.label}</p>
+                <div className="flex gap-2">
+                  {renderOption(conflict, 'local')}
+                  {renderOption(conflict, 'remote')}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel} className="border-gray-300 text-gray-700 hover:bg-gray-100">
+            Discard My Edit
+          </Button>
+          <Button 
+            type="button" 
+            onClick={() => onResolve(mergeBookFields(local, remote, choices))} 
+            className="bg-gray-900 text-white hover:bg-gray-700"
+          >
+            Save Merged Book
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BookMergeDialog;
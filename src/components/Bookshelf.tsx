@@ -1,7 +1,8 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useBookshelf } from '@/context/BookshelfContext';
 import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
-import { BookOpen, BookOpenCheck, Bookmark, LightbulbIcon, BookMarked } from 'lucide-react';
+import { BookOpen, BookOpenCheck, Bookmark, LightbulbIcon, BookMarked, Send } from 'lucide-react';
 import AddBookForm from './AddBookForm';
 import { Book } from '@/types/book';
 import EmptyBookshelf from './bookshelf/EmptyBookshelf';
@@ -9,10 +10,9 @@ import BookshelfGrid from './bookshelf/BookshelfGrid';
 import BookList from './bookshelf/BookList';
 import { Button } from './ui/button';
 import { PlusCircle } from 'lucide-react';
-import { useAuthState } from 'react-firebase-hooks/auth';
-import { auth } from '@/firebaseConfig';
-import { useNavigate } from 'react-router-dom';
+import { usePermissions } from '@/hooks/usePermissions';
 import BookshelfSection from './bookshelf/BookshelfSection';
+import { toast } from "sonner";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   DropdownMenu, 
@@ -36,9 +36,12 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import BookDetailsModal from './BookDetailsModal';
+import TrashView from './bookshelf/TrashView';
+import ModerationQueue from './bookshelf/ModerationQueue';
+import BlocklistDialog from './bookshelf/BlocklistDialog';
 
 // Define types locally again
-export type ViewTab = 'shelf' | 'list' | 'to-read' | 'recommendations';
+export type ViewTab = 'shelf' | 'list' | 'to-read' | 'recommendations' | 'trash';
 export type SortOption = 'title' | 'author' | 'dateRead' | 'progress' | 'favorite';
 
 // Placeholder: Assume an AuthContext exists
@@ -47,26 +50,36 @@ export type SortOption = 'title' | 'author' | 'dateRead' | 'progress' | 'favorit
 type DisplayStyle = 'shelf' | 'list';
 
 // Define props Bookshelf will now expect
+// Read-only pages leave out the add dialog's props
 interface BookshelfProps {
-  isAddDialogOpen: boolean;
-  onDialogClose: () => void;
-  onAddBookClick: () => void; // Handler for EmptyBookshelf button
+  isAddDialogOpen?: boolean;
+  onDialogClose?: () => void;
+  onAddBookClick?: () => void; // Handler for EmptyBookshelf button
+  recommendPath?: string; // Where visitors can recommend a book to this library
 }
 
 const Bookshelf: React.FC<BookshelfProps> = ({ 
-  isAddDialogOpen, 
+  isAddDialogOpen = false, 
   onDialogClose, 
-  onAddBookClick 
+  onAddBookClick,
+  recommendPath
 }) => { 
   const isMounted = useRef(true);
-  const navigate = useNavigate();
   
-  // Get authentication status from Firebase hook
-  const [user, loadingAuth] = useAuthState(auth);
-  // Check if the logged-in user is the allowed user
-  const isAllowedUser = user?.email === 'hstone1416@gmail.com';
-  
-  const { books, recommendations, reorderBooks, removeBook } = useBookshelf();
+  const {
+    books,
+    recommendations,
+    reorderBooks,
+    removeBook,
+    acceptRecommendation,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    loadAll,
+    loadBookDetails
+  } = useBookshelf();
+  // Actions the user isn't allowed are left out rather than refused when used
+  const { can } = usePermissions();
   
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [selectedBook, setSelectedBook] = useState<Book | null>(null);
@@ -87,6 +100,14 @@ const Bookshelf: React.FC<BookshelfProps> = ({
 
   const [booksToDisplay, setBooksToDisplay] = useState<Book[]>([]);
 
+  // Pages come newest read first, so any other sort needs every book to put them in order
+  const sortsLikePages = sortBy === 'dateRead' && sortOrder === 'desc';
+  const shownCollection = viewTab === 'recommendations' ? 'recommendations' : 'books';
+
+  useEffect(() => {
+    if (!sortsLikePages) loadAll(shownCollection);
+  }, [sortsLikePages, shownCollection, loadAll]);
+
   useEffect(() => {
     return () => {
       isMounted.current = false;
@@ -192,27 +213,24 @@ const Bookshelf: React.FC<BookshelfProps> = ({
   const handleEdit = useCallback((book: Book) => {
     if (!isMounted.current) return;
     
-    // Use the actual auth state and check for the specific user
-    if (!isAllowedUser) { 
-      alert('You do not have permission to edit books.'); 
-      console.log("User not authorized. Redirecting to login...");
-      navigate('/login'); // Redirect to login page
-      return;
-    }
-    
-    setSelectedBook(book);
-    setIsEditDialogOpen(true);
-  }, [isAllowedUser, navigate]);
+    // The form saves every field, so it has to start from the full book rather than a summary
+    loadBookDetails(book)
+      .then(fullBook => {
+        if (!isMounted.current) return;
+        setSelectedBook(fullBook);
+        setIsEditDialogOpen(true);
+      })
+      .catch(error => {
+        console.error('Error loading book details for editing:', error);
+        toast.error(`Couldn't open "${book.title}" for editing`, {
+          description: 'Its details could not be loaded. Try again in a moment.'
+        });
+      });
+  }, [loadBookDetails]);
 
   const handleDelete = useCallback((bookId: string) => {
-    if (!isAllowedUser) {
-      alert('You do not have permission to delete books.');
-      console.log("User not authorized for delete. Redirecting to login...");
-      navigate('/login'); // Redirect to login page
-      return;
-    }
     removeBook(bookId);
-  }, [removeBook, isAllowedUser, navigate]);
+  }, [removeBook]);
 
   const handleEditDialogOpenChange = useCallback((open: boolean) => {
     if (!isMounted.current) return;
@@ -281,9 +299,17 @@ const Bookshelf: React.FC<BookshelfProps> = ({
   }, [sortBy]);
 
   // Handler to open Details Modal
+  // The summary is shown straight away and replaced once the full book arrives
   const handleShowDetails = (book: Book) => {
     setSelectedBookForDetails(book);
     setIsDetailsModalOpen(true);
+    
+    loadBookDetails(book)
+      .then(fullBook => {
+        if (!isMounted.current) return;
+        setSelectedBookForDetails(current => current?.id === fullBook.id ? fullBook : current);
+      })
+      .catch(error => console.error('Error loading book details:', error));
   };
 
   // Handler to close Details Modal
@@ -301,16 +327,10 @@ const Bookshelf: React.FC<BookshelfProps> = ({
     handleCloseDetailsModal(); // Close details modal
   };
 
-  // Modified onAddBookClick handler to check authentication
-  const handleAddBookClick = () => {
-    if (!isAllowedUser) {
-      alert('You need to log in to add books.');
-      console.log("User not authorized. Redirecting to login...");
-      navigate('/login');
-      return;
-    }
-    onAddBookClick();
-  };
+  // Changing recommendations is moderating them, which editors can't do
+  const isRecommendationsTab = viewTab === 'recommendations';
+  const canEdit = isRecommendationsTab ? can('moderate') : can('edit');
+  const canDelete = isRecommendationsTab ? can('moderate') : can('delete');
 
   return (
     <div className="space-y-8">
@@ -343,6 +363,14 @@ const Bookshelf: React.FC<BookshelfProps> = ({
             >
               Recommendations
             </TabsTrigger>
+            {can('delete') && (
+              <TabsTrigger 
+                value="trash" 
+                className="px-3 py-1.5 text-sm data-[state=active]:bg-white data-[state=active]:shadow-sm rounded-md"
+              >
+                Trash
+              </TabsTrigger>
+            )}
           </TabsList>
         </Tabs>
 
@@ -414,12 +442,14 @@ const Bookshelf: React.FC<BookshelfProps> = ({
         book={selectedBookForDetails} 
         isOpen={isDetailsModalOpen} 
         onClose={handleCloseDetailsModal} 
-        onEdit={handleEditFromDetails} 
+        onEdit={canEdit ? handleEditFromDetails : undefined} 
       />
 
       {/* Conditional Rendering based on Tab (uses local viewTab state) */}
-      {booksToDisplay.length === 0 && viewTab !== 'recommendations' && viewTab !== 'to-read' ? (
-        <EmptyBookshelf onAddBookClick={handleAddBookClick} />
+      {viewTab === 'trash' ? (
+        <TrashView canManage={can('delete')} />
+      ) : booksToDisplay.length === 0 && viewTab !== 'recommendations' && viewTab !== 'to-read' ? (
+        <EmptyBookshelf onAddBookClick={can('add') && onAddBookClick ? onAddBookClick : undefined} />
       ) : (
          <div className="space-y-8">
            {/* Render Grid or List directly without BookshelfSection props */}
@@ -427,21 +457,27 @@ const Bookshelf: React.FC<BookshelfProps> = ({
              displayStyle === 'list' ? (
                <BookList 
                  books={booksToDisplay} 
-                 onEdit={handleEdit} 
-                 onDelete={handleDelete}
+                 onEdit={canEdit ? handleEdit : undefined} 
+                 onDelete={canDelete ? handleDelete : undefined}
                  onShowDetails={handleShowDetails}
+                 hasMore={hasMore.books}
+                 isLoadingMore={isLoadingMore.books}
+                 onLoadMore={() => loadMore('books')}
                />
              ) : (
                <BookshelfGrid 
                  books={booksToDisplay} 
-                 onEdit={handleEdit} 
-                 onDelete={handleDelete}
-                 onDragStart={setDraggedBook}
+                 onEdit={canEdit ? handleEdit : undefined} 
+                 onDelete={canDelete ? handleDelete : undefined}
+                 onDragStart={can('reorder') ? setDraggedBook : undefined}
                  onDragOver={handleDragOver}
                  onDrop={handleDrop}
                  draggedOverBook={draggedOverBook}
                  showStatus={true} 
                  onShowDetails={handleShowDetails}
+                 hasMore={hasMore.books}
+                 isLoadingMore={isLoadingMore.books}
+                 onLoadMore={() => loadMore('books')}
                />
              )
            ) : viewTab === 'to-read' ? (
@@ -452,26 +488,48 @@ const Bookshelf: React.FC<BookshelfProps> = ({
                iconColor="text-orange-500"
                books={booksToDisplay}
                displayStyle={displayStyle} // Pass current display style
-               onEdit={handleEdit}
-               onDelete={handleDelete}
+               onEdit={canEdit ? handleEdit : undefined}
+               onDelete={canDelete ? handleDelete : undefined}
                emptyMessage="Your reading list is empty!"
                emptySubMessage="Add some books you want to read later."
                onShowDetails={handleShowDetails}
              />
            ) : viewTab === 'recommendations' ? (
-             // Keep using BookshelfSection for Recommendations
-             <BookshelfSection 
-               title="Recommendations"
-               icon={LightbulbIcon}
-               iconColor="text-yellow-500"
-               books={booksToDisplay}
-               displayStyle={displayStyle} // Pass current display style
-               onEdit={handleEdit} 
-               onDelete={handleDelete}
-               emptyMessage="No recommendations yet."
-               emptySubMessage="AI recommendations will appear here once enabled."
-               onShowDetails={handleShowDetails}
-             />
+             <div className="space-y-4">
+               {can('moderate') ? (
+                 <>
+                   <div className="flex justify-end">
+                     <BlocklistDialog />
+                   </div>
+                   <ModerationQueue />
+                 </>
+               ) : recommendPath && (
+                 <div className="flex justify-end">
+                   <Button variant="outline" size="sm" asChild>
+                     <Link to={recommendPath}>
+                       <Send className="h-4 w-4 mr-2" /> Recommend a Book
+                     </Link>
+                   </Button>
+                 </div>
+               )}
+               {/* Keep using BookshelfSection for Recommendations */}
+               <BookshelfSection 
+                 title="Recommendations"
+                 icon={LightbulbIcon}
+                 iconColor="text-yellow-500"
+                 books={booksToDisplay}
+                 displayStyle={displayStyle} // Pass current display style
+                 onEdit={canEdit ? handleEdit : undefined} 
+                 onDelete={canDelete ? handleDelete : undefined}
+                 onAccept={can('moderate') ? acceptRecommendation : undefined}
+                 emptyMessage="No recommendations yet."
+                 emptySubMessage="Books visitors recommend will appear here once approved."
+                 onShowDetails={handleShowDetails}
+                 hasMore={hasMore.recommendations}
+                 isLoadingMore={isLoadingMore.recommendations}
+                 onLoadMore={() => loadMore('recommendations')}
+               />
+             </div>
            ) : null}
          </div>
       )}
@@ -1,5 +1,6 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useBookshelf } from '@/context/BookshelfContext';
+import { usePermissions } from '@/hooks/usePermissions';
 import { Book } from '@/types/book';
 import { 
   BookCopy, 
@@ -54,6 +55,13 @@ import {
   ArrowUpDown
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import SyncStatus from './SyncStatus';
+import QuarantineStatus from './QuarantineStatus';
+import BackupManager from './BackupManager';
+import GoodreadsImportDialog from './GoodreadsImportDialog';
+import LibrarySharingDialog from './LibrarySharingDialog';
+import LibraryMembersDialog from './LibraryMembersDialog';
+import SharedLibrariesMenu from './SharedLibrariesMenu';
 
 const genreIconMap: Record<string, React.ReactNode> = {
   'Fiction': <BookCopy className="h-4 w-4 text-blue-500" />,
@@ -88,13 +96,45 @@ const ensureDate = (dateInput: string | Date | undefined): Date => {
 };
 
 interface BookshelfStatsProps {
-  onAddBookClick: () => void;
+  onAddBookClick?: () => void;
+  // Header for the library; public pages show their owner's name instead
+  title?: string;
+  subtitle?: string | null;
+  // null shows the initials of the title
+  avatarSrc?: string | null;
 }
 
+const DEFAULT_AVATAR_SRC = '/lovable-uploads/47602fcc-f8fb-42c1-ab12-804de5049f44.png';
+
+const initialsOf = (name: string): string =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(word => word[0].toUpperCase()).join('');
+
 const BookshelfStats: React.FC<BookshelfStatsProps> = ({ 
-  onAddBookClick
+  onAddBookClick,
+  title = "Hannah's Library",
+  subtitle = 'I do not endorse everything I read.',
+  avatarSrc = DEFAULT_AVATAR_SRC
 }) => {
-  const { books } = useBookshelf();
+  const { books: loadedBooks, isReadOnly, loadLibrary } = useBookshelf();
+  const { role, can } = usePermissions();
+  const [libraryBooks, setLibraryBooks] = useState<Book[] | null>(null);
+  
+  // Only some pages of books are loaded, so the stats are worked out from the whole
+  // library, read again whenever the loaded books change
+  useEffect(() => {
+    let cancelled = false;
+    loadLibrary()
+      .then(library => {
+        if (!cancelled) setLibraryBooks(library.books);
+      })
+      .catch(error => console.error('Error loading the library for its stats:', error));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [loadLibrary, loadedBooks]);
+  
+  const books = libraryBooks ?? loadedBooks;
   
   const currentYear = new Date().getFullYear();
   
@@ -234,30 +274,46 @@ const BookshelfStats: React.FC<BookshelfStatsProps> = ({
       <div className="flex flex-col sm:flex-row justify-between items-center gap-4 sm:gap-6 mb-8">
         <div className="flex flex-col sm:flex-row items-center text-center sm:text-left gap-4">
           <Avatar className="h-20 w-20 sm:h-24 sm:w-24 md:h-28 md:w-28 border-2 border-white shadow-md flex-shrink-0">
-            <AvatarImage 
-              src="/lovable-uploads/47602fcc-f8fb-42c1-ab12-804de5049f44.png" 
-              alt="Hannah's profile" 
-            />
-            <AvatarFallback>HL</AvatarFallback>
+            {avatarSrc && (
+              <AvatarImage 
+                src={avatarSrc} 
+                alt={`${title} profile`} 
+              />
+            )}
+            <AvatarFallback>{avatarSrc === DEFAULT_AVATAR_SRC ? 'HL' : initialsOf(title)}</AvatarFallback>
           </Avatar>
           <div>
-            <h1 className="text-2xl sm:text-3xl font-medium">Hannah's Library</h1>
-            <p className="text-gray-500 text-sm">I do not endorse everything I read.</p>
+            <h1 className="text-2xl sm:text-3xl font-medium">{title}</h1>
+            {subtitle && <p className="text-gray-500 text-sm">{subtitle}</p>}
           </div>
         </div>
         
-        {/* Add Book Button - More Mobile Friendly */}
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={onAddBookClick}
-          className="bg-blue-600 hover:bg-blue-700 text-white rounded-full px-4 h-10 shadow-md flex items-center gap-2 self-center sm:self-start"
-          id="add-book-button"
-          aria-label="Add a new book"
-        >
-          <PlusCircle className="h-4 w-4" />
-          <span className="hidden sm:inline">Add Book</span>
-        </Button>
+        <div className="flex items-center gap-2 self-center sm:self-start">
+          {/* Visitors to a public page have nothing of their own to sync */}
+          {!isReadOnly && <SyncStatus />}
+          {!isReadOnly && <QuarantineStatus />}
+          {/* Restoring a backup rewrites the library, recommendations included */}
+          {can('edit') && can('moderate') && <BackupManager />}
+          {can('add') && !isReadOnly && <GoodreadsImportDialog />}
+          {role === 'owner' && !isReadOnly && <LibrarySharingDialog />}
+          {role === 'owner' && !isReadOnly && <LibraryMembersDialog />}
+          {!isReadOnly && <SharedLibrariesMenu />}
+          
+          {/* Add Book Button - More Mobile Friendly */}
+          {can('add') && onAddBookClick && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onAddBookClick}
+              className="bg-blue-600 hover:bg-blue-700 text-white rounded-full px-4 h-10 shadow-md flex items-center gap-2"
+              id="add-book-button"
+              aria-label="Add a new book"
+            >
+              <PlusCircle className="h-4 w-4" />
+              <span className="hidden sm:inline">Add Book</span>
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Stats Cards - Improved Mobile Layout */}
@@ -0,0 +1,305 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, FileUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useBookshelf } from '@/context/BookshelfContext';
+import { ValidationError } from '@/services/errors';
+import { GoodreadsBook, ImportDuplicate, ImportMapping, ImportStatus } from '@/types/import';
+import { defaultMapping, findImportDuplicates, parseGoodreadsCsv, toImportedBook } from '@/utils/goodreadsImport';
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  read: 'Read',
+  reading: 'Reading',
+  'to-read': 'To Read',
+  wishlist: 'Wishlist'
+};
+
+const FAVORITE_OPTIONS: { value: string; label: string }[] = [
+  { value: '5', label: 'Rated 5 stars' },
+  { value: '4', label: 'Rated 4 stars or more' },
+  { value: 'none', label: 'None' }
+];
+
+const describeDuplicate = (duplicate: ImportDuplicate): string =>
+  duplicate.in === 'library'
+    ? `Already in your library as "${duplicate.book.title}"`
+    : `Same as row ${duplicate.row} of the file`;
+
+// Imports a Goodreads library export, after a preview where the user maps shelves and leaves out repeats
+const GoodreadsImportDialog: React.FC = () => {
+  const { loadLibrary, importBooks } = useBookshelf();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [books, setBooks] = useState<GoodreadsBook[]>([]);
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [duplicates, setDuplicates] = useState<(ImportDuplicate | null)[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  const shelves = useMemo(() => {
+    const counts = new Map<string, number>();
+    books.forEach(book => counts.set(book.exclusiveShelf, (counts.get(book.exclusiveShelf) || 0) + 1));
+    return [...counts.entries()];
+  }, [books]);
+
+  const duplicateCount = duplicates.filter(Boolean).length;
+  const isImporting = progress !== null;
+
+  const reset = () => {
+    setBooks([]);
+    setMapping(null);
+    setDuplicates([]);
+    setSelected(new Set());
+    setProgress(null);
+    setError(null);
+    setWarning(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (isImporting) return;
+    setIsOpen(open);
+    if (!open) reset();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setWarning(null);
+    let parsed: GoodreadsBook[];
+    try {
+      parsed = parseGoodreadsCsv(await file.text());
+    } catch (parseError) {
+      console.error('Error reading Goodreads export:', parseError);
+      setError(parseError instanceof ValidationError
+        ? parseError.issues.join(' ')
+        : "The file couldn't be read. Choose the CSV file Goodreads exported.");
+      return;
+    }
+    if (parsed.length === 0) {
+      setError('There are no books in this file.');
+      return;
+    }
+
+    // Repeats are looked for in the whole library, not just the pages loaded so far
+    let found: (ImportDuplicate | null)[] = parsed.map(() => null);
+    try {
+      const library = await loadLibrary();
+      found = findImportDuplicates(parsed, [...library.books, ...library.recommendations]);
+    } catch (loadError) {
+      console.error('Error loading the library to check the import against:', loadError);
+      setWarning("Your library couldn't be checked for books you already have.");
+    }
+
+    setBooks(parsed);
+    setMapping(defaultMapping(parsed));
+    setDuplicates(found);
+    setSelected(new Set(parsed.filter((_, index) => !found[index]).map(book => book.row)));
+  };
+
+  const toggleRow = (row: number, checked: boolean) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (checked) next.add(row);
+      else next.delete(row);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!mapping) return;
+
+    const chosen = books.filter(book => selected.has(book.row)).map(book => toImportedBook(book, mapping));
+    setProgress({ done: 0, total: chosen.length });
+    const summary = await importBooks(chosen, (done, total) => setProgress({ done, total }));
+    setProgress(null);
+
+    if (summary) {
+      setIsOpen(false);
+      reset();
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="icon"
+        className="rounded-full h-10 w-10 border-gray-300 text-gray-600"
+        onClick={() => setIsOpen(true)}
+        aria-label="Import from Goodreads"
+      >
+        <FileUp className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-[720px]">
+          <DialogHeader>
+            <DialogTitle>Import from Goodreads</DialogTitle>
+            <DialogDescription>
+              In Goodreads, go to My Books, then Import and export, and export your library. Choose the CSV file it gives you.
+            </DialogDescription>
+          </DialogHeader>
+
+          {!mapping ? (
+            <div className="grid gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+                className="text-sm file:mr-3 file:rounded-md file:border-0 file:bg-gray-100 file:px-3 file:py-2 file:text-sm file:font-medium hover:file:bg-gray-200"
+              />
+              {error && (
+                <p className="text-sm text-red-600">{error}</p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid gap-3 sm:grid-cols-2">
+                {shelves.map(([shelf, count]) => (
+                  <div key={shelf} className="flex items-center justify-between gap-2">
+                    <Label className="font-normal truncate">
+                      {shelf} <span className="text-gray-400">({count})</span>
+                    </Label>
+                    <Select
+                      value={mapping.statusByShelf[shelf]}
+                      onValueChange={(status) => setMapping({
+                        ...mapping,
+                        statusByShelf: { ...mapping.statusByShelf, [shelf]: status as ImportStatus }
+                      })}
+                      disabled={isImporting}
+                    >
+                      <SelectTrigger className="w-32 h-9" aria-label={`Status for the ${shelf} shelf`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-white">
+                        {(Object.keys(STATUS_LABELS) as ImportStatus[]).map(status => (
+                          <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between gap-2">
+                  <Label className="font-normal">Favorites</Label>
+                  <Select
+                    value={mapping.favoriteFromRating === null ? 'none' : String(mapping.favoriteFromRating)}
+                    onValueChange={(value) => setMapping({
+                      ...mapping,
+                      favoriteFromRating: value === 'none' ? null : Number(value)
+                    })}
+                    disabled={isImporting}
+                  >
+                    <SelectTrigger className="w-48 h-9" aria-label="Which books to mark as favorites">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-white">
+                      {FAVORITE_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="import-shelves-as-tags"
+                    checked={mapping.shelvesAsTags}
+                    onCheckedChange={(checked) => setMapping({ ...mapping, shelvesAsTags: checked === true })}
+                    disabled={isImporting}
+                  />
+                  <Label htmlFor="import-shelves-as-tags" className="font-normal">Add other shelves as tags</Label>
+                </div>
+              </div>
+
+              <p className="text-sm text-gray-600">
+                {selected.size} of {books.length} books selected
+                {duplicateCount > 0 && ` · ${duplicateCount} look like books you already have and are left out`}
+              </p>
+              {warning && (
+                <p className="text-sm text-amber-600">{warning}</p>
+              )}
+
+              <div className="max-h-72 overflow-y-auto border border-gray-200 rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>Title</TableHead>
+                      <TableHead>Author</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {books.map((book, index) => {
+                      const duplicate = duplicates[index];
+                      return (
+                        <TableRow key={book.row}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selected.has(book.row)}
+                              onCheckedChange={(checked) => toggleRow(book.row, checked === true)}
+                              disabled={isImporting}
+                              aria-label={`Import ${book.title || `row ${book.row}`}`}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <p className="font-medium line-clamp-1">{book.title}</p>
+                            {book.seriesName && (
+                              <p className="text-xs text-gray-500">
+                                {book.seriesName}{book.seriesPosition && ` #${book.seriesPosition}`}
+                              </p>
+                            )}
+                            {duplicate && (
+                              <p className="text-xs text-amber-600 flex items-center gap-1">
+                                <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                                {describeDuplicate(duplicate)}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm text-gray-600">{book.author}</TableCell>
+                          <TableCell className="text-sm text-gray-600">
+                            {STATUS_LABELS[mapping.statusByShelf[book.exclusiveShelf]]}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {progress && (
+                <div className="space-y-1">
+                  <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} className="h-2" />
+                  <p className="text-xs text-gray-500">Imported {progress.done} of {progress.total}...</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isImporting}>
+              Cancel
+            </Button>
+            {mapping && (
+              <Button onClick={handleImport} disabled={isImporting || selected.size === 0}>
+                {isImporting ? 'Importing...' : `Import ${selected.size} Book${selected.size === 1 ? '' : 's'}`}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default GoodreadsImportDialog;
@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+import { Users, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useBookshelf } from '@/context/BookshelfContext';
+import { NotFoundError, toServiceError } from '@/services/errors';
+import * as membershipService from '@/services/membershipService';
+import { MEMBER_ROLES } from '@/lib/permissions';
+import { LibraryMember, MemberRole } from '@/types/permissions';
+
+const ROLE_LABELS: Record<MemberRole, { label: string; description: string }> = {
+  editor: { label: 'Editor', description: 'Can add, edit, remove and reorder books' },
+  viewer: { label: 'Viewer', description: 'Can see every book, including hidden ones' }
+};
+
+const memberName = (member: LibraryMember): string =>
+  member.displayName || (member.handle ? `@${member.handle}` : member.userId);
+
+// Lets the owner share their library with other users and change or take back their access
+const LibraryMembersDialog: React.FC = () => {
+  const { libraryOwnerId } = useBookshelf();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [members, setMembers] = useState<LibraryMember[]>([]);
+  const [handle, setHandle] = useState('');
+  const [role, setRole] = useState<MemberRole>('viewer');
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMembers = async () => {
+    try {
+      setMembers(await membershipService.listMembers());
+    } catch (loadError) {
+      console.error('Error loading library members:', loadError);
+      setError("The people you share with couldn't be loaded. Try again in a moment.");
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+    loadMembers();
+  }, [isOpen]);
+
+  const handleAdd = async () => {
+    if (!handle.trim()) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      await membershipService.addMember(handle.replace(/^@/, ''), role);
+      setHandle('');
+      await loadMembers();
+    } catch (addError) {
+      console.error('Error adding library member:', addError);
+      const serviceError = toServiceError(addError);
+      setError(serviceError instanceof NotFoundError
+        ? `No library has the handle "${handle.trim()}". Ask them for the handle of their own library page.`
+        : serviceError.kind === 'validation'
+          ? "That's your own handle."
+          : "Your library couldn't be shared. Try again in a moment.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRoleChange = async (member: LibraryMember, newRole: MemberRole) => {
+    if (!libraryOwnerId) return;
+
+    setIsWorking(true);
+    try {
+      await membershipService.setMemberRole(libraryOwnerId, member.userId, newRole);
+      setMembers(current => current.map(item => item.userId === member.userId ? { ...item, role: newRole } : item));
+    } catch (roleError) {
+      console.error('Error changing library member role:', roleError);
+      toast.error(`Couldn't change what ${memberName(member)} can do. Try again in a moment.`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRemove = async (member: LibraryMember) => {
+    if (!libraryOwnerId) return;
+
+    setIsWorking(true);
+    try {
+      await membershipService.removeMember(libraryOwnerId, member.userId);
+      setMembers(current => current.filter(item => item.userId !== member.userId));
+      toast.success(`Stopped sharing with ${memberName(member)}`);
+    } catch (removeError) {
+      console.error('Error removing library member:', removeError);
+      toast.error(`Couldn't stop sharing with ${memberName(member)}. Try again in a moment.`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="icon"
+        className="rounded-full h-10 w-10 border-gray-300 text-gray-600"
+        onClick={() => setIsOpen(true)}
+        aria-label="Members"
+      >
+        <Users className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Share With People</DialogTitle>
+            <DialogDescription>
+              Add people by the handle of their own library page. They'll find your library under "Shared with me" in theirs.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Input
+                value={handle}
+                onChange={(e) => setHandle(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleAdd();
+                }}
+                placeholder="their-handle"
+                aria-label="Their handle"
+                disabled={isWorking}
+              />
+              <Select value={role} onValueChange={(selected) => setRole(selected as MemberRole)} disabled={isWorking}>
+                <SelectTrigger className="w-28" aria-label="What they can do">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white">
+                  {MEMBER_ROLES.map(option => (
+                    <SelectItem key={option} value={option}>{ROLE_LABELS[option].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAdd} disabled={isWorking || !handle.trim()}>
+                Add
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">{ROLE_LABELS[role].description}.</p>
+
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+
+            {members.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-4">Your library isn't shared with anyone.</p>
+            ) : (
+              <div className="max-h-64 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-md">
+                {members.map(member => (
+                  <div key={member.userId} className="flex items-center gap-2 px-3 py-2">
+                    <span className="text-sm truncate flex-grow">{memberName(member)}</span>
+                    <Select
+                      value={member.role}
+                      onValueChange={(selected) => handleRoleChange(member, selected as MemberRole)}
+                      disabled={isWorking}
+                    >
+                      <SelectTrigger className="w-28 h-8" aria-label={`What ${memberName(member)} can do`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-white">
+                        {MEMBER_ROLES.map(option => (
+                          <SelectItem key={option} value={option}>{ROLE_LABELS[option].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleRemove(member)}
+                      disabled={isWorking}
+                      aria-label={`Stop sharing with ${memberName(member)}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default LibraryMembersDialog;
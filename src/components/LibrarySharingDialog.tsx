@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, ExternalLink, Share2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useBookshelf } from '@/context/BookshelfContext';
+import * as profileService from '@/services/profileService';
+import { ValidationError } from '@/services/errors';
+import { LibraryVisibility } from '@/types/profile';
+
+const VISIBILITY_LABELS: Record<LibraryVisibility, { label: string; description: string }> = {
+  public: { label: 'Public', description: 'Anyone can find and open your page.' },
+  unlisted: { label: 'Unlisted', description: 'Only people with the link can open it.' },
+  private: { label: 'Private', description: 'Only you and the people you share your library with.' }
+};
+
+const parseTags = (value: string): string[] => value.split(',').map(tag => tag.trim()).filter(Boolean);
+
+// Lets the owner choose the handle of their public page, who can see it and which tags it leaves out
+const LibrarySharingDialog: React.FC = () => {
+  const { libraryOwnerId } = useBookshelf();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [handle, setHandle] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [visibility, setVisibility] = useState<LibraryVisibility>('public');
+  const [hiddenTags, setHiddenTags] = useState('');
+  const [savedHandle, setSavedHandle] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !libraryOwnerId) return;
+
+    setError(null);
+    profileService.getProfileForOwner(libraryOwnerId)
+      .then(profile => {
+        if (!profile) return;
+        setHandle(profile.handle);
+        setDisplayName(profile.displayName || '');
+        setVisibility(profile.visibility);
+        setHiddenTags(profile.hiddenTags.join(', '));
+        setSavedHandle(profile.handle);
+      })
+      .catch(loadError => {
+        console.error('Error loading library profile:', loadError);
+        setError("Your sharing settings couldn't be loaded. Try again in a moment.");
+      });
+  }, [isOpen, libraryOwnerId]);
+
+  const pageUrl = savedHandle ? `${window.location.origin}${profileService.libraryPath(savedHandle)}` : null;
+
+  const handleSave = async () => {
+    const problem = profileService.handleProblem(handle);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      const profile = await profileService.saveProfile({
+        ownerId: libraryOwnerId,
+        handle,
+        displayName,
+        visibility,
+        hiddenTags: parseTags(hiddenTags)
+      });
+      setHandle(profile.handle);
+      setHiddenTags(profile.hiddenTags.join(', '));
+      setSavedHandle(profile.handle);
+      toast.success('Sharing settings saved');
+    } catch (saveError) {
+      console.error('Error saving library profile:', saveError);
+      setError(saveError instanceof ValidationError
+        ? saveError.issues.map(issue => issue.replace(/^handle: /, '')).join(' ')
+        : "Your sharing settings couldn't be saved. Try again in a moment.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!pageUrl) return;
+    try {
+      await navigator.clipboard.writeText(pageUrl);
+      toast.success('Link copied');
+    } catch (copyError) {
+      console.error('Error copying link:', copyError);
+      toast.error("Couldn't copy the link");
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="icon"
+        className="rounded-full h-10 w-10 border-gray-300 text-gray-600"
+        onClick={() => setIsOpen(true)}
+        aria-label="Sharing"
+      >
+        <Share2 className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Share Your Library</DialogTitle>
+            <DialogDescription>
+              Your page shows your stats and shelf without letting visitors change anything. Tick "Hide from visitors" on a book to leave it out.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid gap-2">
+              <Label htmlFor="library-handle">Handle</Label>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-500">/u/</span>
+                <Input
+                  id="library-handle"
+                  value={handle}
+                  onChange={(e) => setHandle(e.target.value)}
+                  placeholder="your-name"
+                  disabled={isWorking}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="library-display-name">Display name</Label>
+              <Input
+                id="library-display-name"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                placeholder="Shown as the title of your page"
+                disabled={isWorking}
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label>Who can see it</Label>
+              <RadioGroup value={visibility} onValueChange={(value) => setVisibility(value as LibraryVisibility)}>
+                {profileService.VISIBILITY_OPTIONS.map(option => (
+                  <div key={option} className="flex items-start gap-2">
+                    <RadioGroupItem value={option} id={`visibility-${option}`} className="mt-0.5" disabled={isWorking} />
+                    <Label htmlFor={`visibility-${option}`} className="font-normal">
+                      <span className="font-medium">{VISIBILITY_LABELS[option].label}</span>
+                      <span className="block text-xs text-gray-500">{VISIBILITY_LABELS[option].description}</span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="library-hidden-tags">Hide books tagged</Label>
+              <Input
+                id="library-hidden-tags"
+                value={hiddenTags}
+                onChange={(e) => setHiddenTags(e.target.value)}
+                placeholder="e.g. private, gifts"
+                disabled={isWorking}
+              />
+              <p className="text-xs text-gray-500">Separate tags with commas.</p>
+            </div>
+
+            {pageUrl && visibility !== 'private' && (
+              <div className="flex items-center gap-2 rounded-md bg-gray-50 p-2 text-sm">
+                <span className="truncate flex-grow text-gray-600">{pageUrl}</span>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleCopy} aria-label="Copy link">
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                  <a href={pageUrl} target="_blank" rel="noopener noreferrer" aria-label="Open page">
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                </Button>
+              </div>
+            )}
+
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isWorking}>
+              Close
+            </Button>
+            <Button onClick={handleSave} disabled={isWorking || !libraryOwnerId}>
+              {isWorking ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default LibrarySharingDialog;
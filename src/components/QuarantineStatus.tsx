@@ -0,0 +1,86 @@
+import React from 'react';
+import { ShieldAlert, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { 
+  DropdownMenu, 
+  DropdownMenuTrigger, 
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator
+} from '@/components/ui/dropdown-menu';
+import { useQuarantine } from '@/hooks/useQuarantine';
+import { QuarantinedRecord } from '@/types/quarantine';
+
+const SOURCE_LABELS: Record<QuarantinedRecord['source'], string> = {
+  supabase: 'Supabase',
+  indexedDb: 'this browser',
+  import: 'an import'
+};
+
+// Best-effort name for a record that may be missing the very fields we'd show
+const describeRecord = (entry: QuarantinedRecord): string => {
+  const title = entry.record && typeof entry.record === 'object'
+    ? (entry.record as { title?: unknown }).title
+    : undefined;
+  return typeof title === 'string' && title.trim() ? title : entry.recordId || 'Untitled record';
+};
+
+// Reports stored books that were hidden because they failed validation
+const QuarantineStatus: React.FC = () => {
+  const { records, dismiss, clearAll } = useQuarantine();
+
+  if (records.length === 0) {
+    return null;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="rounded-full h-10 px-3 flex items-center gap-2 border-red-300 text-red-700"
+          aria-label="Invalid records"
+        >
+          <ShieldAlert className="h-4 w-4" />
+          <span className="text-xs sm:text-sm">{records.length} hidden</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 bg-white z-50">
+        <DropdownMenuLabel className="text-xs font-normal text-gray-500">
+          {records.length} stored record{records.length === 1 ? ' was' : 's were'} malformed and hidden from your shelf.
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <div className="max-h-64 overflow-y-auto">
+          {records.map(entry => (
+            <div key={entry.key} className="flex items-start gap-2 px-2 py-1.5 text-sm">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{describeRecord(entry)}</p>
+                <p className="text-xs text-gray-500">From {SOURCE_LABELS[entry.source]} · {entry.collection}</p>
+                <ul className="text-xs text-red-600 list-disc pl-4">
+                  {entry.issues.map(issue => <li key={issue}>{issue}</li>)}
+                </ul>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                onClick={() => dismiss(entry.key)}
+                aria-label="Dismiss"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={clearAll}>
+          <Trash2 className="h-4 w-4 mr-2" /> Dismiss all
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default QuarantineStatus;
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Check, Library } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '@/hooks/useAuth';
+import { useBookshelf } from '@/context/BookshelfContext';
+import * as membershipService from '@/services/membershipService';
+import { SharedLibrary } from '@/types/permissions';
+
+// Switches between the signed-in user's own library and the ones shared with them
+const SharedLibrariesMenu: React.FC = () => {
+  const { user } = useAuth();
+  const { libraryOwnerId } = useBookshelf();
+  const [libraries, setLibraries] = useState<SharedLibrary[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    membershipService.listSharedLibraries()
+      .then(shared => {
+        if (!cancelled) setLibraries(shared);
+      })
+      .catch(error => console.error('Error loading shared libraries:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  if (!user || libraries.length === 0) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="rounded-full h-10 w-10 border-gray-300 text-gray-600"
+          aria-label="Shared with me"
+        >
+          <Library className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="bg-white">
+        <DropdownMenuItem asChild>
+          <Link to="/library" className="flex items-center justify-between gap-4">
+            My library
+            {libraryOwnerId === user.uid && <Check className="h-4 w-4" />}
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs font-normal text-gray-500">Shared with me</DropdownMenuLabel>
+        {libraries.map(library => (
+          <DropdownMenuItem key={library.ownerId} asChild>
+            <Link to={`/library/${encodeURIComponent(library.ownerId)}`} className="flex items-center justify-between gap-4">
+              <span className="truncate">{membershipService.sharedLibraryName(library)}</span>
+              {libraryOwnerId === library.ownerId && <Check className="h-4 w-4" />}
+            </Link>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default SharedLibrariesMenu;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { CloudOff, AlertTriangle, RefreshCw, Trash2, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { 
+  DropdownMenu, 
+  DropdownMenuTrigger, 
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator
+} from '@/components/ui/dropdown-menu';
+import { useOutbox } from '@/hooks/useOutbox';
+import { useConnection } from '@/hooks/useConnection';
+import { cn } from '@/lib/utils';
+
+// Shows changes that are saved locally but not yet on the server, and when the app is working in local mode
+const SyncStatus: React.FC = () => {
+  const { pending, failed, retryFailed, discardFailed } = useOutbox();
+  const { isLocalMode, isReconnecting, reconnect } = useConnection();
+
+  if (pending === 0 && failed === 0 && !isLocalMode) {
+    return null;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn(
+            "rounded-full h-10 px-3 flex items-center gap-2",
+            failed > 0 ? 'border-red-300 text-red-700' : 'border-amber-300 text-amber-700'
+          )}
+          aria-label="Sync status"
+        >
+          {failed > 0 ? <AlertTriangle className="h-4 w-4" /> : isLocalMode ? <WifiOff className="h-4 w-4" /> : <CloudOff className="h-4 w-4" />}
+          <span className="text-xs sm:text-sm">
+            {isLocalMode && 'Offline'}
+            {isLocalMode && (pending > 0 || failed > 0) && ' · '}
+            {pending > 0 && `${pending} pending`}
+            {pending > 0 && failed > 0 && ' · '}
+            {failed > 0 && `${failed} failed`}
+          </span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64 bg-white z-50">
+        <DropdownMenuLabel className="text-xs font-normal text-gray-500">
+          {isLocalMode && 'The server is unreachable, so your library is being read from and saved to this device. '}
+          {pending > 0 && `${pending} change${pending === 1 ? '' : 's'} will sync when the connection returns. `}
+          {failed > 0 && `${failed} change${failed === 1 ? '' : 's'} could not be saved to the server.`}
+        </DropdownMenuLabel>
+        {isLocalMode && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={reconnect} disabled={isReconnecting}>
+              <RefreshCw className={cn("h-4 w-4 mr-2", isReconnecting && "animate-spin")} />
+              {isReconnecting ? 'Reconnecting...' : 'Try to reconnect'}
+            </DropdownMenuItem>
+          </>
+        )}
+        {failed > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={retryFailed}>
+              <RefreshCw className="h-4 w-4 mr-2" /> Retry failed changes
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={discardFailed}>
+              <Trash2 className="h-4 w-4 mr-2" /> Discard failed changes
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default SyncStatus;
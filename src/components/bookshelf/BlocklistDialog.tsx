@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { Ban, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useBookshelf } from '@/context/BookshelfContext';
+import * as blocklistService from '@/services/blocklistService';
+import { BlocklistEntry, BlocklistKind } from '@/types/submission';
+
+const KIND_LABELS: Record<BlocklistKind, { label: string; placeholder: string }> = {
+  email: { label: 'Email', placeholder: 'spammer@example.com or @example.com' },
+  name: { label: 'Name', placeholder: 'The name they sign with' },
+  phrase: { label: 'Phrase', placeholder: 'Words that only spam contains' }
+};
+
+// Lets the owner see and change who is blocked from recommending books to their library
+const BlocklistDialog: React.FC = () => {
+  const { libraryOwnerId } = useBookshelf();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [entries, setEntries] = useState<BlocklistEntry[]>([]);
+  const [kind, setKind] = useState<BlocklistKind>('email');
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = async (ownerId: string) => {
+    try {
+      setEntries(await blocklistService.getBlocklist(ownerId));
+    } catch (loadError) {
+      console.error('Error loading the blocklist:', loadError);
+      setError("The blocklist couldn't be loaded. Try again in a moment.");
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen || !libraryOwnerId) return;
+
+    setError(null);
+    loadEntries(libraryOwnerId);
+  }, [isOpen, libraryOwnerId]);
+
+  const handleAdd = async () => {
+    if (!libraryOwnerId) return;
+
+    const problem = blocklistService.blockProblem(kind, value);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      await blocklistService.block(libraryOwnerId, kind, value);
+      setValue('');
+      await loadEntries(libraryOwnerId);
+    } catch (blockError) {
+      console.error('Error adding to the blocklist:', blockError);
+      setError("That couldn't be blocked. Try again in a moment.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRemove = async (entry: BlocklistEntry) => {
+    setIsWorking(true);
+    try {
+      await blocklistService.unblock(entry.id);
+      setEntries(current => current.filter(item => item.id !== entry.id));
+      toast.success(`Unblocked ${entry.value}`);
+    } catch (unblockError) {
+      console.error('Error removing from the blocklist:', unblockError);
+      toast.error(`Couldn't unblock ${entry.value}. Try again in a moment.`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setIsOpen(true)}>
+        <Ban className="h-4 w-4 mr-2" /> Blocked Senders
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Blocked Senders</DialogTitle>
+            <DialogDescription>
+              Recommendations from blocked senders, or containing a blocked phrase, are dropped without reaching your review queue. Senders aren't told.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Select value={kind} onValueChange={(selected) => setKind(selected as BlocklistKind)} disabled={isWorking}>
+                <SelectTrigger className="w-28" aria-label="What to block">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white">
+                  {(Object.keys(KIND_LABELS) as BlocklistKind[]).map(option => (
+                    <SelectItem key={option} value={option}>{KIND_LABELS[option].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleAdd();
+                }}
+                placeholder={KIND_LABELS[kind].placeholder}
+                disabled={isWorking}
+              />
+              <Button onClick={handleAdd} disabled={isWorking || !value.trim()}>
+                Block
+              </Button>
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+
+            {entries.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-4">Nobody is blocked.</p>
+            ) : (
+              <div className="max-h-64 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-md">
+                {entries.map(entry => (
+                  <div key={entry.id} className="flex items-center gap-2 px-3 py-2">
+                    <Badge variant="secondary" className="bg-gray-100 text-gray-700">
+                      {KIND_LABELS[entry.kind].label}
+                    </Badge>
+                    <span className="text-sm truncate flex-grow">{entry.value}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleRemove(entry)}
+                      disabled={isWorking}
+                      aria-label={`Unblock ${entry.value}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default BlocklistDialog;
@@ -1,9 +1,10 @@
 import React from 'react';
-import { Star, MoreVertical, Pencil, Trash2, BookMarked } from 'lucide-react';
+import { Star, MoreVertical, Pencil, Trash2, BookMarked, BookPlus } from 'lucide-react';
 import { Book } from '@/types/book';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import LoadMoreSentinel from './LoadMoreSentinel';
 import { 
   DropdownMenu, 
   DropdownMenuTrigger, 
@@ -13,13 +14,30 @@ import {
 
 interface BookListProps {
   books: Book[];
-  onEdit: (book: Book) => void;
-  onDelete: (bookId: string) => void;
+  // Left out for users who may not change the library, which hides the action
+  onEdit?: (book: Book) => void;
+  onDelete?: (bookId: string) => void;
+  // Moves a recommendation onto the to-read shelf
+  onAccept?: (bookId: string) => void;
   onShowDetails: (book: Book) => void;
   cardClassName?: string;
+  // Infinite scrolling: onLoadMore is called near the end while hasMore is set
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
-const BookList: React.FC<BookListProps> = ({ books, onEdit, onDelete, onShowDetails, cardClassName }) => {
+const BookList: React.FC<BookListProps> = ({
+  books,
+  onEdit,
+  onDelete,
+  onAccept,
+  onShowDetails,
+  cardClassName,
+  hasMore,
+  isLoadingMore,
+  onLoadMore
+}) => {
   if (books.length === 0) {
     return (
       <div className="text-center py-12 bg-gray-50 rounded-md">
@@ -109,27 +127,44 @@ const BookList: React.FC<BookListProps> = ({ books, onEdit, onDelete, onShowDeta
                   {book.progress}% 
                 </div>
               )}
-              <div className="ml-1 sm:ml-2">
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="ghost" size="icon" className="h-6 w-6 sm:h-8 sm:w-8">
-                      <MoreVertical className="h-3 w-3 sm:h-4 sm:w-4" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end" className="w-40 sm:w-48 bg-white">
-                    <DropdownMenuItem onClick={() => onEdit(book)}>
-                      <Pencil className="h-4 w-4 mr-2" /> Edit
-                    </DropdownMenuItem>
-                    <DropdownMenuItem onClick={() => onDelete(book.id)}>
-                      <Trash2 className="h-4 w-4 mr-2" /> Remove
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              </div>
+              {(onEdit || onDelete || onAccept) && (
+                <div className="ml-1 sm:ml-2">
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-6 w-6 sm:h-8 sm:w-8">
+                        <MoreVertical className="h-3 w-3 sm:h-4 sm:w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="w-40 sm:w-48 bg-white">
+                      {onAccept && (
+                        <DropdownMenuItem onClick={() => onAccept(book.id)}>
+                          <BookPlus className="h-4 w-4 mr-2" /> Accept
+                        </DropdownMenuItem>
+                      )}
+                      {onEdit && (
+                        <DropdownMenuItem onClick={() => onEdit(book)}>
+                          <Pencil className="h-4 w-4 mr-2" /> Edit
+                        </DropdownMenuItem>
+                      )}
+                      {onDelete && (
+                        <DropdownMenuItem onClick={() => onDelete(book.id)}>
+                          <Trash2 className="h-4 w-4 mr-2" /> Remove
+                        </DropdownMenuItem>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              )}
             </div>
           );
         })}
       </div>
+      <LoadMoreSentinel
+        hasMore={hasMore}
+        isLoading={isLoadingMore}
+        onLoadMore={onLoadMore}
+        itemCount={books.length}
+      />
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import React from 'react';
-import { MoreVertical, Pencil, Trash2, BookMarked, BookOpenCheck } from 'lucide-react';
+import { MoreVertical, Pencil, Trash2, BookMarked, BookOpenCheck, BookPlus } from 'lucide-react';
 import { Book } from '@/types/book';
 import BookCover from '@/components/BookCover';
 import { Button } from '@/components/ui/button';
@@ -11,11 +11,15 @@ import {
   DropdownMenuItem
 } from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
+import LoadMoreSentinel from './LoadMoreSentinel';
 
 interface BookshelfGridProps {
   books: Book[];
-  onEdit: (book: Book) => void;
-  onDelete: (bookId: string) => void;
+  // Left out for users who may not change the library, which hides the action
+  onEdit?: (book: Book) => void;
+  onDelete?: (bookId: string) => void;
+  // Moves a recommendation onto the to-read shelf
+  onAccept?: (bookId: string) => void;
   onShowDetails: (book: Book) => void;
   onDragStart?: (book: Book) => void;
   onDragOver?: (e: React.DragEvent<HTMLDivElement>, book: Book) => void;
@@ -23,19 +27,27 @@ interface BookshelfGridProps {
   draggedOverBook?: Book | null;
   showStatus?: boolean;
   cardClassName?: string;
+  // Infinite scrolling: onLoadMore is called near the end while hasMore is set
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 const BookshelfGrid: React.FC<BookshelfGridProps> = ({ 
   books, 
   onEdit, 
   onDelete,
+  onAccept,
   onShowDetails,
   onDragStart,
   onDragOver,
   onDrop,
   draggedOverBook,
   showStatus = false,
-  cardClassName
+  cardClassName,
+  hasMore,
+  isLoadingMore,
+  onLoadMore
 }) => {
   if (books.length === 0) {
     return (
@@ -65,23 +77,34 @@ const BookshelfGrid: React.FC<BookshelfGridProps> = ({
               onClick={() => onShowDetails(book)}
               className={`${onDragStart ? 'cursor-move' : ''} book-container relative group ${draggedOverBook?.id === book.id ? 'opacity-50' : ''}`}
             >
-              <div className="absolute right-1 top-1 z-50 opacity-0 group-hover:opacity-100 transition-opacity">
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="outline" size="icon" className="h-6 w-6 sm:h-7 sm:w-7 bg-white">
-                      <MoreVertical className="h-3 w-3 sm:h-4 sm:w-4" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end" className="w-40 sm:w-48 bg-white z-50">
-                    <DropdownMenuItem onClick={() => onEdit(book)}>
-                      <Pencil className="h-4 w-4 mr-2" /> Edit
-                    </DropdownMenuItem>
-                    <DropdownMenuItem onClick={() => onDelete(book.id)}>
-                      <Trash2 className="h-4 w-4 mr-2" /> Remove
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              </div>
+              {(onEdit || onDelete || onAccept) && (
+                <div className="absolute right-1 top-1 z-50 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="icon" className="h-6 w-6 sm:h-7 sm:w-7 bg-white">
+                        <MoreVertical className="h-3 w-3 sm:h-4 sm:w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="w-40 sm:w-48 bg-white z-50">
+                      {onAccept && (
+                        <DropdownMenuItem onClick={() => onAccept(book.id)}>
+                          <BookPlus className="h-4 w-4 mr-2" /> Accept
+                        </DropdownMenuItem>
+                      )}
+                      {onEdit && (
+                        <DropdownMenuItem onClick={() => onEdit(book)}>
+                          <Pencil className="h-4 w-4 mr-2" /> Edit
+                        </DropdownMenuItem>
+                      )}
+                      {onDelete && (
+                        <DropdownMenuItem onClick={() => onDelete(book.id)}>
+                          <Trash2 className="h-4 w-4 mr-2" /> Remove
+                        </DropdownMenuItem>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              )}
               
               <div className="relative">
                 <BookCover 
@@ -114,6 +137,12 @@ const BookshelfGrid: React.FC<BookshelfGridProps> = ({
           );
         })}
       </div>
+      <LoadMoreSentinel
+        hasMore={hasMore}
+        isLoading={isLoadingMore}
+        onLoadMore={onLoadMore}
+        itemCount={books.length}
+      />
     </div>
   );
 };
@@ -11,8 +11,9 @@ interface BookshelfSectionProps {
   iconColor?: string;
   books: Book[];
   displayStyle: 'shelf' | 'list';
-  onEdit: (book: Book) => void;
-  onDelete: (bookId: string) => void;
+  onEdit?: (book: Book) => void;
+  onDelete?: (bookId: string) => void;
+  onAccept?: (bookId: string) => void;
   onShowDetails: (book: Book) => void;
   onDragStart?: (book: Book) => void;
   onDragOver?: (e: React.DragEvent<HTMLDivElement>, book: Book) => void;
@@ -22,6 +23,9 @@ interface BookshelfSectionProps {
   emptyMessage?: string;
   emptySubMessage?: string;
   cardClassName?: string;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 const BookshelfSection: React.FC<BookshelfSectionProps> = ({
@@ -32,6 +36,7 @@ const BookshelfSection: React.FC<BookshelfSectionProps> = ({
   displayStyle,
   onEdit,
   onDelete,
+  onAccept,
   onShowDetails,
   onDragStart,
   onDragOver,
@@ -41,6 +46,9 @@ const BookshelfSection: React.FC<BookshelfSectionProps> = ({
   emptyMessage = 'No books to display',
   emptySubMessage,
   cardClassName,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
 }) => {
   return (
     <div className="space-y-4">
@@ -65,14 +73,19 @@ const BookshelfSection: React.FC<BookshelfSectionProps> = ({
             books={books} 
             onEdit={onEdit} 
             onDelete={onDelete} 
+            onAccept={onAccept}
             onShowDetails={onShowDetails}
             cardClassName={cardClassName} 
+            hasMore={hasMore}
+            isLoadingMore={isLoadingMore}
+            onLoadMore={onLoadMore}
           />
         ) : (
           <BookshelfGrid 
             books={books} 
             onEdit={onEdit} 
             onDelete={onDelete}
+            onAccept={onAccept}
             onShowDetails={onShowDetails}
             onDragStart={onDragStart}
             onDragOver={onDragOver}
@@ -80,6 +93,9 @@ const BookshelfSection: React.FC<BookshelfSectionProps> = ({
             draggedOverBook={draggedOverBook}
             showStatus={showStatus}
             cardClassName={cardClassName}
+            hasMore={hasMore}
+            isLoadingMore={isLoadingMore}
+            onLoadMore={onLoadMore}
           />
         )
       )}
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
+
+interface LoadMoreSentinelProps {
+  hasMore?: boolean;
+  isLoading?: boolean;
+  onLoadMore?: () => void;
+  itemCount: number;
+}
+
+// Placed after the last book of a grid or list, loads the next page as it scrolls into view
+const LoadMoreSentinel: React.FC<LoadMoreSentinelProps> = ({ hasMore = false, isLoading = false, onLoadMore, itemCount }) => {
+  const sentinelRef = useInfiniteScroll({ hasMore: hasMore && Boolean(onLoadMore), onLoadMore, itemCount });
+
+  if (!hasMore || !onLoadMore) return null;
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-4" aria-live="polite">
+      {isLoading && (
+        <>
+          <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+          <span className="sr-only">Loading more books</span>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LoadMoreSentinel;
@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Ban, Check, GitMerge, Inbox, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useBookshelf } from '@/context/BookshelfContext';
+import * as blocklistService from '@/services/blocklistService';
+import * as submissionService from '@/services/submissionService';
+import { Book } from '@/types/book';
+import { LibraryContents } from '@/types/backup';
+import { RecommendationSubmission } from '@/types/submission';
+import { findMatch } from '@/utils/bookMatching';
+
+interface SubmissionItemProps {
+  submission: RecommendationSubmission;
+  recommendations: Book[];
+  // The book on the shelf this submission repeats, if any
+  shelfMatch?: Book;
+  // The recommendation it repeats, which merging into is suggested
+  repeatOf?: Book;
+  isWorking: boolean;
+  onApprove: () => void;
+  onMerge: (recommendationId: string) => void;
+  onReject: () => void;
+  onBlock: () => void;
+}
+
+const SubmissionItem: React.FC<SubmissionItemProps> = ({
+  submission,
+  recommendations,
+  shelfMatch,
+  repeatOf,
+  isWorking,
+  onApprove,
+  onMerge,
+  onReject,
+  onBlock
+}) => {
+  const [mergeTarget, setMergeTarget] = useState<string>(repeatOf?.id || '');
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-2 sm:p-3">
+      <div className="flex-1 min-w-0">
+        <h3 className="text-sm sm:text-base font-medium line-clamp-1">{submission.title}</h3>
+        <p className="text-xs sm:text-sm text-gray-500 line-clamp-1">{submission.author}</p>
+        <p className="text-[10px] sm:text-xs text-gray-400">
+          From {submission.recommendedBy}
+          {submission.email && ` (${submission.email})`}
+          {' · '}{formatDistanceToNow(new Date(submission.createdAt), { addSuffix: true })}
+        </p>
+        {submission.note && (
+          <p className="text-xs text-gray-600 mt-1 italic line-clamp-3">"{submission.note}"</p>
+        )}
+        {shelfMatch ? (
+          <p className="text-xs text-amber-600 mt-1">
+            Already on your shelf as "{shelfMatch.title}" ({shelfMatch.status.replace('-', ' ')})
+          </p>
+        ) : repeatOf && (
+          <p className="text-xs text-blue-600 mt-1">Already recommended as "{repeatOf.title}"</p>
+        )}
+      </div>
+      <div className="flex items-center gap-1 flex-shrink-0">
+        <Button variant="ghost" size="sm" onClick={onApprove} disabled={isWorking}>
+          <Check className="h-4 w-4 sm:mr-2" />
+          <span className="hidden sm:inline">Approve</span>
+        </Button>
+        {recommendations.length > 0 && (
+          <>
+            <Select value={mergeTarget} onValueChange={setMergeTarget} disabled={isWorking}>
+              <SelectTrigger className="w-36 h-9" aria-label="Recommendation to merge into">
+                <SelectValue placeholder="Merge into..." />
+              </SelectTrigger>
+              <SelectContent className="bg-white">
+                {recommendations.map(book => (
+                  <SelectItem key={book.id} value={book.id}>{book.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onMerge(mergeTarget)}
+              disabled={isWorking || !mergeTarget}
+              aria-label="Merge"
+            >
+              <GitMerge className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+          onClick={onReject}
+          disabled={isWorking}
+          aria-label="Reject"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-gray-500 hover:text-red-700 hover:bg-red-50"
+          onClick={onBlock}
+          disabled={isWorking}
+          aria-label={`Block ${submission.email || submission.recommendedBy}`}
+          title={`Reject and block ${submission.email || submission.recommendedBy}`}
+        >
+          <Ban className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const mergeById = (loaded: Book[], rest: Book[] = []): Book[] => {
+  const loadedIds = new Set(loaded.map(book => book.id));
+  return [...loaded, ...rest.filter(book => !loadedIds.has(book.id))];
+};
+
+// Recommendations visitors have sent, waiting for the owner to approve, merge or reject them
+const ModerationQueue: React.FC = () => {
+  const { libraryOwnerId, books, recommendations, loadBookDetails, loadLibrary } = useBookshelf();
+  const [submissions, setSubmissions] = useState<RecommendationSubmission[]>([]);
+  const [library, setLibrary] = useState<LibraryContents | null>(null);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!libraryOwnerId) return;
+    let cancelled = false;
+
+    submissionService.getPendingSubmissions(libraryOwnerId)
+      .then(async pending => {
+        // Repeats are looked for in the whole library, not just the pages loaded so far
+        const contents = pending.length > 0
+          ? await loadLibrary().catch(error => {
+            console.error('Error loading the library to check submissions against:', error);
+            return null;
+          })
+          : null;
+        if (cancelled) return;
+        setLibrary(contents);
+        setSubmissions(pending);
+      })
+      .catch(error => {
+        console.error('Error loading recommendation submissions:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [libraryOwnerId, loadLibrary]);
+
+  // The loaded pages come first, since they include recommendations approved since the library was read
+  const shelf = useMemo(() => mergeById(books, library?.books), [books, library]);
+  const listed = useMemo(() => mergeById(recommendations, library?.recommendations), [recommendations, library]);
+
+  const review = async (submission: RecommendationSubmission, action: () => Promise<Book | void>, done: string) => {
+    setWorkingId(submission.id);
+    try {
+      const recommendation = await action();
+      setSubmissions(current => current.filter(item => item.id !== submission.id));
+      toast.success(done);
+      // Shows the recommendation straight away rather than waiting for the realtime update
+      if (recommendation) {
+        await loadBookDetails(recommendation).catch(error => {
+          console.error('Error loading reviewed recommendation:', error);
+        });
+      }
+    } catch (error) {
+      console.error('Error reviewing recommendation submission:', error);
+      toast.error(`Couldn't review "${submission.title}". Try again in a moment.`);
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  // Blocks the sender by email when they gave one, since names are easily changed
+  const blockSender = async (submission: RecommendationSubmission) => {
+    if (libraryOwnerId) {
+      await blocklistService.block(
+        libraryOwnerId,
+        submission.email ? 'email' : 'name',
+        submission.email || submission.recommendedBy
+      );
+    }
+    await submissionService.rejectSubmission(submission.id);
+  };
+
+  if (submissions.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <Inbox className="h-4 w-4 text-blue-500" />
+        <span>Waiting for review ({submissions.length})</span>
+      </div>
+      <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden divide-y divide-gray-200">
+        {submissions.map(submission => (
+          <SubmissionItem
+            key={submission.id}
+            submission={submission}
+            recommendations={listed}
+            shelfMatch={findMatch(submission, shelf)?.book}
+            repeatOf={listed.find(book => book.id === submission.duplicateOf) || findMatch(submission, listed)?.book}
+            isWorking={workingId !== null}
+            onApprove={() => review(
+              submission,
+              () => submissionService.approveSubmission(submission.id),
+              `Added "${submission.title}" to your recommendations`
+            )}
+            onMerge={(recommendationId) => review(
+              submission,
+              () => submissionService.mergeSubmission(submission.id, recommendationId),
+              `Merged ${submission.recommendedBy}'s recommendation`
+            )}
+            onReject={() => review(
+              submission,
+              () => submissionService.rejectSubmission(submission.id),
+              `Rejected "${submission.title}"`
+            )}
+            onBlock={() => review(
+              submission,
+              () => blockSender(submission),
+              `Blocked ${submission.email || submission.recommendedBy}`
+            )}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ModerationQueue;
@@ -0,0 +1,135 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useBookshelf } from '@/context/BookshelfContext';
+import { RETENTION_OPTIONS, getPurgeDate } from '@/services/trashService';
+
+interface TrashViewProps {
+  canManage: boolean;
+}
+
+// Removed books and recommendations, restorable until the retention period ends
+const TrashView: React.FC<TrashViewProps> = ({ canManage }) => {
+  const {
+    trash,
+    restoreBook,
+    deleteBookForever,
+    emptyTrash,
+    trashRetentionDays,
+    setTrashRetentionDays
+  } = useBookshelf();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <span>Keep removed books for</span>
+          <Select
+            value={String(trashRetentionDays)}
+            onValueChange={value => setTrashRetentionDays(Number(value))}
+            disabled={!canManage}
+          >
+            <SelectTrigger className="w-28 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white">
+              {RETENTION_OPTIONS.map(days => (
+                <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        {canManage && trash.length > 0 && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" className="border-red-300 text-red-700 hover:bg-red-50">
+                <Trash2 className="h-4 w-4 mr-2" /> Empty Trash
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {trash.length} {trash.length === 1 ? 'book' : 'books'} will be permanently deleted. This can't be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={emptyTrash} className="bg-red-600 hover:bg-red-700">
+                  Delete Forever
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+      
+      {trash.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-md">
+          <p className="text-gray-600">The trash is empty</p>
+          <p className="text-sm text-gray-400 mt-1">Removed books stay here for {trashRetentionDays} days.</p>
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden divide-y divide-gray-200">
+          {trash.map(book => (
+            <div key={book.id} className="flex items-center gap-3 p-2 sm:p-3">
+              <div 
+                className="w-10 h-14 rounded shadow-md bg-cover bg-center flex-shrink-0 flex items-center justify-center"
+                style={book.coverUrl 
+                  ? { backgroundImage: `url(${book.coverUrl})` } 
+                  : { backgroundColor: book.color || '#3B82F6' }}
+              >
+                {!book.coverUrl && (
+                  <span className="text-[10px] font-bold text-white">{book.title.substring(0, 2)}</span>
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <h3 className="text-sm sm:text-base font-medium line-clamp-1">{book.title}</h3>
+                <p className="text-xs sm:text-sm text-gray-500 line-clamp-1">
+                  {book.author}{book.status === 'recommendation' && ' · Recommendation'}
+                </p>
+                <p className="text-[10px] sm:text-xs text-gray-400">
+                  Removed {formatDistanceToNow(new Date(book.deletedAt), { addSuffix: true })}
+                  {' · '}deleted forever {formatDistanceToNow(getPurgeDate(book, trashRetentionDays), { addSuffix: true })}
+                </p>
+              </div>
+              {canManage && (
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button variant="ghost" size="sm" onClick={() => restoreBook(book.id)}>
+                    <RotateCcw className="h-4 w-4 sm:mr-2" />
+                    <span className="hidden sm:inline">Restore</span>
+                  </Button>
+                  <Button 
+                    variant="ghost" 
+                    size="sm" 
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    onClick={() => deleteBookForever(book.id)}
+                    aria-label="Delete forever"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrashView;
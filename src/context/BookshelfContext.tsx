@@ -1,29 +1,100 @@
-import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { Book } from '@/types/book';
+import { BookCollection, BookRepository, OrderUpdate, UpdateOptions, WriteStatus, Written, collectionFor } from '@/types/repository';
+import { LibraryContents } from '@/types/backup';
+import { ImportSummary } from '@/types/import';
 import { toast } from "sonner";
-import * as bookService from '@/services/bookService';
-import { isUsingDemoCredentials, shouldUseFallback } from '@/lib/supabase';
-import { useLocalStorage } from '@/hooks/useLocalStorage';
-import { useSupabase } from '@/hooks/useSupabase';
+import { useAuth } from '@/hooks/useAuth';
+import { getBookRepository, getVisitorRepository } from '@/services/repositories/bookRepository';
+import { libraryOwnerFor } from '@/services/libraryScope';
+import { useBookRepository } from '@/hooks/useBookRepository';
+import { HistoryCommand, useCommandHistory } from '@/hooks/useCommandHistory';
+import { createBookService, unwrap } from '@/services/bookService';
+import { BookConflictError, NotFoundError, ServiceErrorKind, ValidationError, toServiceError } from '@/services/errors';
 import { createSeriesBooks } from '@/services/bookMappers';
+import { computeOrderUpdates } from '@/utils/orderUtils';
+import { findMatch } from '@/utils/bookMatching';
+import { addRecommenders } from '@/utils/recommenders';
+import * as trashService from '@/services/trashService';
+import * as backupService from '@/services/backupService';
+import * as importService from '@/services/importService';
+import * as coverStorageService from '@/services/coverStorageService';
 import { v4 as uuidv4 } from 'uuid';
 
 interface BookshelfContextType {
+  // User whose library is open, or null when every library is shown
+  libraryOwnerId: string | null;
+  // Set for pages that show a library without letting anyone change it
+  isReadOnly: boolean;
+  // The pages loaded so far, as summaries; loadMore fetches the next page and loadAll the rest
   books: Book[];
   recommendations: Book[];
+  hasMore: Record<BookCollection, boolean>;
+  isLoadingMore: Record<BookCollection, boolean>;
+  loadMore: (collection: BookCollection) => void;
+  loadAll: (collection: BookCollection) => void;
+  // Fetches the full book, with the fields summaries leave out, and shows it in place of the summary
+  loadBookDetails: (book: Book) => Promise<Book>;
+  // Every book and recommendation in full, read from the repository rather than the loaded pages
+  loadLibrary: () => Promise<LibraryContents>;
   addBook: (bookData: Omit<Book, 'id'>, totalSeriesBooks?: number, totalSeriesPages?: number) => void;
+  // Adds books from another app's export; resolves to what was added and left out, or null if the import failed
+  importBooks: (books: Omit<Book, 'id'>[], onProgress?: (done: number, total: number) => void) => Promise<ImportSummary | null>;
+  // Moves the book to the trash; it can be restored until the retention period ends
   removeBook: (id: string) => void;
-  editBook: (id: string, bookData: Partial<Book>) => void;
+  trash: Book[];
+  restoreBook: (id: string) => void;
+  deleteBookForever: (id: string) => void;
+  emptyTrash: () => void;
+  trashRetentionDays: number;
+  setTrashRetentionDays: (days: number) => Promise<void>;
+  // Moves a recommendation onto the to-read shelf, keeping who recommended it
+  acceptRecommendation: (id: string) => void;
+  // Rejects with a BookConflictError when options.expectedVersion is out of date
+  editBook: (id: string, bookData: Partial<Book>, options?: UpdateOptions) => Promise<void>;
   reorderBooks: (currentOrder: string[], newOrder: string[]) => void;
   updateProgress: (id: string, progress: number) => void;
   toggleFavorite: (id: string) => void;
+  // Reverse or reapply recorded changes, syncing them to the repository
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  // Reloads the library from the repository
   recoverData: () => void;
+  // True once at least one snapshot of the library has been saved
   hasBackup: boolean;
+  createBackup: () => Promise<void>;
+  // Writes a saved snapshot back into the current repository
+  restoreBackup: (snapshotId: string) => Promise<void>;
   isLoading: boolean;
 }
 
 const BookshelfContext = createContext<BookshelfContextType | undefined>(undefined);
 
+// Shown under a failure toast to say what happened and what the user can do
+const FAILURE_HINTS: Record<ServiceErrorKind, string> = {
+  network: "Couldn't reach the server. Check your connection and try again.",
+  timeout: 'The server took too long to respond. Try again in a moment.',
+  'not-found': 'It may have been deleted on another device.',
+  conflict: 'It was changed on another device in the meantime.',
+  validation: 'Some of the details are not valid.',
+  forbidden: 'Sign in as the owner of this library to change it.',
+  quota: 'Storage on this device is full. Empty the trash or delete old backups to free up space.',
+  unknown: 'Something went wrong. Please try again.'
+};
+
+const QUEUED_HINT = 'Saved on this device. It will sync once the server can be reached.';
+
+// Where a recommended book already is, for the owner told it's on their shelf
+const SHELF_HINTS: Record<Book['status'], string> = {
+  read: "You've already read it.",
+  reading: "You're reading it now.",
+  'to-read': "It's already on your to-read list.",
+  wishlist: "It's already on your wishlist.",
+  recommendation: "It's already recommended."
+};
+
 export const useBookshelf = () => {
   const context = useContext(BookshelfContext);
   if (context === undefined) {
@@ -32,35 +103,84 @@ export const useBookshelf = () => {
   return context;
 };
 
-export const BookshelfProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [hasBackup, setHasBackup] = useState<boolean>(true);
+interface BookshelfProviderProps {
+  children: React.ReactNode;
+  // Whose library to open; defaults to the signed-in user's, or the default library when signed out
+  ownerId?: string | null;
+  // Defaults to the repository selected at startup for that library; pass a fake in tests
+  repository?: BookRepository;
+  // Hides every action, even from the owner, and takes no backups
+  readOnly?: boolean;
+}
+
+export const BookshelfProvider: React.FC<BookshelfProviderProps> = ({ 
+  children, 
+  ownerId,
+  repository: repositoryOverride,
+  readOnly = false
+}) => {
+  const { user } = useAuth();
+  const libraryOwnerId = ownerId !== undefined ? ownerId : libraryOwnerFor(user?.uid);
+  const isSignedIn = Boolean(user);
+  const repository = useMemo(
+    () => repositoryOverride || (isSignedIn ? getBookRepository(libraryOwnerId) : getVisitorRepository(libraryOwnerId)),
+    [repositoryOverride, isSignedIn, libraryOwnerId]
+  );
+
+  const [hasBackup, setHasBackup] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [useLocalStorageState, setUseLocalStorageState] = useState<boolean>(shouldUseFallback());
   const isMounted = useRef(true);
   const initialLoadRef = useRef(false);
   
-  const localStorage = useLocalStorage();
-  const supabaseStorage = useSupabase();
-  
   const { 
     books = [], 
     recommendations = [],
     setBooks,
-    setRecommendations
-  } = useLocalStorageState ? localStorage : supabaseStorage;
+    setRecommendations,
+    trash = [],
+    setTrash,
+    isLoading: isRepositoryLoading,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    loadAll,
+    reload
+  } = useBookRepository(repository);
+  const history = useCommandHistory();
+  const service = useMemo(() => createBookService(repository), [repository]);
+  
+  // Changes recorded in one library can't be undone in another
+  const { clear: clearHistory } = history;
+  useEffect(() => {
+    clearHistory();
+  }, [repository, clearHistory]);
+  // Null until the library's own setting has been read; nothing is purged before then
+  const [trashRetentionDays, setRetentionDaysState] = useState<number | null>(null);
+  const isRetentionInSupabase = repository.kind === 'supabase';
+  
+  useEffect(() => {
+    let cancelled = false;
+    setRetentionDaysState(null);
+    
+    trashService.getRetentionDays(libraryOwnerId, isRetentionInSupabase)
+      .then(days => {
+        if (!cancelled) setRetentionDaysState(days);
+      })
+      .catch(error => console.error('Error loading trash retention:', error));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [libraryOwnerId, isRetentionInSupabase]);
   
   useEffect(() => {
-    console.log(`BookshelfProvider initialized. Using localStorage: ${useLocalStorageState}`);
+    console.log(`BookshelfProvider initialized. Using ${repository.kind} repository`);
     console.log(`Current books count: ${books.length}, recommendations count: ${recommendations.length}`);
-  }, [useLocalStorageState, books.length, recommendations.length]);
+  }, [repository.kind, books.length, recommendations.length]);
   
   useEffect(() => {
-    if (!useLocalStorageState && 'isLoading' in supabaseStorage) {
-      setIsLoading(supabaseStorage.isLoading);
-    } else {
-      setIsLoading(false);
-    }
-  }, [useLocalStorageState, supabaseStorage]);
+    setIsLoading(isRepositoryLoading);
+  }, [isRepositoryLoading]);
 
   useEffect(() => {
     return () => {
@@ -68,6 +188,71 @@ export const BookshelfProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     };
   }, []);
 
+  useEffect(() => {
+    backupService.hasSnapshots(libraryOwnerId).then(exists => {
+      if (isMounted.current) setHasBackup(exists);
+    });
+  }, [libraryOwnerId]);
+
+  // Only some pages are loaded, so backups and cover cleanup read the whole library
+  const loadLibrary = useCallback(async (): Promise<LibraryContents> => {
+    const [booksData, recommendationsData] = await Promise.all([
+      service.list('books').then(unwrap),
+      service.list('recommendations').then(unwrap)
+    ]);
+    return { books: booksData, recommendations: recommendationsData };
+  }, [service]);
+  
+  // A cover is deleted only when no other book uses it, including books on pages not loaded yet
+  const releaseCovers = useCallback(async (released: Book[], trashed: Book[]) => {
+    try {
+      const library = await loadLibrary();
+      await coverStorageService.releaseCovers(released, [...library.books, ...library.recommendations, ...trashed]);
+    } catch (error) {
+      console.error('Error releasing covers:', error);
+    }
+  }, [loadLibrary]);
+  
+  // Snapshot the library periodically while it is open; unchanged libraries are skipped
+  useEffect(() => {
+    if (isRepositoryLoading || readOnly) return;
+    
+    const takeSnapshot = async () => {
+      try {
+        const snapshot = await backupService.createScheduledSnapshot(await loadLibrary(), libraryOwnerId);
+        if (snapshot && isMounted.current) setHasBackup(true);
+      } catch (error) {
+        console.error('Error taking scheduled backup:', error);
+      }
+    };
+    
+    takeSnapshot();
+    const timer = setInterval(takeSnapshot, backupService.BACKUP_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isRepositoryLoading, readOnly, loadLibrary, libraryOwnerId]);
+
+  // Permanently delete anything that has been in the trash longer than the retention period
+  useEffect(() => {
+    if (isRepositoryLoading || trashRetentionDays === null) return;
+    
+    const expired = trash.filter(book => trashService.isExpired(book, trashRetentionDays));
+    if (expired.length === 0) return;
+    
+    const expiredIds = new Set(expired.map(book => book.id));
+    setTrash(prev => prev.filter(book => !expiredIds.has(book.id)));
+    
+    Promise.all(expired.map(async book => unwrap(await service.deleteBook(book.id, collectionFor(book)))))
+      .then(() => {
+        console.log(`Purged ${expired.length} books from the trash`);
+        return releaseCovers(expired, trash);
+      })
+      .catch(error => console.error('Error purging trash:', error));
+  }, [trash, trashRetentionDays, isRepositoryLoading, service, setTrash, releaseCovers]);
+
+  // Covers are released long after the edit that replaced them, against the trash as it is then
+  const trashRef = useRef(trash);
+  trashRef.current = trash;
+
   const updateLocalState = (book: Book, isRecommendation: boolean) => {
     if (isRecommendation) {
       setRecommendations(prev => {
@@ -92,6 +277,160 @@ export const BookshelfProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     console.log(`Local state updated: ${isRecommendation ? 'recommendation' : 'book'} with ID ${book.id}`);
   };
 
+  const patchLocalState = (id: string, patch: Partial<Book>, isRecommendation: boolean) => {
+    const applyPatch = (prev: Book[]) => prev.map(book => book.id === id ? { ...book, ...patch } as Book : book);
+    if (isRecommendation) {
+      setRecommendations(applyPatch);
+    } else {
+      setBooks(applyPatch);
+    }
+  };
+
+  // Rejects if the book can't be read, so callers never mistake a summary for the full book
+  const loadBookDetails = async (book: Book): Promise<Book> => {
+    const fullBook = unwrap(await service.getBook(book.id, collectionFor(book)));
+    if (isMounted.current) {
+      updateLocalState(fullBook, collectionFor(fullBook) === 'recommendations');
+    }
+    return fullBook;
+  };
+
+  // The building blocks below change local state and the repository together,
+  // and are shared by each mutation and by the commands that reverse it
+
+  const applyUpdate = async (book: Book, patch: Partial<Book>): Promise<WriteStatus> => {
+    const isRecommendation = collectionFor(book) === 'recommendations';
+    patchLocalState(book.id, patch, isRecommendation);
+    const { value: serverUpdatedBook, status } = unwrap(await service.updateBook(book.id, patch, collectionFor(book)));
+    updateLocalState(serverUpdatedBook, isRecommendation);
+    return status;
+  };
+
+  const moveToTrash = async (book: Book): Promise<WriteStatus> => {
+    const deletedAt = new Date().toISOString();
+    
+    if (collectionFor(book) === 'recommendations') {
+      setRecommendations(prev => prev.filter(b => b.id !== book.id));
+    } else {
+      setBooks(prev => prev.filter(b => b.id !== book.id));
+    }
+    setTrash(prev => [{ ...book, deletedAt }, ...prev.filter(b => b.id !== book.id)]);
+    
+    return unwrap(await service.updateBook(book.id, { deletedAt }, collectionFor(book))).status;
+  };
+
+  const restoreFromTrash = async (book: Book): Promise<Written<Book>> => {
+    setTrash(prev => prev.filter(b => b.id !== book.id));
+    const restored = unwrap(await service.updateBook(book.id, { deletedAt: null }, collectionFor(book)));
+    updateLocalState(restored.value, collectionFor(book) === 'recommendations');
+    return restored;
+  };
+
+  const applyOrder = async (updates: OrderUpdate[]): Promise<WriteStatus> => {
+    const positions = new Map(updates.map(({ id, order }) => [id, order]));
+    setBooks(prev => prev.map(book => positions.has(book.id) ? { ...book, order: positions.get(book.id) } : book));
+    
+    return unwrap(await service.updateBookOrder(updates)).status;
+  };
+
+  // Log a failed change and explain it in a toast, offering to retry when that could help
+  const reportFailure = (message: string, error: unknown, retry?: () => void) => {
+    const serviceError = toServiceError(error);
+    console.error(`${message}:`, error);
+    
+    toast.error(message, {
+      description: serviceError instanceof ValidationError
+        ? serviceError.issues.join('\n')
+        : FAILURE_HINTS[serviceError.kind],
+      action: retry && serviceError.retryable ? { label: 'Retry', onClick: retry } : undefined
+    });
+  };
+
+  const undo = async (commandId?: string) => {
+    try {
+      const command = await history.undo(commandId);
+      if (command) {
+        toast.info(`Undone: ${command.label}`, { action: { label: 'Redo', onClick: () => redo() } });
+      }
+    } catch (error) {
+      reportFailure('Failed to undo', error);
+      
+      recoverData();
+    }
+  };
+
+  const redo = async () => {
+    try {
+      const command = await history.redo();
+      if (command) {
+        toast.info(`Redone: ${command.label}`, { action: { label: 'Undo', onClick: () => undo(command.id) } });
+      }
+    } catch (error) {
+      reportFailure('Failed to redo', error);
+      
+      recoverData();
+    }
+  };
+
+  // Record a change and confirm it with a toast that can reverse it. Changes
+  // that are only queued on this device say so.
+  const recordChange = (
+    message: string, 
+    command: Omit<HistoryCommand, 'id'>, 
+    status: WriteStatus,
+    type: 'success' | 'info' = 'success'
+  ) => {
+    const entry = history.record(command);
+    toast[type](message, {
+      description: status === 'queued' ? QUEUED_HINT : undefined,
+      action: { label: 'Undo', onClick: () => undo(entry.id) }
+    });
+  };
+
+  // A recommendation for a book already on the shelf isn't added, and one
+  // already recommended adds its recommender to the existing entry. Returns
+  // whether the recommendation was handled here.
+  const addRepeatRecommendation = async (bookData: Omit<Book, 'id'>): Promise<boolean> => {
+    let library: LibraryContents;
+    try {
+      library = await loadLibrary();
+    } catch (error) {
+      // Not being able to check shouldn't stop the recommendation
+      console.error('Error checking for repeat recommendations:', error);
+      return false;
+    }
+    
+    const onShelf = findMatch(bookData, library.books);
+    if (onShelf) {
+      toast.info(`"${onShelf.book.title}" is already on your shelf`, {
+        description: SHELF_HINTS[onShelf.book.status]
+      });
+      return true;
+    }
+    
+    const repeat = findMatch(bookData, library.recommendations);
+    if (!repeat) return false;
+    
+    const existing = repeat.book;
+    const patch: Partial<Book> = {
+      recommendedBy: addRecommenders(existing.recommendedBy, bookData.recommendedBy)
+    };
+    if (!existing.email && bookData.email) patch.email = bookData.email;
+    if (!existing.isbn && bookData.isbn) patch.isbn = bookData.isbn;
+    
+    const previousValues = Object.fromEntries(
+      Object.keys(patch).map(field => [field, existing[field as keyof Book]])
+    ) as Partial<Book>;
+    const status = await applyUpdate(existing, patch);
+    
+    recordChange(`"${existing.title}" was already recommended, so the recommendations were combined`, {
+      label: `combine recommendations of "${existing.title}"`,
+      undo: () => applyUpdate(existing, previousValues),
+      redo: () => applyUpdate(existing, patch)
+    }, status, 'info');
+    return true;
+  };
+
   const addBook = async (
     bookData: Omit<Book, 'id'>, 
     totalSeriesBooks?: number, 
@@ -100,6 +439,10 @@ export const BookshelfProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     try {
       console.log('Adding book:', bookData.title);
       
+      if (bookData.status === 'recommendation' && !bookData.isSeries && await addRepeatRecommendation(bookData)) {
+        return;
+      }
+      
       if (bookData.isSeries && totalSeriesBooks && totalSeriesPages && totalSeriesBooks > 1) {
         // For UI updates, we need a complete book with ID
         const completeBook: Book = {
@@ -114,26 +457,45 @@ export const BookshelfProvider: React.FC<{ children: React.ReactNode }> = ({ chi
           updateLocalState(seriesBook as Book, bookData.status === 'recommendation');
         });
         
-        try {
-          // When sending to API, we need to remove the ID and use Omit<Book, "id"> type
-          const addPromises = tempSeriesBooks.map(seriesBook => {
-            // Create a proper Omit<Book, "id"> by removing the id property
-            const { id, ...bookWithoutId } = seriesBook as Book;
-            return bookService.addBook(bookWithoutId);
-          });
-          
-          const newBooks = await Promise.all(addPromises);
-          
-          // Update UI with books returned from API (these have server-generated IDs)
-          newBooks.forEach(newBook => {
-            updateLocalState(newBook, bookData.status === 'recommendation');
-          });
-          
-          toast.success(`Added ${tempSeriesBooks.length} books in the ${bookData.seriesName} series!`);
-        } catch (error) {
-          console.error('Error adding series books:', error);
-          toast.error('Failed to add all series books');
+        // When sending to API, we need to remove the ID and use Omit<Book, "id"> type
+        const results = await Promise.all(tempSeriesBooks.map(seriesBook => {
+          // Create a proper Omit<Book, "id"> by removing the id property
+          const { id, ...bookWithoutId } = seriesBook as Book;
+          return service.addBook(bookWithoutId);
+        }));
+        
+        // Swap the temporary books for the saved ones (these have server-generated IDs)
+        const tempIds = new Set(tempSeriesBooks.map(seriesBook => (seriesBook as Book).id));
+        const saved = results.filter(result => result.ok === true).map(unwrap);
+        const newBooks = saved.map(({ value }) => value);
+        const replaceTemp = (prev: Book[]) => [...prev.filter(book => !tempIds.has(book.id)), ...newBooks];
+        if (bookData.status === 'recommendation') {
+          setRecommendations(replaceTemp);
+        } else {
+          setBooks(replaceTemp);
         }
+        
+        const failure = results.find(result => result.ok === false);
+        if (failure && failure.ok === false) {
+          reportFailure(
+            newBooks.length > 0
+              ? `Only ${newBooks.length} of ${tempSeriesBooks.length} books in the series were added`
+              : `Failed to add the ${bookData.seriesName} series`,
+            failure.error
+          );
+        }
+        if (newBooks.length === 0) return;
+        
+        // Undoing an add moves the books to the trash, so redo can bring back the same records
+        recordChange(`Added ${newBooks.length} books in the ${bookData.seriesName} series!`, {
+          label: `add the ${bookData.seriesName} series`,
+          undo: async () => {
+            await Promise.all(newBooks.map(moveToTrash));
+          },
+          redo: async () => {
+            await Promise.all(newBooks.map(restoreFromTrash));
+          }
+        }, saved.some(({ status }) => status === 'queued') ? 'queued' : 'saved');
       } else {
         // For UI updates, create a complete book with ID
         const tempBook: Book = {
@@ -144,71 +506,239 @@ export const BookshelfProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         console.log('Updating UI with temporary book:', tempBook);
         updateLocalState(tempBook, bookData.status === 'recommendation');
         
-        try {
-          // When sending to API, pass bookData which is already Omit<Book, "id">
-          const newBook = await bookService.addBook(bookData);
-          
-          console.log('Received book from API:', newBook);
-          updateLocalState(newBook, bookData.status === 'recommendation');
-          
+        // When sending to API, pass bookData which is already Omit<Book, "id">
+        const result = await service.addBook(bookData);
+        const removeTemp = (prev: Book[]) => prev.filter(book => book.id !== tempBook.id);
+        
+        if (result.ok === false) {
+          // Nothing was saved anywhere, so the temporary book goes too
           if (bookData.status === 'recommendation') {
-            toast.success('Thank you for your recommendation!');
+            setRecommendations(removeTemp);
           } else {
-            toast.success('Book added to your shelf!');
+            setBooks(removeTemp);
           }
-        } catch (error) {
-          console.error('Error adding book from API:', error);
-          toast.error('Failed to save book to server, but it is saved locally');
+          reportFailure(`Failed to add "${bookData.title}"`, result.error, () => addBook(bookData));
+          return;
+        }
+        
+        const { value: newBook, status } = result.value;
+        console.log('Received book from API:', newBook);
+        if (bookData.status === 'recommendation') {
+          setRecommendations(removeTemp);
+        } else {
+          setBooks(removeTemp);
         }
+        updateLocalState(newBook, bookData.status === 'recommendation');
+        
+        recordChange(
+          bookData.status === 'recommendation' ? 'Thank you for your recommendation!' : 'Book added to your shelf!', 
+          {
+            label: `add "${newBook.title}"`,
+            undo: () => moveToTrash(newBook),
+            redo: () => restoreFromTrash(newBook)
+          },
+          status
+        );
+      }
+    } catch (error) {
+      reportFailure('Failed to add book', error);
+    }
+  };
+
+  const importBooks = async (
+    importedBooks: Omit<Book, 'id'>[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<ImportSummary | null> => {
+    try {
+      const summary = await importService.importBooks(service, importedBooks, onProgress);
+      summary.added.forEach(book => updateLocalState(book, false));
+      
+      const skipped = summary.invalid + summary.failed;
+      if (skipped > 0) {
+        toast.error(`${skipped} book${skipped === 1 ? " couldn't" : "s couldn't"} be imported`, {
+          description: summary.invalid > 0
+            ? 'Books with missing or invalid details are listed with the hidden records.'
+            : FAILURE_HINTS.unknown
+        });
       }
+      if (summary.added.length === 0) return summary;
+      
+      // Undoing the import moves its books to the trash, like undoing any other add, a batch at a time like the import
+      recordChange(`Imported ${summary.added.length} book${summary.added.length === 1 ? '' : 's'}!`, {
+        label: `import ${summary.added.length} books`,
+        undo: async () => {
+          await importService.inBatches(summary.added, moveToTrash);
+        },
+        redo: async () => {
+          await importService.inBatches(summary.added, restoreFromTrash);
+        }
+      }, summary.status);
+      return summary;
     } catch (error) {
-      console.error('Error in addBook operation:', error);
-      toast.error('Failed to add book');
+      reportFailure('Failed to import books', error);
+      return null;
     }
   };
 
   const removeBook = async (id: string) => {
     try {
       const isRecommendation = recommendations.some(rec => rec.id === id);
+      const book = (isRecommendation ? recommendations : books).find(b => b.id === id);
       
-      if (isRecommendation) {
-        setRecommendations(prev => prev.filter(book => book.id !== id));
-      } else {
-        setBooks(prev => prev.filter(book => book.id !== id));
+      if (!book) {
+        throw new NotFoundError(id);
       }
       
-      await bookService.deleteBook(id, isRecommendation);
+      const status = await moveToTrash(book);
       
-      toast.info(isRecommendation ? 'Recommendation removed' : 'Book removed from your shelf');
+      recordChange(isRecommendation ? 'Recommendation moved to the trash' : 'Book moved to the trash', {
+        label: `remove "${book.title}"`,
+        undo: () => restoreFromTrash(book),
+        redo: () => moveToTrash(book)
+      }, status, 'info');
+    } catch (error) {
+      reportFailure('Failed to remove book', error, () => removeBook(id));
+      
+      recoverData();
+    }
+  };
+
+  const restoreBook = async (id: string) => {
+    const book = trash.find(b => b.id === id);
+    if (!book) return;
+    
+    try {
+      const { value: restoredBook, status } = await restoreFromTrash(book);
+      
+      recordChange(`"${book.title}" restored`, {
+        label: `restore "${book.title}"`,
+        undo: () => moveToTrash(restoredBook),
+        redo: () => restoreFromTrash(restoredBook)
+      }, status);
+    } catch (error) {
+      reportFailure('Failed to restore book', error, () => restoreBook(id));
+      
+      recoverData();
+    }
+  };
+
+  // Permanent deletes can't be undone, so they are not recorded in the history
+  const deleteBookForever = async (id: string) => {
+    const book = trash.find(b => b.id === id);
+    if (!book) return;
+    
+    try {
+      setTrash(prev => prev.filter(b => b.id !== id));
+      const { status } = unwrap(await service.deleteBook(id, collectionFor(book)));
+      releaseCovers([book], trash);
+      toast.info(`"${book.title}" permanently deleted`, {
+        description: status === 'queued' ? QUEUED_HINT : undefined
+      });
+    } catch (error) {
+      reportFailure('Failed to delete book', error);
+      
+      recoverData();
+    }
+  };
+
+  // Not recorded for undo: the recommendation is gone once accepted, and the book can be removed like any other
+  const acceptRecommendation = async (id: string) => {
+    const recommendation = recommendations.find(rec => rec.id === id);
+    if (!recommendation) return;
+    
+    setRecommendations(prev => prev.filter(rec => rec.id !== id));
+    const result = await service.acceptRecommendation(id);
+    
+    if (result.ok === false) {
+      updateLocalState(recommendation, true);
+      reportFailure(`Failed to accept "${recommendation.title}"`, result.error, () => acceptRecommendation(id));
+      return;
+    }
+    
+    const { value: book, status } = result.value;
+    updateLocalState(book, false);
+    toast.success(`"${book.title}" moved to your to-read list!`, {
+      description: status === 'queued' ? QUEUED_HINT : undefined
+    });
+  };
+
+  const emptyTrash = async () => {
+    const trashedBooks = trash;
+    if (trashedBooks.length === 0) return;
+    
+    try {
+      setTrash([]);
+      const deletions = await Promise.all(trashedBooks.map(async book =>
+        unwrap(await service.deleteBook(book.id, collectionFor(book)))));
+      releaseCovers(trashedBooks, []);
+      toast.info(`Permanently deleted ${trashedBooks.length} ${trashedBooks.length === 1 ? 'book' : 'books'}`, {
+        description: deletions.some(({ status }) => status === 'queued') ? QUEUED_HINT : undefined
+      });
     } catch (error) {
-      console.error('Error removing book:', error);
-      toast.error('Failed to remove book');
+      reportFailure('Failed to empty the trash', error);
       
       recoverData();
     }
   };
 
-  const editBook = async (id: string, bookData: Partial<Book>) => {
+  const setTrashRetentionDays = async (days: number) => {
+    const previousDays = trashRetentionDays;
+    setRetentionDaysState(days);
+    
+    try {
+      await trashService.setRetentionDays(libraryOwnerId, isRetentionInSupabase, days);
+    } catch (error) {
+      setRetentionDaysState(previousDays);
+      reportFailure('Failed to change how long the trash keeps books', error, () => setTrashRetentionDays(days));
+    }
+  };
+
+  const editBook = async (id: string, bookData: Partial<Book>, options: UpdateOptions = {}) => {
     try {
       const isRecommendation = recommendations.some(rec => rec.id === id);
       const currentCollection = isRecommendation ? recommendations : books;
       const currentBook = currentCollection.find(b => b.id === id);
       
       if (!currentBook) {
-        throw new Error(`Book with id ${id} not found`);
+        throw new NotFoundError(id);
       }
       
       const updatedBook = { ...currentBook, ...bookData } as Book;
       updateLocalState(updatedBook, isRecommendation);
       
-      const serverUpdatedBook = await bookService.updateBook(id, bookData, isRecommendation);
+      const { value: serverUpdatedBook, status } = unwrap(await service.updateBook(
+        id, 
+        bookData, 
+        isRecommendation ? 'recommendations' : 'books', 
+        options
+      ));
       
       updateLocalState(serverUpdatedBook, isRecommendation);
       
-      toast.success('Book updated successfully!');
+      // The cover left unused is deleted from storage only once the edit can't be undone or redone
+      const isCoverReplaced = bookData.coverUrl !== undefined && bookData.coverUrl !== currentBook.coverUrl;
+      
+      // The inverse restores only the fields this edit touched
+      const previousValues = Object.fromEntries(
+        Object.keys(bookData).map(field => [field, currentBook[field as keyof Book]])
+      ) as Partial<Book>;
+      
+      recordChange('Book updated successfully!', {
+        label: `edit "${currentBook.title}"`,
+        undo: () => applyUpdate(serverUpdatedBook, previousValues),
+        redo: () => applyUpdate(serverUpdatedBook, bookData),
+        discard: isCoverReplaced
+          ? state => releaseCovers([state === 'done' ? currentBook : serverUpdatedBook], trashRef.current)
+          : undefined
+      }, status);
     } catch (error) {
-      console.error('Error editing book:', error);
-      toast.error('Failed to update book');
+      if (error instanceof BookConflictError) {
+        // Show the newer copy and let the caller merge against it
+        updateLocalState(error.remote, recommendations.some(rec => rec.id === id));
+        throw error;
+      }
+      
+      reportFailure('Failed to update book', error, () => editBook(id, bookData, options));
       
       recoverData();
     }
@@ -218,45 +748,20 @@ export const BookshelfProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     const status = progress === 100 ? 'read' : 'reading';
     
     try {
-      // Find books with matching information (possible duplicates)
       const currentBook = books.find(b => b.id === id);
       if (!currentBook) {
-        throw new Error(`Book with id ${id} not found`);
-      }
-      
-      // Remove any potential duplicates (same title and author)
-      const duplicates = books.filter(b => 
-        b.id !== id && 
-        b.title === currentBook.title && 
-        b.author === currentBook.author
-      );
-      
-      if (duplicates.length > 0) {
-        console.log(`Found ${duplicates.length} duplicate books, removing them`);
-        // Remove duplicates from UI state
-        setBooks(prev => prev.filter(book => 
-          !duplicates.some(dup => dup.id === book.id)
-        ));
-        
-        // Remove duplicates from storage
-        try {
-          for (const dup of duplicates) {
-            await bookService.deleteBook(dup.id, false);
-          }
-        } catch (deleteError) {
-          console.error('Error deleting duplicate books:', deleteError);
-        }
+        throw new NotFoundError(id);
       }
       
-      const updatedBook = { ...currentBook, progress, status } as Book;
-      updateLocalState(updatedBook, false);
-      
-      await bookService.updateBook(id, { progress, status });
+      const writeStatus = await applyUpdate(currentBook, { progress, status });
       
-      toast.success('Reading progress updated!');
+      recordChange('Reading progress updated!', {
+        label: `progress on "${currentBook.title}"`,
+        undo: () => applyUpdate(currentBook, { progress: currentBook.progress, status: currentBook.status }),
+        redo: () => applyUpdate(currentBook, { progress, status })
+      }, writeStatus);
     } catch (error) {
-      console.error('Error updating progress:', error);
-      toast.error('Failed to update progress');
+      reportFailure('Failed to update progress', error, () => updateProgress(id, progress));
       
       recoverData();
     }
@@ -269,15 +774,15 @@ export const BookshelfProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     
     if (book) {
       try {
-        const updatedBook = { ...book, favorite: !book.favorite } as Book;
-        updateLocalState(updatedBook, isRecommendation);
+        const status = await applyUpdate(book, { favorite: !book.favorite });
         
-        await bookService.updateBook(id, { favorite: !book.favorite }, isRecommendation);
-        
-        toast.success('Favorite status updated!');
+        recordChange('Favorite status updated!', {
+          label: `favorite "${book.title}"`,
+          undo: () => applyUpdate(book, { favorite: book.favorite }),
+          redo: () => applyUpdate(book, { favorite: !book.favorite })
+        }, status);
       } catch (error) {
-        console.error('Error toggling favorite:', error);
-        toast.error('Failed to update favorite status');
+        reportFailure('Failed to update favorite status', error);
         
         recoverData();
       }
@@ -288,53 +793,46 @@ export const BookshelfProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     try {
       console.log('Reordering books, current order:', currentOrder, 'new order:', newOrder);
       
-      setBooks(prev => {
-        const booksCopy = [...prev];
-        const booksMap = new Map(booksCopy.map(book => [book.id, book]));
-        
-        const orderedBooks = newOrder
-          .filter(id => booksMap.has(id))
-          .map(id => booksMap.get(id)!)
-          .map((book, index) => ({...book, order: index}));
-        
-        const unorderedBooks = booksCopy.filter(book => !newOrder.includes(book.id));
-        
-        const result = [...orderedBooks, ...unorderedBooks];
-        console.log('Locally reordered books:', result.length);
-        return result;
-      });
+      // Only the moved books get new positions
+      const updates = computeOrderUpdates(books, newOrder);
+      if (updates.length === 0) return;
       
-      await bookService.updateBookOrder(newOrder);
+      const previousOrder = updates.map(({ id }) => ({
+        id,
+        order: books.find(book => book.id === id)?.order ?? 0
+      }));
       
-      toast.success('Books reordered successfully!');
+      console.log(`Moved ${updates.length} of ${books.length} books`);
+      const status = await applyOrder(updates);
+      
+      recordChange('Books reordered successfully!', {
+        label: 'reorder books',
+        undo: () => applyOrder(previousOrder),
+        redo: () => applyOrder(updates)
+      }, status);
     } catch (error) {
-      console.error('Error reordering books:', error);
-      toast.error('Failed to reorder books');
+      reportFailure('Failed to reorder books', error);
       
       recoverData();
     }
   };
 
+
   const recoverData = async () => {
     try {
       setIsLoading(true);
       console.log('Attempting to recover data from service...');
-      const [booksData, recommendationsData] = await Promise.all([
-        bookService.getAllBooks(),
-        bookService.getAllRecommendations()
-      ]);
+      // Only the first pages come back; the rest load as the shelf is scrolled, as on first open
+      const recovered = await reload();
       
       if (isMounted.current) {
-        console.log(`Recovered ${booksData.length} books and ${recommendationsData.length} recommendations`);
-        setBooks(booksData);
-        setRecommendations(recommendationsData);
-        if (booksData.length > 0 || recommendationsData.length > 0) {
-          toast.success(`Recovered ${booksData.length} books and ${recommendationsData.length} recommendations`);
+        console.log(`Recovered ${recovered.books} books and ${recovered.recommendations} recommendations`);
+        if (recovered.books > 0 || recovered.recommendations > 0) {
+          toast.success('Recovered your books and recommendations');
         }
       }
     } catch (error) {
-      console.error('Error recovering data:', error);
-      toast.error('Failed to recover books');
+      reportFailure('Failed to recover books', error, () => recoverData());
     } finally {
       if (isMounted.current) {
         setIsLoading(false);
@@ -352,17 +850,98 @@ export const BookshelfProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     }
   }, [isLoading, books.length, recommendations.length]);
 
+  const createBackup = async () => {
+    try {
+      await backupService.createSnapshot(await loadLibrary(), 'manual', libraryOwnerId);
+      setHasBackup(true);
+      toast.success('Backup created');
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      toast.error('Failed to create backup');
+    }
+  };
+
+  const restoreBackup = async (snapshotId: string) => {
+    try {
+      const snapshot = await backupService.getSnapshot(snapshotId, libraryOwnerId);
+      if (!snapshot) {
+        throw new Error(`Backup ${snapshotId} not found`);
+      }
+      
+      // The library as it is now stays restorable in case this was the wrong snapshot
+      const library = await loadLibrary();
+      await backupService.createSnapshot(library, 'before-restore', libraryOwnerId);
+      const diff = await backupService.restoreSnapshot(repository, snapshot, { ...library, trash });
+      
+      toast.success(`Backup restored: ${diff.added} added back, ${diff.changed} reverted, ${diff.removed} moved to the trash`);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast.error('Failed to restore backup');
+    } finally {
+      recoverData();
+    }
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), except while typing where the field's own undo applies
+  const shortcutsRef = useRef({ undo, redo });
+  shortcutsRef.current = { undo, redo };
+  
+  useEffect(() => {
+    if (readOnly) return;
+    
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+      
+      event.preventDefault();
+      if (event.shiftKey) {
+        shortcutsRef.current.redo();
+      } else {
+        shortcutsRef.current.undo();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [readOnly]);
+
   const value = {
+    libraryOwnerId,
+    isReadOnly: readOnly,
     books,
     recommendations,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    loadAll,
+    loadBookDetails,
+    loadLibrary,
     addBook,
+    importBooks,
     removeBook,
+    trash,
+    restoreBook,
+    deleteBookForever,
+    emptyTrash,
+    trashRetentionDays: trashRetentionDays ?? trashService.DEFAULT_RETENTION_DAYS,
+    setTrashRetentionDays,
+    acceptRecommendation,
     editBook,
     updateProgress,
     toggleFavorite,
+    undo: () => undo(),
+    redo,
+    canUndo: history.canUndo,
+    canRedo: history.canRedo,
     reorderBooks,
     recoverData,
     hasBackup,
+    createBackup,
+    restoreBackup,
     isLoading
   };
 
@@ -0,0 +1,30 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getAuthProvider } from '@/services/auth/authProvider';
+import { AuthUser } from '@/types/auth';
+
+/**
+ * The signed-in user from the session's auth provider, with sign-in and sign-out
+ */
+export const useAuth = () => {
+  const provider = getAuthProvider();
+  const [user, setUser] = useState<AuthUser | null>(() => provider.getCurrentUser());
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    return provider.subscribe(nextUser => {
+      setUser(nextUser);
+      setIsLoading(false);
+    });
+  }, [provider]);
+
+  const signIn = useCallback((email: string, password: string) => provider.signIn(email, password), [provider]);
+
+  const signOut = useCallback(() => provider.signOut(), [provider]);
+
+  return {
+    user,
+    isLoading,
+    signIn,
+    signOut
+  };
+};
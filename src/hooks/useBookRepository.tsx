@@ -0,0 +1,212 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Book } from '@/types/book';
+import { BookCollection, BookRepository, RepositoryChange, collectionFor } from '@/types/repository';
+import { DEFAULT_PAGE_SIZE } from '@/services/pagination';
+
+// Same orderings the repositories list each collection in; the trash shows the most recently removed first
+const sortCollection = (collection: BookCollection | 'trash', items: Book[]): Book[] => {
+  switch (collection) {
+    case 'trash':
+      return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+    default:
+      return items.sort((a, b) => new Date(b.dateRead).getTime() - new Date(a.dateRead).getTime());
+  }
+};
+
+// A book moves between its collection and the trash as deletedAt is set or cleared
+const applyChange = (items: Book[], change: RepositoryChange, isTrash: boolean = false): Book[] => {
+  switch (change.type) {
+    case 'upsert': {
+      const others = items.filter(book => book.id !== change.book.id);
+      if (Boolean(change.book.deletedAt) !== isTrash) return others;
+      return sortCollection(isTrash ? 'trash' : change.collection, [...others, change.book]);
+    }
+    case 'delete':
+      return items.filter(book => book.id !== change.id);
+    default:
+      return items;
+  }
+};
+
+// Books from a newer page are added to those already shown, skipping any that
+// arrived earlier through a change event
+const appendPage = (collection: BookCollection, items: Book[], page: Book[]): Book[] => {
+  const loadedIds = new Set(items.map(book => book.id));
+  return sortCollection(collection, [...items, ...page.filter(book => !loadedIds.has(book.id))]);
+};
+
+type CollectionState<T> = Record<BookCollection, T>;
+
+/**
+ * Loads books and recommendations from a repository a page at a time and
+ * keeps them in sync with changes reported through its subscription,
+ * applying single-book changes in place and reloading the pages shown so far
+ * only when asked to resync. Pages hold summaries; see loadBookDetails in the
+ * bookshelf context for the full books.
+ */
+export const useBookRepository = (repository: BookRepository, pageSize: number = DEFAULT_PAGE_SIZE) => {
+  const [books, setBooks] = useState<Book[]>([]);
+  const [recommendations, setRecommendations] = useState<Book[]>([]);
+  const [trash, setTrash] = useState<Book[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [nextCursors, setNextCursors] = useState<CollectionState<string | null>>({ books: null, recommendations: null });
+  const [isLoadingMore, setIsLoadingMore] = useState<CollectionState<boolean>>({ books: false, recommendations: false });
+  const isMounted = useRef(true);
+  // How many books of each collection have been asked for, so a resync reloads as many
+  const requestedCounts = useRef<CollectionState<number>>({ books: pageSize, recommendations: pageSize });
+  const loadingMore = useRef<CollectionState<boolean>>({ books: false, recommendations: false });
+  
+  const setCollection = (collection: BookCollection, update: (items: Book[]) => Book[]) => {
+    if (collection === 'recommendations') {
+      setRecommendations(update);
+    } else {
+      setBooks(update);
+    }
+  };
+  
+  // Load the first page of each collection and the trash, dropping any pages scrolled in since.
+  // Returns how many of each collection were loaded.
+  const reload = useCallback(async (): Promise<CollectionState<number>> => {
+    const [booksPage, recommendationsPage, trashedBooks, trashedRecommendations] = await Promise.all([
+      repository.listPage('books', { limit: pageSize }),
+      repository.listPage('recommendations', { limit: pageSize }),
+      repository.listTrash('books'),
+      repository.listTrash('recommendations')
+    ]);
+    
+    if (isMounted.current) {
+      requestedCounts.current = { books: pageSize, recommendations: pageSize };
+      setBooks(sortCollection('books', booksPage.books));
+      setRecommendations(sortCollection('recommendations', recommendationsPage.books));
+      setNextCursors({ books: booksPage.nextCursor, recommendations: recommendationsPage.nextCursor });
+      setTrash(sortCollection('trash', [...trashedBooks, ...trashedRecommendations]));
+    }
+    
+    return { books: booksPage.books.length, recommendations: recommendationsPage.books.length };
+  }, [repository, pageSize]);
+  
+  useEffect(() => {
+    isMounted.current = true;
+    requestedCounts.current = { books: pageSize, recommendations: pageSize };
+    
+    const loadData = async () => {
+      setIsLoading(true);
+      
+      try {
+        const loaded = await reload();
+        console.log(`Loaded ${loaded.books} books and ${loaded.recommendations} recommendations from ${repository.kind}`);
+      } catch (error) {
+        console.error(`Error loading from ${repository.kind} repository:`, error);
+      } finally {
+        if (isMounted.current) {
+          setIsLoading(false);
+        }
+      }
+    };
+    
+    const reloadCollection = async (collection: BookCollection) => {
+      try {
+        const [page, trashed] = await Promise.all([
+          repository.listPage(collection, { limit: requestedCounts.current[collection] }),
+          repository.listTrash(collection)
+        ]);
+        if (!isMounted.current) return;
+        
+        setCollection(collection, () => sortCollection(collection, page.books));
+        setNextCursors(prev => ({ ...prev, [collection]: page.nextCursor }));
+        setTrash(prev => sortCollection('trash', [
+          ...prev.filter(book => collectionFor(book) !== collection),
+          ...trashed
+        ]));
+      } catch (error) {
+        console.error(`Error refreshing ${collection} after change:`, error);
+      }
+    };
+    
+    loadData();
+    
+    const unsubscribe = repository.subscribe(change => {
+      if (change.type === 'resync') {
+        reloadCollection(change.collection);
+        return;
+      }
+      
+      setCollection(change.collection, prev => applyChange(prev, change));
+      setTrash(prev => applyChange(prev, change, true));
+    });
+    
+    return () => {
+      isMounted.current = false;
+      unsubscribe();
+    };
+  }, [repository, pageSize, reload]);
+  
+  // Load the page after the books shown so far; does nothing on the last page or while a page is loading
+  const loadMore = useCallback(async (collection: BookCollection) => {
+    const cursor = nextCursors[collection];
+    if (!cursor || loadingMore.current[collection]) return;
+    
+    loadingMore.current[collection] = true;
+    setIsLoadingMore(prev => ({ ...prev, [collection]: true }));
+    try {
+      const page = await repository.listPage(collection, { cursor, limit: pageSize });
+      if (!isMounted.current) return;
+      
+      requestedCounts.current[collection] += pageSize;
+      setCollection(collection, prev => appendPage(collection, prev, page.books));
+      setNextCursors(prev => ({ ...prev, [collection]: page.nextCursor }));
+    } catch (error) {
+      console.error(`Error loading more ${collection}:`, error);
+    } finally {
+      loadingMore.current[collection] = false;
+      if (isMounted.current) {
+        setIsLoadingMore(prev => ({ ...prev, [collection]: false }));
+      }
+    }
+  }, [repository, pageSize, nextCursors]);
+  
+  // Load every page after the books shown so far, for views sorted some other way than
+  // the pages come; does nothing once the last page is loaded or while a page is loading
+  const loadAll = useCallback(async (collection: BookCollection) => {
+    let cursor = nextCursors[collection];
+    if (!cursor || loadingMore.current[collection]) return;
+    
+    loadingMore.current[collection] = true;
+    setIsLoadingMore(prev => ({ ...prev, [collection]: true }));
+    try {
+      const loaded: Book[] = [];
+      while (cursor) {
+        const page = await repository.listPage(collection, { cursor, limit: pageSize });
+        loaded.push(...page.books);
+        cursor = page.nextCursor;
+      }
+      if (!isMounted.current) return;
+      
+      requestedCounts.current[collection] += loaded.length;
+      setCollection(collection, prev => appendPage(collection, prev, loaded));
+      setNextCursors(prev => ({ ...prev, [collection]: null }));
+    } catch (error) {
+      console.error(`Error loading all ${collection}:`, error);
+    } finally {
+      loadingMore.current[collection] = false;
+      if (isMounted.current) {
+        setIsLoadingMore(prev => ({ ...prev, [collection]: false }));
+      }
+    }
+  }, [repository, pageSize, nextCursors]);
+  
+  return {
+    books,
+    setBooks,
+    recommendations,
+    setRecommendations,
+    trash,
+    setTrash,
+    isLoading,
+    hasMore: { books: nextCursors.books !== null, recommendations: nextCursors.recommendations !== null },
+    isLoadingMore,
+    loadMore,
+    loadAll,
+    reload
+  };
+};
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { useState, useRef, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+
+// Oldest entries are dropped beyond this
+const MAX_HISTORY = 50;
+
+// A change that knows how to reverse itself and apply itself again
+export interface HistoryCommand {
+  id: string;
+  label: string;
+  undo: () => Promise<unknown>;
+  redo: () => Promise<unknown>;
+  // Called once the change can no longer be undone or redone, with whether it was left applied
+  discard?: (state: 'done' | 'undone') => void;
+}
+
+const discardAll = (commands: HistoryCommand[], state: 'done' | 'undone') => {
+  commands.forEach(command => command.discard?.(state));
+};
+
+/**
+ * Undo and redo stacks of recorded changes. Undo normally reverses the most
+ * recent change, but can be given a specific command (e.g. from its toast).
+ */
+export const useCommandHistory = () => {
+  const undoStack = useRef<HistoryCommand[]>([]);
+  const redoStack = useRef<HistoryCommand[]>([]);
+  const isRunning = useRef(false);
+  const [sizes, setSizes] = useState({ undo: 0, redo: 0 });
+
+  const syncSizes = useCallback(() => {
+    setSizes({ undo: undoStack.current.length, redo: redoStack.current.length });
+  }, []);
+
+  const record = useCallback((command: Omit<HistoryCommand, 'id'>): HistoryCommand => {
+    const entry = { ...command, id: uuidv4() };
+    const undoable = [...undoStack.current, entry];
+    discardAll(undoable.slice(0, -MAX_HISTORY), 'done');
+    discardAll(redoStack.current, 'undone');
+    undoStack.current = undoable.slice(-MAX_HISTORY);
+    redoStack.current = [];
+    syncSizes();
+    return entry;
+  }, [syncSizes]);
+
+  // Runs one command at a time so rapid key presses can't interleave reversals
+  const run = useCallback(async (
+    from: React.MutableRefObject<HistoryCommand[]>,
+    to: React.MutableRefObject<HistoryCommand[]>,
+    action: 'undo' | 'redo',
+    commandId?: string
+  ): Promise<HistoryCommand | null> => {
+    if (isRunning.current) return null;
+    
+    const index = commandId 
+      ? from.current.findIndex(command => command.id === commandId)
+      : from.current.length - 1;
+    if (index === -1) return null;
+    
+    const command = from.current[index];
+    from.current = from.current.filter((_, i) => i !== index);
+    syncSizes();
+    
+    isRunning.current = true;
+    try {
+      await command[action]();
+      to.current = [...to.current, command];
+      return command;
+    } catch (error) {
+      // The change wasn't reversed or reapplied, so it stays where it was to be tried again
+      const restored = [...from.current];
+      restored.splice(Math.min(index, restored.length), 0, command);
+      from.current = restored;
+      throw error;
+    } finally {
+      isRunning.current = false;
+      syncSizes();
+    }
+  }, [syncSizes]);
+
+  const undo = useCallback((commandId?: string) => run(undoStack, redoStack, 'undo', commandId), [run]);
+
+  const redo = useCallback(() => run(redoStack, undoStack, 'redo'), [run]);
+
+  // Forget every recorded change, e.g. when a different library is opened
+  const clear = useCallback(() => {
+    discardAll(undoStack.current, 'done');
+    discardAll(redoStack.current, 'undone');
+    undoStack.current = [];
+    redoStack.current = [];
+    syncSizes();
+  }, [syncSizes]);
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: sizes.undo > 0,
+    canRedo: sizes.redo > 0
+  };
+};
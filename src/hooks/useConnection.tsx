@@ -0,0 +1,24 @@
+import { useState, useEffect, useCallback } from 'react';
+import * as supabaseConnection from '@/services/supabaseConnection';
+
+/**
+ * Tracks whether the app has switched to local mode because Supabase is unreachable
+ */
+export const useConnection = () => {
+  const [state, setState] = useState<supabaseConnection.ConnectionState>(() => supabaseConnection.getConnectionState());
+
+  useEffect(() => {
+    setState(supabaseConnection.getConnectionState());
+    return supabaseConnection.subscribeToConnection(setState);
+  }, []);
+
+  const reconnect = useCallback(() => {
+    supabaseConnection.reconnect();
+  }, []);
+
+  return {
+    isLocalMode: state !== 'closed',
+    isReconnecting: state === 'probing',
+    reconnect
+  };
+};
@@ -0,0 +1,35 @@
+import { useEffect, useRef } from 'react';
+
+interface InfiniteScrollOptions {
+  hasMore: boolean;
+  onLoadMore?: () => void;
+  // Changes when a page arrives, so a sentinel still in view asks for the next one
+  itemCount: number;
+}
+
+/**
+ * Calls onLoadMore when the element given the returned ref comes near the
+ * viewport. Place it after the last item of a list.
+ */
+export const useInfiniteScroll = ({ hasMore, onLoadMore, itemCount }: InfiniteScrollOptions) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    // Start loading a screen or so before the end is reached
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onLoadMoreRef.current?.();
+      }
+    }, { rootMargin: '600px 0px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, itemCount]);
+
+  return sentinelRef;
+};
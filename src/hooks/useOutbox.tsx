@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import { OutboxCounts } from '@/types/outbox';
+import * as outboxService from '@/services/outboxService';
+
+/**
+ * Tracks how many writes are waiting in the outbox or have given up retrying
+ */
+export const useOutbox = () => {
+  const [counts, setCounts] = useState<OutboxCounts>(() => outboxService.getOutboxCounts());
+
+  useEffect(() => {
+    setCounts(outboxService.getOutboxCounts());
+    return outboxService.subscribeToOutbox(setCounts);
+  }, []);
+
+  const retryFailed = useCallback(() => {
+    outboxService.retryFailedEntries();
+  }, []);
+
+  const discardFailed = useCallback(() => {
+    outboxService.discardFailedEntries();
+  }, []);
+
+  return {
+    ...counts,
+    retryFailed,
+    discardFailed
+  };
+};
@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useBookshelf } from '@/context/BookshelfContext';
+import { useAuth } from '@/hooks/useAuth';
+import { hasCapability, resolveRole } from '@/lib/permissions';
+import * as membershipService from '@/services/membershipService';
+import { Capability, MemberRole } from '@/types/permissions';
+
+/**
+ * The signed-in user's role in the open library and what it lets them do.
+ * Until a membership has been looked up, other users count as viewers.
+ * Read-only pages allow nothing, whatever the role.
+ */
+export const usePermissions = () => {
+  const { user, isLoading: isLoadingAuth } = useAuth();
+  const { libraryOwnerId, isReadOnly } = useBookshelf();
+  const userId = user?.uid ?? null;
+  const needsMembership = Boolean(userId && libraryOwnerId && userId !== libraryOwnerId);
+
+  const [memberRole, setMemberRole] = useState<MemberRole | null>(null);
+  const [isLoadingMembership, setIsLoadingMembership] = useState(false);
+
+  useEffect(() => {
+    setMemberRole(null);
+    if (!needsMembership) return;
+
+    let cancelled = false;
+    setIsLoadingMembership(true);
+    membershipService.getMemberRole(libraryOwnerId, userId).then(role => {
+      if (cancelled) return;
+      setMemberRole(role);
+      setIsLoadingMembership(false);
+    });
+
+    return () => {
+      cancelled = true;
+      setIsLoadingMembership(false);
+    };
+  }, [needsMembership, libraryOwnerId, userId]);
+
+  const role = resolveRole({ userId, libraryOwnerId, memberRole });
+
+  const can = useCallback(
+    (capability: Capability) => !isReadOnly && hasCapability(role, capability),
+    [role, isReadOnly]
+  );
+
+  return {
+    role,
+    can,
+    isLoading: isLoadingAuth || isLoadingMembership
+  };
+};
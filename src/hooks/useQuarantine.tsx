@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import { QuarantinedRecord } from '@/types/quarantine';
+import * as quarantineService from '@/services/quarantineService';
+
+/**
+ * Tracks stored records that were set aside because they failed validation
+ */
+export const useQuarantine = () => {
+  const [records, setRecords] = useState<QuarantinedRecord[]>([]);
+
+  useEffect(() => {
+    quarantineService.getQuarantinedRecords().then(setRecords);
+    return quarantineService.subscribeToQuarantine(setRecords);
+  }, []);
+
+  const dismiss = useCallback((key: string) => {
+    quarantineService.dismissQuarantinedRecord(key);
+  }, []);
+
+  const clearAll = useCallback(() => {
+    quarantineService.clearQuarantine();
+  }, []);
+
+  return {
+    records,
+    dismiss,
+    clearAll
+  };
+};
@@ -16,17 +16,24 @@ export type Database = {
           cover_url: string | null
           created_at: string | null
           date_read: string | null
+          deleted_at: string | null
+          email: string | null
           favorite: boolean | null
           genres: string[] | null
           id: string
+          is_hidden: boolean
           is_series: boolean | null
+          isbn: string | null
           order: number | null
+          owner_id: string | null
           pages: number | null
           progress: number
           recommended_by: string | null
           series_name: string | null
           series_position: number | null
+          source_recommendation_id: string | null
           status: string
+          tags: string[] | null
           title: string
           updated_at: string | null
         }
@@ -36,17 +43,24 @@ export type Database = {
           cover_url?: string | null
           created_at?: string | null
           date_read?: string | null
+          deleted_at?: string | null
+          email?: string | null
           favorite?: boolean | null
           genres?: string[] | null
           id?: string
+          is_hidden?: boolean
           is_series?: boolean | null
+          isbn?: string | null
           order?: number | null
+          owner_id?: string | null
           pages?: number | null
           progress?: number
           recommended_by?: string | null
           series_name?: string | null
           series_position?: number | null
+          source_recommendation_id?: string | null
           status: string
+          tags?: string[] | null
           title: string
           updated_at?: string | null
         }
@@ -56,22 +70,215 @@ export type Database = {
           cover_url?: string | null
           created_at?: string | null
           date_read?: string | null
+          deleted_at?: string | null
+          email?: string | null
           favorite?: boolean | null
           genres?: string[] | null
           id?: string
+          is_hidden?: boolean
           is_series?: boolean | null
+          isbn?: string | null
           order?: number | null
+          owner_id?: string | null
           pages?: number | null
           progress?: number
           recommended_by?: string | null
           series_name?: string | null
           series_position?: number | null
+          source_recommendation_id?: string | null
           status?: string
+          tags?: string[] | null
           title?: string
           updated_at?: string | null
         }
         Relationships: []
       }
+      library_members: {
+        Row: {
+          created_at: string
+          library_owner_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          library_owner_id: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          library_owner_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      library_profiles: {
+        Row: {
+          created_at: string
+          display_name: string | null
+          handle: string
+          hidden_tags: string[]
+          owner_id: string
+          updated_at: string
+          visibility: string
+        }
+        Insert: {
+          created_at?: string
+          display_name?: string | null
+          handle: string
+          hidden_tags?: string[]
+          owner_id?: string
+          updated_at?: string
+          visibility?: string
+        }
+        Update: {
+          created_at?: string
+          display_name?: string | null
+          handle?: string
+          hidden_tags?: string[]
+          owner_id?: string
+          updated_at?: string
+          visibility?: string
+        }
+        Relationships: []
+      }
+      library_settings: {
+        Row: {
+          created_at: string
+          owner_id: string
+          trash_retention_days: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          owner_id?: string
+          trash_retention_days?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          owner_id?: string
+          trash_retention_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      recommendation_blocklist: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          owner_id: string
+          value: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: string
+          owner_id: string
+          value: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          owner_id?: string
+          value?: string
+        }
+        Relationships: []
+      }
+      recommendation_form_tokens: {
+        Row: {
+          id: string
+          ip: string | null
+          issued_at: string
+        }
+        Insert: {
+          id?: string
+          ip?: string | null
+          issued_at?: string
+        }
+        Update: {
+          id?: string
+          ip?: string | null
+          issued_at?: string
+        }
+        Relationships: []
+      }
+      recommendation_submission_attempts: {
+        Row: {
+          created_at: string
+          email: string | null
+          id: number
+          ip: string | null
+          owner_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          id?: never
+          ip?: string | null
+          owner_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          id?: never
+          ip?: string | null
+          owner_id?: string | null
+        }
+        Relationships: []
+      }
+      recommendation_submissions: {
+        Row: {
+          author: string
+          created_at: string
+          duplicate_of: string | null
+          email: string | null
+          id: string
+          isbn: string | null
+          note: string | null
+          owner_id: string
+          recommendation_id: string | null
+          recommended_by: string
+          reviewed_at: string | null
+          status: string
+          title: string
+        }
+        Insert: {
+          author: string
+          created_at?: string
+          duplicate_of?: string | null
+          email?: string | null
+          id?: string
+          isbn?: string | null
+          note?: string | null
+          owner_id: string
+          recommendation_id?: string | null
+          recommended_by: string
+          reviewed_at?: string | null
+          status?: string
+          title: string
+        }
+        Update: {
+          author?: string
+          created_at?: string
+          duplicate_of?: string | null
+          email?: string | null
+          id?: string
+          isbn?: string | null
+          note?: string | null
+          owner_id?: string
+          recommendation_id?: string | null
+          recommended_by?: string
+          reviewed_at?: string | null
+          status?: string
+          title?: string
+        }
+        Relationships: []
+      }
       recommendations: {
         Row: {
           author: string
@@ -79,16 +286,24 @@ export type Database = {
           cover_url: string | null
           created_at: string | null
           date_read: string | null
+          deleted_at: string | null
+          email: string | null
           favorite: boolean | null
           genres: string[] | null
           id: string
+          is_hidden: boolean
           is_series: boolean | null
+          isbn: string | null
+          order: number | null
+          owner_id: string | null
           pages: number | null
           progress: number
           recommended_by: string | null
           series_name: string | null
           series_position: number | null
+          source_recommendation_id: string | null
           status: string
+          tags: string[] | null
           title: string
           updated_at: string | null
         }
@@ -98,16 +313,24 @@ export type Database = {
           cover_url?: string | null
           created_at?: string | null
           date_read?: string | null
+          deleted_at?: string | null
+          email?: string | null
           favorite?: boolean | null
           genres?: string[] | null
           id?: string
+          is_hidden?: boolean
           is_series?: boolean | null
+          isbn?: string | null
+          order?: number | null
+          owner_id?: string | null
           pages?: number | null
           progress?: number
           recommended_by?: string | null
           series_name?: string | null
           series_position?: number | null
+          source_recommendation_id?: string | null
           status?: string
+          tags?: string[] | null
           title: string
           updated_at?: string | null
         }
@@ -117,16 +340,24 @@ export type Database = {
           cover_url?: string | null
           created_at?: string | null
           date_read?: string | null
+          deleted_at?: string | null
+          email?: string | null
           favorite?: boolean | null
           genres?: string[] | null
           id?: string
+          is_hidden?: boolean
           is_series?: boolean | null
+          isbn?: string | null
+          order?: number | null
+          owner_id?: string | null
           pages?: number | null
           progress?: number
           recommended_by?: string | null
           series_name?: string | null
           series_position?: number | null
+          source_recommendation_id?: string | null
           status?: string
+          tags?: string[] | null
           title?: string
           updated_at?: string | null
         }
@@ -134,10 +365,419 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      book_list_items: {
+        Row: {
+          author: string | null
+          color: string | null
+          cover_url: string | null
+          date_read: string | null
+          deleted_at: string | null
+          favorite: boolean | null
+          genres: string[] | null
+          id: string | null
+          is_hidden: boolean | null
+          is_series: boolean | null
+          isbn: string | null
+          order: number | null
+          owner_id: string | null
+          pages: number | null
+          progress: number | null
+          recommended_by: string | null
+          series_name: string | null
+          series_position: number | null
+          status: string | null
+          title: string | null
+          updated_at: string | null
+        }
+        Relationships: []
+      }
+      public_books: {
+        Row: {
+          author: string | null
+          color: string | null
+          cover_url: string | null
+          date_read: string | null
+          deleted_at: string | null
+          favorite: boolean | null
+          genres: string[] | null
+          id: string | null
+          is_hidden: boolean | null
+          is_series: boolean | null
+          isbn: string | null
+          order: number | null
+          owner_id: string | null
+          pages: number | null
+          progress: number | null
+          recommended_by: string | null
+          series_name: string | null
+          series_position: number | null
+          status: string | null
+          tags: string[] | null
+          title: string | null
+          updated_at: string | null
+        }
+        Relationships: []
+      }
+      public_recommendations: {
+        Row: {
+          author: string | null
+          color: string | null
+          cover_url: string | null
+          date_read: string | null
+          deleted_at: string | null
+          favorite: boolean | null
+          genres: string[] | null
+          id: string | null
+          is_hidden: boolean | null
+          is_series: boolean | null
+          isbn: string | null
+          order: number | null
+          owner_id: string | null
+          pages: number | null
+          progress: number | null
+          recommended_by: string | null
+          series_name: string | null
+          series_position: number | null
+          status: string | null
+          tags: string[] | null
+          title: string | null
+          updated_at: string | null
+        }
+        Relationships: []
+      }
+      recommendation_list_items: {
+        Row: {
+          author: string | null
+          color: string | null
+          cover_url: string | null
+          date_read: string | null
+          deleted_at: string | null
+          favorite: boolean | null
+          genres: string[] | null
+          id: string | null
+          is_hidden: boolean | null
+          is_series: boolean | null
+          isbn: string | null
+          order: number | null
+          owner_id: string | null
+          pages: number | null
+          progress: number | null
+          recommended_by: string | null
+          series_name: string | null
+          series_position: number | null
+          status: string | null
+          title: string | null
+          updated_at: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      accept_recommendation: {
+        Args: {
+          recommendation_id: string
+          book: Json
+        }
+        Returns: {
+          author: string
+          color: string | null
+          cover_url: string | null
+          created_at: string | null
+          date_read: string | null
+          deleted_at: string | null
+          email: string | null
+          favorite: boolean | null
+          genres: string[] | null
+          id: string
+          is_hidden: boolean
+          is_series: boolean | null
+          isbn: string | null
+          order: number | null
+          owner_id: string | null
+          pages: number | null
+          progress: number
+          recommended_by: string | null
+          series_name: string | null
+          series_position: number | null
+          source_recommendation_id: string | null
+          status: string
+          tags: string[] | null
+          title: string
+          updated_at: string | null
+        }[]
+      }
+      add_library_member: {
+        Args: {
+          member_handle: string
+          member_role: string
+        }
+        Returns: undefined
+      }
+      approve_recommendation_submission: {
+        Args: {
+          submission_id: string
+        }
+        Returns: {
+          author: string
+          color: string | null
+          cover_url: string | null
+          created_at: string | null
+          date_read: string | null
+          deleted_at: string | null
+          email: string | null
+          favorite: boolean | null
+          genres: string[] | null
+          id: string
+          is_hidden: boolean
+          is_series: boolean | null
+          isbn: string | null
+          order: number | null
+          owner_id: string | null
+          pages: number | null
+          progress: number
+          recommended_by: string | null
+          series_name: string | null
+          series_position: number | null
+          source_recommendation_id: string | null
+          status: string
+          tags: string[] | null
+          title: string
+          updated_at: string | null
+        }[]
+      }
+      author_surname: {
+        Args: {
+          author: string
+        }
+        Returns: string
+      }
+      can_edit_library: {
+        Args: {
+          library_owner: string
+        }
+        Returns: boolean
+      }
+      can_see_whole_library: {
+        Args: {
+          library_owner: string
+        }
+        Returns: boolean
+      }
+      find_public_duplicate: {
+        Args: {
+          library_owner: string
+          book_title: string
+          book_author: string
+          book_isbn?: string
+        }
+        Returns: {
+          id: string
+          title: string
+          status: string
+        }[]
+      }
+      get_library_profile: {
+        Args: {
+          profile_handle: string
+        }
+        Returns: {
+          created_at: string
+          display_name: string | null
+          handle: string
+          hidden_tags: string[]
+          owner_id: string
+          updated_at: string
+          visibility: string
+        }[]
+      }
+      is_blocked_submission: {
+        Args: {
+          library_owner: string
+          sender_name: string
+          sender_email: string
+          content: string
+        }
+        Returns: boolean
+      }
+      is_public_book: {
+        Args: {
+          book_owner: string
+          book_hidden: boolean
+          book_tags: string[]
+        }
+        Returns: boolean
+      }
+      library_public_books: {
+        Args: {
+          library_owner: string
+        }
+        Returns: {
+          author: string | null
+          color: string | null
+          cover_url: string | null
+          date_read: string | null
+          deleted_at: string | null
+          favorite: boolean | null
+          genres: string[] | null
+          id: string | null
+          is_hidden: boolean | null
+          is_series: boolean | null
+          isbn: string | null
+          order: number | null
+          owner_id: string | null
+          pages: number | null
+          progress: number | null
+          recommended_by: string | null
+          series_name: string | null
+          series_position: number | null
+          status: string | null
+          tags: string[] | null
+          title: string | null
+          updated_at: string | null
+        }[]
+      }
+      library_public_recommendations: {
+        Args: {
+          library_owner: string
+        }
+        Returns: {
+          author: string | null
+          color: string | null
+          cover_url: string | null
+          date_read: string | null
+          deleted_at: string | null
+          favorite: boolean | null
+          genres: string[] | null
+          id: string | null
+          is_hidden: boolean | null
+          is_series: boolean | null
+          isbn: string | null
+          order: number | null
+          owner_id: string | null
+          pages: number | null
+          progress: number | null
+          recommended_by: string | null
+          series_name: string | null
+          series_position: number | null
+          status: string | null
+          tags: string[] | null
+          title: string | null
+          updated_at: string | null
+        }[]
+      }
+      list_library_members: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          user_id: string
+          role: string
+          handle: string | null
+          display_name: string | null
+          created_at: string
+        }[]
+      }
+      list_shared_libraries: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          library_owner_id: string
+          role: string
+          handle: string | null
+          display_name: string | null
+        }[]
+      }
+      matching_similarity: {
+        Args: {
+          a: string
+          b: string
+        }
+        Returns: number
+      }
+      merge_recommendation_submission: {
+        Args: {
+          submission_id: string
+          into_recommendation: string
+        }
+        Returns: {
+          author: string
+          color: string | null
+          cover_url: string | null
+          created_at: string | null
+          date_read: string | null
+          deleted_at: string | null
+          email: string | null
+          favorite: boolean | null
+          genres: string[] | null
+          id: string
+          is_hidden: boolean
+          is_series: boolean | null
+          isbn: string | null
+          order: number | null
+          owner_id: string | null
+          pages: number | null
+          progress: number
+          recommended_by: string | null
+          series_name: string | null
+          series_position: number | null
+          source_recommendation_id: string | null
+          status: string
+          tags: string[] | null
+          title: string
+          updated_at: string | null
+        }[]
+      }
+      normalize_isbn: {
+        Args: {
+          isbn: string
+        }
+        Returns: string
+      }
+      normalize_title: {
+        Args: {
+          title: string
+        }
+        Returns: string
+      }
+      reorder_books: {
+        Args: {
+          updates: Json
+        }
+        Returns: undefined
+      }
+      request_ip: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      simplify_for_matching: {
+        Args: {
+          value: string
+        }
+        Returns: string
+      }
+      start_recommendation_form: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      submit_recommendation: {
+        Args: {
+          library_owner: string
+          book_title: string
+          book_author: string
+          recommender_name: string
+          recommender_email?: string
+          submission_note?: string
+          book_isbn?: string
+          duplicate_of_recommendation?: string
+          honeypot?: string
+          form_token?: string
+        }
+        Returns: string
+      }
+      surnames_match: {
+        Args: {
+          a: string
+          b: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+import { Book } from '@/types/book';
+import { normalizeIsbn } from '@/utils/bookMatching';
+
+// Field rules shared by the book form and by validation of stored books
+export const bookStatusSchema = z.enum(['read', 'reading', 'to-read', 'wishlist', 'recommendation']);
+export const titleSchema = z.string().trim().min(1, "Title is required");
+export const authorSchema = z.string().trim().min(1, "Author is required");
+export const progressSchema = z.number().int().min(0, "Progress must be at least 0").max(100, "Progress can't exceed 100%");
+export const pagesSchema = z.number().int().min(1, "Pages is required").max(10000, "Too many pages");
+export const seriesPositionSchema = z.number().int().min(1, "Series position must be at least 1");
+export const emailSchema = z.string().email("Must be a valid email address");
+export const isbnSchema = z.string().trim().refine(value => normalizeIsbn(value) !== null, "Must be a valid ISBN-10 or ISBN-13");
+
+// Schema for the add/edit book form
+export const bookFormSchema = z.object({
+  title: titleSchema,
+  author: authorSchema,
+  status: bookStatusSchema.default('read'),
+  dateRead: z.date().optional(),
+  pages: pagesSchema.optional(),
+  progress: progressSchema.default(0),
+  coverUrl: z.string().url("Must be a valid URL").optional().or(z.literal('')),
+  genres: z.array(z.string()).optional(),
+  recommendedBy: z.string().optional(),
+  isSeries: z.boolean().default(false),
+  seriesName: z.string().optional(),
+  seriesPosition: seriesPositionSchema.optional(),
+  tags: z.array(z.string()).optional(),
+  email: emailSchema.optional().or(z.literal('')),
+  isbn: isbnSchema.optional().or(z.literal('')),
+  hidden: z.boolean().default(false),
+});
+
+// The longest a visitor may make each field, which the database enforces too
+export const SUBMISSION_LIMITS = {
+  title: 200,
+  author: 150,
+  recommendedBy: 100,
+  email: 254,
+  note: 500
+} as const;
+
+const withoutLinks = (schema: z.ZodString) =>
+  schema.refine(value => !/(https?:\/\/|www\.)/i.test(value), "Links aren't allowed here");
+
+// Schema for the form visitors recommend a book with
+export const recommendationSubmissionSchema = z.object({
+  title: withoutLinks(titleSchema.max(SUBMISSION_LIMITS.title, `Keep the title under ${SUBMISSION_LIMITS.title} characters`)),
+  author: withoutLinks(authorSchema.max(SUBMISSION_LIMITS.author, `Keep the author under ${SUBMISSION_LIMITS.author} characters`)),
+  isbn: isbnSchema.optional().or(z.literal('')),
+  recommendedBy: withoutLinks(z.string().trim()
+    .min(1, "Let us know who's recommending it")
+    .max(SUBMISSION_LIMITS.recommendedBy, `Keep your name under ${SUBMISSION_LIMITS.recommendedBy} characters`)),
+  email: emailSchema.max(SUBMISSION_LIMITS.email, "That email address is too long").optional().or(z.literal('')),
+  note: z.string().trim().max(SUBMISSION_LIMITS.note, `Keep the note under ${SUBMISSION_LIMITS.note} characters`).optional(),
+});
+
+// Numbers sometimes arrive as numeric strings from older data or imports
+const numeric = <T extends z.ZodTypeAny>(schema: T) => z.preprocess(
+  value => typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value,
+  schema
+);
+
+const optionalString = z.string().nullish().transform(value => value || undefined);
+
+// Schema for a Book read from any storage backend or import
+export const bookSchema = z.object({
+  id: z.string().min(1, "Id is required"),
+  title: titleSchema,
+  author: authorSchema,
+  coverUrl: z.string().nullish().transform(value => value || ''),
+  dateRead: z.coerce.date({ invalid_type_error: "Date read is not a valid date" }),
+  color: optionalString,
+  genres: z.array(z.string()).nullish().transform(value => value || []),
+  status: bookStatusSchema,
+  order: numeric(z.number()).nullish().transform(value => value ?? undefined),
+  progress: numeric(progressSchema),
+  // Unlike the form, stored books may have an unknown page count
+  pages: numeric(z.number().int().min(0).max(10000)).nullish().transform(value => value || 0),
+  recommendedBy: optionalString,
+  favorite: z.boolean().nullish().transform(value => value || false),
+  isSeries: z.boolean().nullish().transform(value => value || false),
+  seriesName: optionalString,
+  seriesPosition: numeric(seriesPositionSchema).nullish().transform(value => value || undefined),
+  tags: z.array(z.string()).nullish().transform(value => value || []),
+  email: optionalString,
+  updatedAt: optionalString,
+  deletedAt: optionalString,
+  ownerId: optionalString,
+  hidden: z.boolean().nullish().transform(value => value || false),
+  sourceRecommendationId: optionalString,
+  isbn: optionalString,
+});
+
+export type BookValidationResult =
+  | { success: true; book: Book }
+  | { success: false; issues: string[] };
+
+const formatIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => 
+    issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+  );
+
+/**
+ * Check that a record is a well-formed Book, normalizing empty optional fields
+ */
+export const validateBook = (record: unknown): BookValidationResult => {
+  const result = bookSchema.safeParse(record);
+  
+  if (result.success) {
+    return { success: true, book: result.data as Book };
+  }
+  
+  return { success: false, issues: formatIssues(result.error) };
+};
+
+/**
+ * Check the fields of a partial update; fields that are not present are not checked.
+ * Returns the problems found, or an empty list if the patch is valid.
+ */
+export const validateBookPatch = (patch: Partial<Book>): string[] => {
+  const result = bookSchema.partial().safeParse(patch);
+  return result.success ? [] : formatIssues(result.error);
+};
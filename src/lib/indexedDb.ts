@@ -0,0 +1,157 @@
+/**
+ * Minimal promise wrapper around the browser's IndexedDB API
+ */
+
+export const DATABASE_NAME = 'bookshelf';
+export const DATABASE_VERSION = 3;
+
+// Object stores and their key paths
+export const STORES = {
+  books: 'books',
+  recommendations: 'recommendations',
+  covers: 'covers',
+  meta: 'meta',
+  quarantine: 'quarantine',
+  backups: 'backups'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+  });
+
+/**
+ * Open (and on first use, create) the bookshelf database
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+  
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+  
+  databasePromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    let isBlocked = false;
+    
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.books)) {
+        db.createObjectStore(STORES.books, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.recommendations)) {
+        db.createObjectStore(STORES.recommendations, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.covers)) {
+        db.createObjectStore(STORES.covers, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.meta)) {
+        db.createObjectStore(STORES.meta, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(STORES.quarantine)) {
+        db.createObjectStore(STORES.quarantine, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(STORES.backups)) {
+        db.createObjectStore(STORES.backups, { keyPath: 'id' });
+      }
+    };
+    
+    // Another tab still has an older version open; fail now rather than wait for it to close
+    request.onblocked = () => {
+      isBlocked = true;
+      databasePromise = null;
+      reject(new Error('The bookshelf database is open in another tab on an older version. Close other tabs and reload.'));
+    };
+    
+    request.onsuccess = () => {
+      const db = request.result;
+      if (isBlocked) {
+        db.close();
+        return;
+      }
+      
+      // Let a newer version opened in another tab upgrade instead of hanging; the next call reopens
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+  });
+  
+  return databasePromise;
+};
+
+export const getAllRecords = async <T>(storeName: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  return requestToPromise<T[]>(store.getAll());
+};
+
+export const getRecord = async <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  return requestToPromise<T | undefined>(store.get(key));
+};
+
+export const putRecords = async <T>(storeName: StoreName, records: T[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  records.forEach(record => store.put(record));
+  return transactionDone(transaction);
+};
+
+export const putRecord = async <T>(storeName: StoreName, record: T): Promise<void> =>
+  putRecords(storeName, [record]);
+
+export const deleteRecord = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  transaction.objectStore(storeName).delete(key);
+  return transactionDone(transaction);
+};
+
+/**
+ * Delete a record from one store and put a record into another within a single transaction
+ */
+export const moveRecord = async <T>(
+  fromStore: StoreName,
+  key: IDBValidKey,
+  toStore: StoreName,
+  record: T
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([fromStore, toStore], 'readwrite');
+  transaction.objectStore(fromStore).delete(key);
+  transaction.objectStore(toStore).put(record);
+  return transactionDone(transaction);
+};
+
+/**
+ * Replace every record in a store within a single transaction
+ */
+export const replaceAllRecords = async <T>(storeName: StoreName, records: T[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  store.clear();
+  records.forEach(record => store.put(record));
+  return transactionDone(transaction);
+};
@@ -0,0 +1,33 @@
+import { Capability, MemberRole, Role } from '@/types/permissions';
+
+// Mirrors the row-level security policies: owners and editors write books, and only owners write recommendations
+export const ROLE_CAPABILITIES: Record<Role, readonly Capability[]> = {
+  owner: ['add', 'edit', 'delete', 'reorder', 'moderate'],
+  editor: ['add', 'edit', 'delete', 'reorder'],
+  viewer: [],
+  guest: []
+};
+
+export const MEMBER_ROLES: readonly MemberRole[] = ['editor', 'viewer'];
+
+export const isMemberRole = (value: unknown): value is MemberRole =>
+  MEMBER_ROLES.includes(value as MemberRole);
+
+export const hasCapability = (role: Role, capability: Capability): boolean =>
+  ROLE_CAPABILITIES[role].includes(capability);
+
+interface RoleContext {
+  userId: string | null;
+  libraryOwnerId: string | null;
+  memberRole?: MemberRole | null;
+}
+
+/**
+ * The role of a user in a library. Signed-out visitors are guests and
+ * signed-in users the library isn't shared with are viewers.
+ */
+export const resolveRole = ({ userId, libraryOwnerId, memberRole }: RoleContext): Role => {
+  if (!userId) return 'guest';
+  if (userId === libraryOwnerId) return 'owner';
+  return memberRole || 'viewer';
+};
@@ -1,9 +1,22 @@
 
-import { supabase } from '@/integrations/supabase/client';
+import { supabase } from '@/lib/supabaseClient';
 
 // Constants for table names
 export const BOOKS_TABLE = 'books';
 export const RECOMMENDATIONS_TABLE = 'recommendations';
+export const LIBRARY_MEMBERS_TABLE = 'library_members';
+export const LIBRARY_PROFILES_TABLE = 'library_profiles';
+export const LIBRARY_SETTINGS_TABLE = 'library_settings';
+export const RECOMMENDATION_SUBMISSIONS_TABLE = 'recommendation_submissions';
+export const RECOMMENDATION_BLOCKLIST_TABLE = 'recommendation_blocklist';
+
+// Views with the light rows the shelf is paged through
+export const BOOK_LIST_VIEW = 'book_list_items';
+export const RECOMMENDATION_LIST_VIEW = 'recommendation_list_items';
+
+// Functions returning only what visitors to a library may see, read by its public page
+export const PUBLIC_BOOKS_FUNCTION = 'library_public_books';
+export const PUBLIC_RECOMMENDATIONS_FUNCTION = 'library_public_recommendations';
 
 // Check if we're using demo credentials
 export const isUsingDemoCredentials = false;
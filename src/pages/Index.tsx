@@ -3,6 +3,7 @@ import Bookshelf from '@/components/Bookshelf';
 import BookshelfStats from '@/components/BookshelfStats';
 import { useBookshelf } from '@/context/BookshelfContext';
 import { shouldUseFallback } from '@/lib/supabase';
+import * as storageService from '@/services/storageService';
 import { Loader2, BookOpen } from 'lucide-react';
 
 const Index = () => {
@@ -12,21 +13,22 @@ const Index = () => {
   // Debug log on mount
   useEffect(() => {
     console.log(`Index page loaded. Books: ${books.length}, Recommendations: ${recommendations.length}`);
-    console.log(`Using localStorage: ${shouldUseFallback()}`);
+    console.log(`Using local fallback: ${shouldUseFallback()}`);
     
-    // Check if books are in localStorage
-    try {
-      const storedBooks = localStorage.getItem('books');
-      console.log(`Books in localStorage: ${storedBooks ? JSON.parse(storedBooks).length : 0}`);
-      
-      // If there's a mismatch between state and localStorage, recover data
-      if (books.length === 0 && storedBooks && JSON.parse(storedBooks).length > 0) {
-        console.log('Mismatch between state and localStorage, recovering data...');
-        recoverData();
-      }
-    } catch (error) {
-      console.error('Error checking localStorage:', error);
-    }
+    // Check if books are in IndexedDB
+    storageService.getStoredBooks()
+      .then(storedBooks => {
+        console.log(`Books in IndexedDB: ${storedBooks.length}`);
+        
+        // If there's a mismatch between state and IndexedDB, recover data
+        if (books.length === 0 && storedBooks.length > 0) {
+          console.log('Mismatch between state and IndexedDB, recovering data...');
+          recoverData();
+        }
+      })
+      .catch(error => {
+        console.error('Error checking IndexedDB:', error);
+      });
   }, [books.length, recommendations.length, recoverData]);
 
   // Handlers for Add Book Dialog
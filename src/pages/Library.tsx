@@ -1,10 +1,32 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
 import { BookshelfProvider } from '@/context/BookshelfContext';
 import BookshelfStats from '@/components/BookshelfStats';
 import Bookshelf from '@/components/Bookshelf';
+import * as membershipService from '@/services/membershipService';
 
+// The signed-in user's own library at /library, or one shared with them at /library/:ownerId
 const Library = () => {
+  const { ownerId } = useParams<{ ownerId: string }>();
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [sharedTitle, setSharedTitle] = useState<string | null>(null);
+  
+  useEffect(() => {
+    setSharedTitle(null);
+    if (!ownerId) return;
+    
+    let cancelled = false;
+    membershipService.listSharedLibraries()
+      .then(libraries => {
+        const library = libraries.find(shared => shared.ownerId === ownerId);
+        if (!cancelled && library) setSharedTitle(membershipService.sharedLibraryName(library));
+      })
+      .catch(error => console.error('Error loading shared library name:', error));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [ownerId]);
   
   const handleAddBookClick = () => {
     setIsAddDialogOpen(true);
@@ -15,15 +37,20 @@ const Library = () => {
   };
   
   return (
-    <BookshelfProvider>
+    <BookshelfProvider ownerId={ownerId}>
       <div className="min-h-screen flex flex-col bg-gray-50">
         <main className="flex-grow py-6 px-3 sm:py-8 sm:px-4 lg:px-8">
           <div className="max-w-6xl mx-auto">
-            <BookshelfStats onAddBookClick={handleAddBookClick} />
+            {ownerId ? (
+              <BookshelfStats onAddBookClick={handleAddBookClick} title={sharedTitle || 'Shared Library'} subtitle={null} avatarSrc={null} />
+            ) : (
+              <BookshelfStats onAddBookClick={handleAddBookClick} />
+            )}
             <Bookshelf 
               isAddDialogOpen={isAddDialogOpen} 
               onDialogClose={handleDialogClose} 
               onAddBookClick={handleAddBookClick} 
+              recommendPath="/recommend"
             />
           </div>
         </main>
@@ -0,0 +1,104 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Loader2, Lock } from 'lucide-react';
+import { BookshelfProvider } from '@/context/BookshelfContext';
+import BookshelfStats from '@/components/BookshelfStats';
+import Bookshelf from '@/components/Bookshelf';
+import * as profileService from '@/services/profileService';
+import { createPublicRepository } from '@/services/repositories/publicRepository';
+import { LibraryProfile } from '@/types/profile';
+
+type PageState =
+  | { status: 'loading' }
+  | { status: 'missing' }
+  | { status: 'ready'; profile: LibraryProfile };
+
+// Keeps unlisted pages, and pages that turn out not to exist, out of search engines
+const useNoIndex = (enabled: boolean) => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const meta = document.createElement('meta');
+    meta.name = 'robots';
+    meta.content = 'noindex';
+    document.head.appendChild(meta);
+    return () => {
+      meta.remove();
+    };
+  }, [enabled]);
+};
+
+const PublicShelf: React.FC<{ profile: LibraryProfile }> = ({ profile }) => {
+  const repository = useMemo(() => createPublicRepository(profile.ownerId), [profile.ownerId]);
+  const title = profile.displayName ? `${profile.displayName}'s Library` : `@${profile.handle}`;
+
+  return (
+    <BookshelfProvider ownerId={profile.ownerId} repository={repository} readOnly>
+      <BookshelfStats title={title} subtitle={null} avatarSrc={null} />
+      <Bookshelf recommendPath={`${profileService.libraryPath(profile.handle)}/recommend`} />
+    </BookshelfProvider>
+  );
+};
+
+// A user's library at /u/:handle, read-only, showing only what they've made public
+const PublicLibrary = () => {
+  const { handle = '' } = useParams<{ handle: string }>();
+  const [state, setState] = useState<PageState>({ status: 'loading' });
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ status: 'loading' });
+
+    profileService.getProfileByHandle(handle)
+      .then(profile => {
+        if (cancelled) return;
+        setState(profile ? { status: 'ready', profile } : { status: 'missing' });
+      })
+      .catch(error => {
+        console.error('Error loading library profile:', error);
+        if (!cancelled) setState({ status: 'missing' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [handle]);
+
+  const profile = state.status === 'ready' ? state.profile : null;
+  useNoIndex(profile?.visibility !== 'public');
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <main className="flex-grow py-6 px-3 sm:py-8 sm:px-4 lg:px-8">
+        <div className="max-w-6xl mx-auto">
+          {state.status === 'loading' ? (
+            <div className="flex justify-center items-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+              <span className="ml-2 text-lg text-blue-600">Loading library...</span>
+            </div>
+          ) : !profile ? (
+            <div className="text-center py-16 px-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+              <h1 className="text-lg font-semibold text-gray-800 mb-2">This library isn't available</h1>
+              <p className="text-sm text-gray-500">
+                There's no library at this link, or its owner has made it private.
+              </p>
+            </div>
+          ) : profile.visibility === 'private' ? (
+            // Only the owner and members get a private profile back
+            <div className="text-center py-16 px-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+              <Lock className="mx-auto h-10 w-10 text-gray-400 mb-4" />
+              <h1 className="text-lg font-semibold text-gray-800 mb-2">This library is private</h1>
+              <p className="text-sm text-gray-500">
+                Visitors can't see this page. Its owner can change that in the library's sharing settings.
+              </p>
+            </div>
+          ) : (
+            <PublicShelf profile={profile} />
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default PublicLibrary;
@@ -0,0 +1,346 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { BookCheck, CheckCircle2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { recommendationSubmissionSchema } from '@/lib/bookSchema';
+import { NotFoundError, QuotaError, ValidationError, toServiceError } from '@/services/errors';
+import { DEFAULT_LIBRARY_OWNER } from '@/services/libraryScope';
+import * as profileService from '@/services/profileService';
+import * as submissionService from '@/services/submissionService';
+import { Book } from '@/types/book';
+
+type RecommendFormValues = z.infer<typeof recommendationSubmissionSchema>;
+
+// The library a recommendation goes to
+type Target =
+  | { status: 'loading' }
+  | { status: 'missing' }
+  | { status: 'ready'; ownerId: string; name: string; backPath: string };
+
+// What became of the last recommendation: sent for review, sent as a repeat
+// of one already recommended, or not sent because the book is on the shelf
+type Outcome =
+  | { kind: 'sent' | 'repeat'; title: string }
+  | { kind: 'on-shelf'; title: string; status: Book['status'] };
+
+const EMPTY_FORM: RecommendFormValues = { title: '', author: '', isbn: '', recommendedBy: '', email: '', note: '' };
+
+const SHELF_MESSAGES: Record<Book['status'], string> = {
+  read: "It's already been read.",
+  reading: "It's being read right now.",
+  'to-read': "It's already on the to-read list.",
+  wishlist: "It's already on the wishlist.",
+  recommendation: "It's already been recommended."
+};
+
+// /recommend sends to the default library, /u/:handle/recommend to that user's
+const useTarget = (handle: string | undefined): Target => {
+  const [target, setTarget] = useState<Target>({ status: 'loading' });
+
+  useEffect(() => {
+    if (!handle) {
+      setTarget(DEFAULT_LIBRARY_OWNER
+        ? { status: 'ready', ownerId: DEFAULT_LIBRARY_OWNER, name: 'this library', backPath: '/library' }
+        : { status: 'missing' });
+      return;
+    }
+
+    let cancelled = false;
+    setTarget({ status: 'loading' });
+    profileService.getProfileByHandle(handle)
+      .then(profile => {
+        if (cancelled) return;
+        setTarget(profile && profile.visibility !== 'private'
+          ? {
+            status: 'ready',
+            ownerId: profile.ownerId,
+            name: profile.displayName ? `${profile.displayName}'s library` : `@${profile.handle}`,
+            backPath: profileService.libraryPath(profile.handle)
+          }
+          : { status: 'missing' });
+      })
+      .catch(error => {
+        console.error('Error loading library profile:', error);
+        if (!cancelled) setTarget({ status: 'missing' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [handle]);
+
+  return target;
+};
+
+// Lets visitors recommend a book without signing in. It waits for the owner's approval.
+const Recommend = () => {
+  const { handle } = useParams<{ handle?: string }>();
+  const target = useTarget(handle);
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Tell people from bots: bots fill in the hidden field, and send the form the moment it opens
+  const honeypotRef = useRef<HTMLInputElement>(null);
+  const formToken = useRef<Promise<string> | null>(null);
+
+  // The server times the form from the token it issues here; each one sends a single recommendation
+  const startForm = useCallback(() => {
+    const token = submissionService.startForm();
+    // A failure shows when the form is sent
+    token.catch(() => {});
+    formToken.current = token;
+  }, []);
+
+  useEffect(() => {
+    startForm();
+  }, [startForm]);
+
+  const form = useForm<RecommendFormValues>({
+    resolver: zodResolver(recommendationSubmissionSchema),
+    defaultValues: EMPTY_FORM
+  });
+
+  const onSubmit = async (values: RecommendFormValues) => {
+    if (target.status !== 'ready') return;
+
+    setError(null);
+    try {
+      const token = await formToken.current;
+
+      // Not being able to check for a repeat shouldn't stop the recommendation
+      const duplicate = await submissionService.findDuplicate(target.ownerId, {
+        title: values.title,
+        author: values.author,
+        isbn: values.isbn
+      }).catch(checkError => {
+        console.error('Error checking for a repeat recommendation:', checkError);
+        return null;
+      });
+
+      if (duplicate && duplicate.status !== 'recommendation') {
+        setOutcome({ kind: 'on-shelf', title: duplicate.title, status: duplicate.status });
+        return;
+      }
+
+      await submissionService.submitRecommendation(target.ownerId, {
+        title: values.title,
+        author: values.author,
+        isbn: values.isbn || undefined,
+        recommendedBy: values.recommendedBy,
+        email: values.email || undefined,
+        note: values.note || undefined,
+        duplicateOf: duplicate?.id
+      }, {
+        honeypot: honeypotRef.current?.value,
+        formToken: token
+      });
+      setOutcome(duplicate ? { kind: 'repeat', title: duplicate.title } : { kind: 'sent', title: values.title });
+      // Keep the name and email for the next recommendation
+      form.reset({ ...EMPTY_FORM, recommendedBy: values.recommendedBy, email: values.email });
+    } catch (submitError) {
+      console.error('Error sending recommendation:', submitError);
+      // The server may have used the token before the request failed, so the next try needs a new one
+      startForm();
+      const serviceError = toServiceError(submitError);
+      setError(
+        serviceError instanceof NotFoundError ? "This library isn't taking recommendations." :
+        serviceError instanceof QuotaError ? "You've sent a lot of recommendations in the last hour. Try again later." :
+        serviceError instanceof ValidationError ? "Something in the form wasn't accepted. Check it and try again." :
+        "Your recommendation couldn't be sent. Try again in a moment."
+      );
+    }
+  };
+
+  const startAnother = () => {
+    startForm();
+    setOutcome(null);
+  };
+
+  if (target.status === 'loading') {
+    return (
+      <div className="flex justify-center items-center min-h-screen bg-gray-100">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (target.status === 'missing') {
+    return (
+      <div className="flex justify-center items-center min-h-screen bg-gray-100 px-4">
+        <div className="text-center py-16 px-4 bg-white border border-gray-200 rounded-lg shadow-sm max-w-md">
+          <h1 className="text-lg font-semibold text-gray-800 mb-2">This library isn't taking recommendations</h1>
+          <p className="text-sm text-gray-500">
+            There's no library at this link, or its owner has made it private.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex justify-center items-center min-h-screen bg-gray-100 px-4 py-8">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl">Recommend a Book</CardTitle>
+          <CardDescription>
+            Suggest something for {target.name} to read. It'll show up once the owner has looked at it.
+          </CardDescription>
+        </CardHeader>
+
+        {outcome ? (
+          <>
+            <CardContent className="text-center space-y-2">
+              {outcome.kind === 'on-shelf' ? (
+                <>
+                  <BookCheck className="mx-auto h-10 w-10 text-blue-500" />
+                  <p className="font-medium">"{outcome.title}" is already on the shelf</p>
+                  <p className="text-sm text-gray-500">{SHELF_MESSAGES[outcome.status]} Nothing was sent.</p>
+                </>
+              ) : outcome.kind === 'repeat' ? (
+                <>
+                  <CheckCircle2 className="mx-auto h-10 w-10 text-green-500" />
+                  <p className="font-medium">"{outcome.title}" is already on the list</p>
+                  <p className="text-sm text-gray-500">
+                    Someone beat you to it. Your name will be added to the people recommending it once the owner has looked.
+                  </p>
+                </>
+              ) : (
+                <>
+                  <CheckCircle2 className="mx-auto h-10 w-10 text-green-500" />
+                  <p className="font-medium">Thanks for recommending "{outcome.title}"!</p>
+                  <p className="text-sm text-gray-500">The owner will review it soon.</p>
+                </>
+              )}
+            </CardContent>
+            <CardFooter className="flex gap-2">
+              <Button variant="outline" className="flex-1" asChild>
+                <Link to={target.backPath}>Back to the Library</Link>
+              </Button>
+              <Button className="flex-1" onClick={startAnother}>
+                Recommend Another
+              </Button>
+            </CardFooter>
+          </>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)}>
+              <CardContent className="grid gap-4">
+                <FormField
+                  control={form.control}
+                  name="title"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Title</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Book Title" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="author"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Author</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Author Name" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="isbn"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>ISBN (optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="978-0-00-000000-0" {...field} />
+                      </FormControl>
+                      <FormDescription>Helps spot the book if it's already here.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="recommendedBy"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Your Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Who's recommending it?" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email (optional)</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="you@example.com" {...field} />
+                      </FormControl>
+                      <FormDescription>Only the owner sees it.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="note"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Why read it? (optional)</FormLabel>
+                      <FormControl>
+                        <Textarea rows={3} placeholder="A few words about the book" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div aria-hidden="true" className="absolute -left-[9999px] h-px w-px overflow-hidden">
+                  <label htmlFor="recommend-website">Website</label>
+                  <input id="recommend-website" name="website" type="text" tabIndex={-1} autoComplete="off" ref={honeypotRef} />
+                </div>
+
+                {error && (
+                  <p className="text-sm text-red-600">{error}</p>
+                )}
+              </CardContent>
+              <CardFooter>
+                <Button
+                  type="submit"
+                  className="w-full bg-gray-900 hover:bg-gray-700 text-white"
+                  disabled={form.formState.isSubmitting}
+                >
+                  {form.formState.isSubmitting ? 'Sending...' : 'Send Recommendation'}
+                </Button>
+              </CardFooter>
+            </form>
+          </Form>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default Recommend;
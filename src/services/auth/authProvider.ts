@@ -0,0 +1,43 @@
+/**
+ * Selects the auth provider once at startup
+ */
+import { AuthProvider, AuthProviderKind } from '@/types/auth';
+import { createFirebaseAuthProvider } from './firebaseAuthProvider';
+import { createLocalAuthProvider } from './localAuthProvider';
+
+/**
+ * Build a provider of the requested kind. When no kind is given, the
+ * VITE_AUTH_PROVIDER env variable is used, then Firebase.
+ */
+export const createAuthProvider = (kind?: AuthProviderKind): AuthProvider => {
+  const resolvedKind = kind || (import.meta.env.VITE_AUTH_PROVIDER as AuthProviderKind | undefined);
+  
+  switch (resolvedKind) {
+    case 'local':
+      return createLocalAuthProvider();
+    case 'firebase':
+    default:
+      return createFirebaseAuthProvider();
+  }
+};
+
+let authProvider: AuthProvider | null = null;
+
+/**
+ * Get the provider selected for this session
+ */
+export const getAuthProvider = (): AuthProvider => {
+  if (!authProvider) {
+    authProvider = createAuthProvider();
+    console.log(`Using ${authProvider.kind} auth provider`);
+  }
+  return authProvider;
+};
+
+/**
+ * Replace the session's provider, e.g. with a local one in tests. Call it
+ * before anything signs in or reads the current user.
+ */
+export const setAuthProvider = (provider: AuthProvider): void => {
+  authProvider = provider;
+};
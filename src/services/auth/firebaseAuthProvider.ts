@@ -0,0 +1,36 @@
+/**
+ * Signs in with Firebase Auth. Supabase accepts the Firebase ID token as a
+ * third-party token (see supabase/config.toml), so its sub claim, the Firebase
+ * uid, is what row-level security compares owner_id with.
+ */
+import { onIdTokenChanged, signInWithEmailAndPassword, signOut, User } from 'firebase/auth';
+import { auth } from '@/firebaseConfig';
+import { AuthProvider, AuthUser } from '@/types/auth';
+
+const toAuthUser = (user: User): AuthUser => ({
+  uid: user.uid,
+  email: user.email,
+  displayName: user.displayName
+});
+
+export const createFirebaseAuthProvider = (): AuthProvider => ({
+  kind: 'firebase',
+  
+  getCurrentUser: () => auth.currentUser ? toAuthUser(auth.currentUser) : null,
+  
+  // Also fires when the ID token is refreshed, which Firebase does hourly while someone listens
+  subscribe: listener => onIdTokenChanged(auth, user => listener(user ? toAuthUser(user) : null)),
+  
+  signIn: async (email, password) => {
+    const credential = await signInWithEmailAndPassword(auth, email, password);
+    return toAuthUser(credential.user);
+  },
+  
+  signOut: () => signOut(auth),
+  
+  getAccessToken: async () => {
+    // A session restored from a previous visit isn't known until Firebase has started up
+    await auth.authStateReady();
+    return auth.currentUser ? auth.currentUser.getIdToken() : null;
+  }
+});
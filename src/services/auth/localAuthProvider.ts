@@ -0,0 +1,91 @@
+/**
+ * A stand-in for Firebase during development and in tests. Any email and
+ * password sign in, and the user is kept in localStorage so it survives a
+ * reload. There is no token unless VITE_LOCAL_AUTH_TOKEN holds one, e.g. a
+ * JWT signed with the secret of a local Supabase, so against a real project
+ * it is best used with the indexedDb or memory repository.
+ */
+import { AuthListener, AuthProvider, AuthUser } from '@/types/auth';
+
+const USER_KEY = 'localAuthUser';
+
+export interface LocalAuthOptions {
+  // Signed in from the start; otherwise the user saved by the last session, if any
+  user?: AuthUser | null;
+  accessToken?: string | null;
+  // Tests pass false so one test's sign-in doesn't leak into the next
+  persist?: boolean;
+}
+
+const readStoredUser = (): AuthUser | null => {
+  try {
+    const stored = localStorage.getItem(USER_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error reading local auth user from localStorage:', error);
+    return null;
+  }
+};
+
+const storeUser = (user: AuthUser | null): void => {
+  try {
+    if (user) {
+      localStorage.setItem(USER_KEY, JSON.stringify(user));
+    } else {
+      localStorage.removeItem(USER_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving local auth user to localStorage:', error);
+  }
+};
+
+// VITE_LOCAL_AUTH_UID lets a developer sign in as the owner of an existing library
+const localUserFor = (email: string): AuthUser => ({
+  uid: import.meta.env.VITE_LOCAL_AUTH_UID || `local-${email.trim().toLowerCase()}`,
+  email,
+  displayName: email.split('@')[0]
+});
+
+export const createLocalAuthProvider = ({
+  user: initialUser,
+  accessToken = import.meta.env.VITE_LOCAL_AUTH_TOKEN || null,
+  persist = true
+}: LocalAuthOptions = {}): AuthProvider => {
+  let currentUser = initialUser !== undefined ? initialUser : persist ? readStoredUser() : null;
+  const listeners = new Set<AuthListener>();
+  
+  const setUser = (user: AuthUser | null) => {
+    currentUser = user;
+    if (persist) storeUser(user);
+    listeners.forEach(listener => listener(user));
+  };
+  
+  return {
+    kind: 'local',
+    
+    getCurrentUser: () => currentUser,
+    
+    subscribe: listener => {
+      listeners.add(listener);
+      listener(currentUser);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    
+    signIn: async (email, password) => {
+      if (!email.trim() || !password) {
+        throw new Error('Enter an email and password to sign in.');
+      }
+      const user = localUserFor(email);
+      setUser(user);
+      return user;
+    },
+    
+    signOut: async () => {
+      setUser(null);
+    },
+    
+    getAccessToken: async () => currentUser ? accessToken : null
+  };
+};
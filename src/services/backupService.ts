@@ -0,0 +1,168 @@
+/**
+ * Versioned snapshots of the whole library, kept in IndexedDB so they survive
+ * whichever backend is active and can be restored into it. Each snapshot
+ * belongs to the library it was taken of, and is only listed or restored
+ * while that library is open, so users sharing a browser don't see each
+ * other's backups.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { Book } from '@/types/book';
+import { BookRepository, collectionFor } from '@/types/repository';
+import { LibraryContents, LibrarySnapshot, SnapshotDiff, SnapshotReason } from '@/types/backup';
+import { STORES, deleteRecord, getAllRecords, getRecord, putRecord } from '@/lib/indexedDb';
+
+// Covers are stored inline, so only a bounded number of snapshots is kept
+const MAX_SNAPSHOTS = 20;
+
+export const BACKUP_INTERVAL_MS = (Number(import.meta.env.VITE_BACKUP_INTERVAL_MINUTES) || 60) * 60 * 1000;
+
+// Server bookkeeping fields don't count as changes to a book. Snapshots from
+// before books could be hidden have no flag, which means the same as false.
+const fingerprint = ({ updatedAt, deletedAt, ownerId, hidden, ...book }: Book): string =>
+  JSON.stringify({ ...book, hidden: hidden || false });
+
+const libraryFingerprint = ({ books, recommendations }: LibraryContents): string =>
+  [...books, ...recommendations].map(fingerprint).sort().join('\n');
+
+// Snapshots taken before they recorded their library belong to the owner of their books
+const snapshotOwner = (snapshot: LibrarySnapshot): string | null =>
+  snapshot.ownerId !== undefined
+    ? snapshot.ownerId
+    : [...snapshot.books, ...snapshot.recommendations].find(book => book.ownerId)?.ownerId ?? null;
+
+/**
+ * Snapshots of the given library, newest first
+ */
+export const listSnapshots = async (ownerId: string | null): Promise<LibrarySnapshot[]> => {
+  try {
+    const snapshots = await getAllRecords<LibrarySnapshot>(STORES.backups);
+    return snapshots
+      .filter(snapshot => snapshotOwner(snapshot) === ownerId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (error) {
+    console.error('Error reading backups from IndexedDB:', error);
+    return [];
+  }
+};
+
+export const hasSnapshots = async (ownerId: string | null): Promise<boolean> =>
+  (await listSnapshots(ownerId)).length > 0;
+
+/**
+ * A snapshot of the given library, or undefined if there is none with that id
+ */
+export const getSnapshot = async (id: string, ownerId: string | null): Promise<LibrarySnapshot | undefined> => {
+  const snapshot = await getRecord<LibrarySnapshot>(STORES.backups, id);
+  return snapshot && snapshotOwner(snapshot) === ownerId ? snapshot : undefined;
+};
+
+export const deleteSnapshot = (id: string): Promise<void> => deleteRecord(STORES.backups, id);
+
+const pruneSnapshots = async (ownerId: string | null): Promise<void> => {
+  const snapshots = await listSnapshots(ownerId);
+  await Promise.all(snapshots.slice(MAX_SNAPSHOTS).map(snapshot => deleteSnapshot(snapshot.id)));
+};
+
+export const createSnapshot = async (
+  library: LibraryContents,
+  reason: SnapshotReason,
+  ownerId: string | null
+): Promise<LibrarySnapshot> => {
+  const snapshot: LibrarySnapshot = {
+    id: uuidv4(),
+    createdAt: new Date().toISOString(),
+    reason,
+    ownerId,
+    books: library.books,
+    recommendations: library.recommendations
+  };
+  
+  await putRecord(STORES.backups, snapshot);
+  await pruneSnapshots(ownerId);
+  
+  return snapshot;
+};
+
+/**
+ * Take a scheduled snapshot if the last one is older than the backup interval
+ * and the library has changed since. Returns the snapshot if one was taken.
+ */
+export const createScheduledSnapshot = async (
+  library: LibraryContents,
+  ownerId: string | null
+): Promise<LibrarySnapshot | null> => {
+  if (library.books.length === 0 && library.recommendations.length === 0) return null;
+  
+  try {
+    const [latest] = await listSnapshots(ownerId);
+    if (latest) {
+      const age = Date.now() - new Date(latest.createdAt).getTime();
+      if (age < BACKUP_INTERVAL_MS || libraryFingerprint(latest) === libraryFingerprint(library)) {
+        return null;
+      }
+    }
+    
+    return await createSnapshot(library, 'scheduled', ownerId);
+  } catch (error) {
+    console.error('Error creating scheduled backup:', error);
+    return null;
+  }
+};
+
+/**
+ * What restoring the snapshot would change in the current library
+ */
+export const diffSnapshot = (snapshot: LibraryContents, current: LibraryContents): SnapshotDiff => {
+  const currentBooks = new Map([...current.books, ...current.recommendations].map(book => [book.id, book]));
+  const snapshotBooks = [...snapshot.books, ...snapshot.recommendations];
+  const snapshotIds = new Set(snapshotBooks.map(book => book.id));
+  
+  return {
+    added: snapshotBooks.filter(book => !currentBooks.has(book.id)).length,
+    removed: [...currentBooks.keys()].filter(id => !snapshotIds.has(id)).length,
+    changed: snapshotBooks.filter(book => 
+      currentBooks.has(book.id) && fingerprint(currentBooks.get(book.id)) !== fingerprint(book)
+    ).length
+  };
+};
+
+/**
+ * Write a snapshot into the repository: changed books are updated, missing
+ * ones come back (from the trash if they are still there), and books added
+ * since the snapshot are moved to the trash rather than deleted.
+ */
+export const restoreSnapshot = async (
+  repository: BookRepository,
+  snapshot: LibrarySnapshot,
+  current: LibraryContents & { trash: Book[] }
+): Promise<SnapshotDiff> => {
+  const liveBooks = new Map([...current.books, ...current.recommendations].map(book => [book.id, book]));
+  const trashedIds = new Set(current.trash.map(book => book.id));
+  const snapshotBooks = [...snapshot.books, ...snapshot.recommendations];
+  const snapshotIds = new Set(snapshotBooks.map(book => book.id));
+  const diff = diffSnapshot(snapshot, current);
+  
+  const writes = snapshotBooks.map(book => {
+    const { id, updatedAt, deletedAt, ...fields } = book;
+    
+    if (liveBooks.has(id)) {
+      return fingerprint(liveBooks.get(id)) === fingerprint(book)
+        ? Promise.resolve()
+        : repository.update(id, fields, collectionFor(book));
+    }
+    if (trashedIds.has(id)) {
+      return repository.update(id, { ...fields, deletedAt: null }, collectionFor(book));
+    }
+    // Permanently deleted since, so it comes back as a new record
+    return repository.create(fields);
+  });
+  
+  const deletedAt = new Date().toISOString();
+  const removals = [...liveBooks.values()]
+    .filter(book => !snapshotIds.has(book.id))
+    .map(book => repository.update(book.id, { deletedAt }, collectionFor(book)));
+  
+  await Promise.all([...writes, ...removals]);
+  
+  return diff;
+};
@@ -0,0 +1,96 @@
+/**
+ * The owner's blocklist for recommendations sent from /recommend. It's
+ * checked by submit_recommendation on the server, which drops blocked
+ * submissions before they reach the review queue.
+ */
+import { supabase } from '@/lib/supabaseClient';
+import { Tables } from '@/integrations/supabase/types';
+import { RECOMMENDATION_BLOCKLIST_TABLE } from '@/lib/supabase';
+import { BlocklistEntry, BlocklistKind } from '@/types/submission';
+import { ValidationError } from './errors';
+import { supabaseRequest } from './supabaseConnection';
+
+type BlocklistRow = Tables<'recommendation_blocklist'>;
+
+const KINDS: BlocklistKind[] = ['email', 'name', 'phrase'];
+// An address, or a domain written as @example.com
+const EMAIL_PATTERN = /^([^\s@]+)?@[^\s@]+\.[^\s@]+$/;
+const UNIQUE_VIOLATION = '23505';
+
+// Stored the way the database compares them
+export const normalizeBlockedValue = (value: string): string => value.trim().toLowerCase();
+
+/**
+ * Why a value can't be blocked, or null if it can
+ */
+export const blockProblem = (kind: BlocklistKind, value: string): string | null => {
+  const normalized = normalizeBlockedValue(value);
+  if (!normalized) return 'Enter something to block';
+  if (normalized.length > 200) return 'Keep it under 200 characters';
+  if (kind === 'email' && !EMAIL_PATTERN.test(normalized)) return 'Use an email address, or @ and a domain to block the whole domain';
+  return null;
+};
+
+const toEntry = (row: BlocklistRow): BlocklistEntry => ({
+  id: row.id,
+  kind: KINDS.includes(row.kind as BlocklistKind) ? row.kind as BlocklistKind : 'phrase',
+  value: row.value,
+  createdAt: row.created_at
+});
+
+/**
+ * Everything the owner has blocked, newest first
+ */
+export const getBlocklist = async (ownerId: string): Promise<BlocklistEntry[]> => {
+  const result = await supabaseRequest<BlocklistRow[]>(
+    signal => supabase.from(RECOMMENDATION_BLOCKLIST_TABLE)
+      .select('*')
+      .eq('owner_id', ownerId)
+      .order('created_at', { ascending: false })
+      .abortSignal(signal)
+  );
+  
+  if (result.error) {
+    throw result.error;
+  }
+  
+  return (result.data || []).map(toEntry);
+};
+
+/**
+ * Block a sender or phrase. Blocking something already blocked does nothing.
+ * Rejects with a ValidationError for a value that can't be blocked.
+ */
+export const block = async (ownerId: string, kind: BlocklistKind, value: string): Promise<void> => {
+  const problem = blockProblem(kind, value);
+  if (problem) {
+    throw new ValidationError([`value: ${problem}`]);
+  }
+  
+  const result = await supabaseRequest(
+    signal => supabase.from(RECOMMENDATION_BLOCKLIST_TABLE)
+      .insert({ owner_id: ownerId, kind, value: normalizeBlockedValue(value) })
+      .abortSignal(signal),
+    { retries: 0 }
+  );
+  
+  if (result.error && (result.error as { code?: string }).code !== UNIQUE_VIOLATION) {
+    throw result.error;
+  }
+};
+
+/**
+ * Remove an entry, so matching submissions reach the queue again
+ */
+export const unblock = async (entryId: string): Promise<void> => {
+  const result = await supabaseRequest(
+    signal => supabase.from(RECOMMENDATION_BLOCKLIST_TABLE)
+      .delete()
+      .eq('id', entryId)
+      .abortSignal(signal)
+  );
+  
+  if (result.error) {
+    throw result.error;
+  }
+};
@@ -1,53 +1,120 @@
-
 import { Book } from '@/types/book';
-import { Tables } from '@/integrations/supabase/types';
+import { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
 import { v4 as uuidv4 } from 'uuid';
 
+// Recommendation rows share the books table's columns
+type BookRow = Tables<'books'>;
+type BookColumn = keyof BookRow;
+
+interface FieldMapping<K extends keyof Book, C extends BookColumn> {
+  column: C;
+  toColumn: (value: Book[K]) => BookRow[C];
+  fromColumn: (value: BookRow[C]) => Book[K];
+  readOnly?: boolean; // Maintained by the database and never written
+}
+
+// Any column paired with field K, typed by whichever column is named
+type FieldMappingFor<K extends keyof Book> = { [C in BookColumn]: FieldMapping<K, C> }[BookColumn];
+
+const nullIfEmpty = <T>(value: T) => value || null;
+const same = <T>(value: T) => value;
+
+/**
+ * The one place Book fields are paired with Supabase columns. Every Book field
+ * must be listed, so adding one without a column fails to compile.
+ */
+const BOOK_FIELDS = {
+  id: { column: 'id', toColumn: same, fromColumn: same },
+  title: { column: 'title', toColumn: same, fromColumn: same },
+  author: { column: 'author', toColumn: same, fromColumn: same },
+  coverUrl: { column: 'cover_url', toColumn: nullIfEmpty, fromColumn: value => value || '' },
+  dateRead: {
+    column: 'date_read',
+    toColumn: value => value ? new Date(value).toISOString() : null,
+    fromColumn: value => value ? new Date(value) : new Date()
+  },
+  color: { column: 'color', toColumn: nullIfEmpty, fromColumn: value => value || undefined },
+  genres: { column: 'genres', toColumn: value => value || [], fromColumn: value => value || [] },
+  status: { column: 'status', toColumn: same, fromColumn: value => value as Book['status'] },
+  order: { column: 'order', toColumn: value => value ?? null, fromColumn: value => value || 0 },
+  progress: { column: 'progress', toColumn: value => value ?? 0, fromColumn: value => value ?? 0 },
+  pages: { column: 'pages', toColumn: nullIfEmpty, fromColumn: value => value || 0 },
+  recommendedBy: { column: 'recommended_by', toColumn: nullIfEmpty, fromColumn: value => value || '' },
+  favorite: { column: 'favorite', toColumn: value => value || false, fromColumn: value => value || false },
+  isSeries: { column: 'is_series', toColumn: value => value || false, fromColumn: value => value || false },
+  seriesName: { column: 'series_name', toColumn: nullIfEmpty, fromColumn: value => value || undefined },
+  seriesPosition: { column: 'series_position', toColumn: nullIfEmpty, fromColumn: value => value || undefined },
+  tags: { column: 'tags', toColumn: value => value || [], fromColumn: value => value || [] },
+  email: { column: 'email', toColumn: nullIfEmpty, fromColumn: value => value || undefined },
+  updatedAt: { column: 'updated_at', toColumn: same, fromColumn: value => value || undefined, readOnly: true },
+  deletedAt: { column: 'deleted_at', toColumn: value => value || null, fromColumn: value => value || undefined },
+  ownerId: { column: 'owner_id', toColumn: nullIfEmpty, fromColumn: value => value || undefined },
+  hidden: { column: 'is_hidden', toColumn: value => value || false, fromColumn: value => value || false },
+  sourceRecommendationId: { column: 'source_recommendation_id', toColumn: nullIfEmpty, fromColumn: value => value || undefined },
+  isbn: { column: 'isbn', toColumn: nullIfEmpty, fromColumn: value => value || undefined }
+} satisfies { [K in keyof Book]-?: FieldMappingFor<K> };
+
+// Columns the app deliberately doesn't surface on Book
+type IgnoredColumn = 'created_at';
+
+// Fails to compile, naming the column, if the table gains a column no Book field maps to
+type UnmappedColumn = Exclude<BookColumn, typeof BOOK_FIELDS[keyof Book]['column'] | IgnoredColumn>;
+const allColumnsMapped: [UnmappedColumn] extends [never] ? true : UnmappedColumn = true;
+
+const BOOK_FIELD_NAMES = Object.keys(BOOK_FIELDS) as (keyof Book)[];
+
+// Each entry is checked against its own field above; this looser view lets them be iterated
+const mappingFor = (field: keyof Book) => BOOK_FIELDS[field] as FieldMapping<keyof Book, BookColumn>;
+
+const toColumns = (bookData: Partial<Book>, fields: (keyof Book)[]): Partial<BookRow> => {
+  const row: Partial<Record<BookColumn, unknown>> = {};
+  
+  fields.forEach(field => {
+    const mapping = mappingFor(field);
+    if (!mapping.readOnly) {
+      row[mapping.column] = mapping.toColumn(bookData[field]);
+    }
+  });
+  
+  return row as Partial<BookRow>;
+};
+
 // Prepare a book object for insertion into the Supabase database
-export const prepareBookForDB = (book: Omit<Book, 'id'>): any => {
-  const newBookId = uuidv4();
+export const prepareBookForDB = (book: Omit<Book, 'id'>): TablesInsert<'books'> => 
+  toColumns({ ...book, id: uuidv4() }, BOOK_FIELD_NAMES) as TablesInsert<'books'>;
+
+// Prepare a patch containing only the fields present in bookData
+export const prepareBookUpdateForDB = (bookData: Partial<Book>): TablesUpdate<'books'> => {
+  const presentFields = BOOK_FIELD_NAMES.filter(field => field !== 'id' && bookData[field] !== undefined);
+  return toColumns(bookData, presentFields);
+};
+
+const fromColumns = (dbBook: Partial<BookRow>, fields: (keyof Book)[]): Book => {
+  const book: Partial<Record<keyof Book, unknown>> = {};
   
-  return {
-    id: newBookId,
-    title: book.title,
-    author: book.author,
-    cover_url: book.coverUrl || null,
-    date_read: book.dateRead ? new Date(book.dateRead).toISOString() : null,
-    genres: book.genres || [],
-    status: book.status,
-    progress: book.progress,
-    pages: book.pages || null,
-    recommended_by: book.recommendedBy || null,
-    favorite: book.favorite || false,
-    order: book.order || null,
-    color: book.color || null,
-    is_series: book.isSeries || false,
-    series_name: book.seriesName || null,
-    series_position: book.seriesPosition || null
-  };
+  fields.forEach(field => {
+    const mapping = mappingFor(field);
+    book[field] = mapping.fromColumn(dbBook[mapping.column]);
+  });
+  
+  return book as Book;
 };
 
 // Convert a book object from the Supabase database to the Book type
-export const convertDBToBook = (dbBook: any): Book => {
-  return {
-    id: dbBook.id,
-    title: dbBook.title,
-    author: dbBook.author,
-    coverUrl: dbBook.cover_url || '',
-    dateRead: dbBook.date_read ? new Date(dbBook.date_read) : new Date(),
-    genres: dbBook.genres || [],
-    status: dbBook.status as Book['status'],
-    progress: dbBook.progress,
-    pages: dbBook.pages || 0,
-    recommendedBy: dbBook.recommended_by || '',
-    favorite: dbBook.favorite || false,
-    order: dbBook.order || 0,
-    color: dbBook.color || undefined,
-    isSeries: dbBook.is_series || false,
-    seriesName: dbBook.series_name || undefined,
-    seriesPosition: dbBook.series_position || undefined
-  };
-};
+export const convertDBToBook = (dbBook: Partial<BookRow>): Book => fromColumns(dbBook, BOOK_FIELD_NAMES);
+
+// Fields the shelf shows, and all the list views return; the rest come with the full book
+const DETAIL_FIELDS: (keyof Book)[] = ['tags', 'email', 'sourceRecommendationId'];
+const SUMMARY_FIELDS = BOOK_FIELD_NAMES.filter(field => !DETAIL_FIELDS.includes(field));
+
+// Columns of the book_list_items and recommendation_list_items views
+export type BookListRow = Omit<BookRow, 'tags' | 'email' | 'source_recommendation_id' | 'created_at'>;
+
+export const LIST_COLUMNS = SUMMARY_FIELDS.map(field => mappingFor(field).column).join(',');
+
+// Convert a list view row to a summary Book. The views have no tags, email or
+// source recommendation, so load the full book before showing or saving those.
+export const convertDBToBookSummary = (row: Partial<BookListRow>): Book => fromColumns(row, SUMMARY_FIELDS);
 
 // Create multiple books for a series
 export const createSeriesBooks = (
@@ -74,3 +141,21 @@ export const createSeriesBooks = (
   
   return seriesBooks;
 };
+
+/**
+ * The to-read book a recommendation becomes when it's accepted. Who
+ * recommended it, the cover, genres and tags carry over. The book gets an id
+ * of its own and links back to the recommendation through
+ * sourceRecommendationId; reading starts from scratch.
+ */
+export const acceptedBookFrom = (recommendation: Book): Omit<Book, 'id'> => {
+  const { id, order, updatedAt, deletedAt, favorite, progress, ...details } = recommendation;
+  return {
+    ...details,
+    status: 'to-read',
+    progress: 0,
+    favorite: false,
+    dateRead: new Date(),
+    sourceRecommendationId: id
+  };
+};
@@ -1,82 +1,107 @@
-
+/**
+ * Book operations for the UI. Every call resolves to a Result instead of
+ * throwing, so callers can tell a write that reached the server from one
+ * queued on this device, and a timeout from a rejected book.
+ */
 import { Book } from '@/types/book';
-import { v4 as uuidv4 } from 'uuid';
-import { shouldUseFallback } from '@/lib/supabase';
-import * as supabaseBookService from './supabaseBookService';
-import * as storageService from './storageService';
+import {
+  BookCollection,
+  BookPage,
+  BookRepository,
+  OrderUpdate,
+  PageOptions,
+  UpdateOptions,
+  Written
+} from '@/types/repository';
+import { Result } from '@/types/result';
+import { validateBook, validateBookPatch } from '@/lib/bookSchema';
+import { getBookRepository } from './repositories/bookRepository';
+import { BookServiceError, NotFoundError, ValidationError, toServiceError } from './errors';
 
-// Get all books
-export const getAllBooks = async (): Promise<Book[]> => {
-  // Use localStorage fallback if necessary
-  if (shouldUseFallback()) {
-    return storageService.getStoredBooks();
-  }
-  
-  return supabaseBookService.getAllBooks();
-};
+export type ServiceResult<T> = Result<T, BookServiceError>;
 
-// Get all recommendations
-export const getAllRecommendations = async (): Promise<Book[]> => {
-  // Use localStorage fallback if necessary
-  if (shouldUseFallback()) {
-    return storageService.getStoredRecommendations();
+const toResult = async <T>(operation: () => Promise<T>): Promise<ServiceResult<T>> => {
+  try {
+    return { ok: true, value: await operation() };
+  } catch (error) {
+    return { ok: false, error: toServiceError(error) };
   }
-  
-  return supabaseBookService.getAllRecommendations();
 };
 
-// Add a book
-export const addBook = async (book: Omit<Book, 'id'>): Promise<Book> => {
-  // If using localStorage, generate a new book and store it
-  if (shouldUseFallback()) {
-    const bookWithId = {
-      ...book,
-      id: uuidv4(),
-    } as Book;
-    
-    storageService.addStoredBook(bookWithId, book.status === 'recommendation');
-    return bookWithId;
+/**
+ * The value of a successful Result, or its error thrown, for code that handles
+ * every failure of a multi-step change in one place
+ */
+export const unwrap = <T>(result: ServiceResult<T>): T => {
+  if (result.ok === false) {
+    throw result.error;
   }
-  
-  return supabaseBookService.addBook(book);
+  return result.value;
 };
 
-// Update a book
-export const updateBook = async (
-  id: string, 
-  bookData: Partial<Book>, 
-  isRecommendation: boolean = false
-): Promise<Book> => {
-  // If using localStorage, update the book directly
-  if (shouldUseFallback()) {
-    const updatedBook = storageService.updateStoredBook(id, bookData, isRecommendation);
-    if (!updatedBook) {
-      throw new Error(`Book with id ${id} not found`);
+const invalid = (issues: string[]): ServiceResult<never> => ({ ok: false, error: new ValidationError(issues) });
+
+export interface BookService {
+  list: (collection: BookCollection) => Promise<ServiceResult<Book[]>>;
+  listTrash: (collection: BookCollection) => Promise<ServiceResult<Book[]>>;
+  listPage: (collection: BookCollection, options?: PageOptions) => Promise<ServiceResult<BookPage>>;
+  // The full book, including the fields list pages leave out
+  getBook: (id: string, collection: BookCollection) => Promise<ServiceResult<Book>>;
+  addBook: (book: Omit<Book, 'id'>) => Promise<ServiceResult<Written<Book>>>;
+  updateBook: (
+    id: string,
+    bookData: Partial<Book>,
+    collection: BookCollection,
+    options?: UpdateOptions
+  ) => Promise<ServiceResult<Written<Book>>>;
+  deleteBook: (id: string, collection: BookCollection) => Promise<ServiceResult<Written<void>>>;
+  updateBookOrder: (updates: OrderUpdate[]) => Promise<ServiceResult<Written<void>>>;
+  // Moves a recommendation onto the to-read shelf, resolving to the new book
+  acceptRecommendation: (id: string) => Promise<ServiceResult<Written<Book>>>;
+  getBooksInSeries: (seriesName: string) => Promise<ServiceResult<Book[]>>;
+}
+
+/**
+ * Wrap a repository so its calls return Results. Books are validated before
+ * they are written, so an invalid book fails fast with a ValidationError.
+ */
+export const createBookService = (repository: BookRepository = getBookRepository()): BookService => ({
+  list: (collection) => toResult(() => repository.list(collection)),
+  
+  listTrash: (collection) => toResult(() => repository.listTrash(collection)),
+  
+  listPage: (collection, options = {}) => toResult(() => repository.listPage(collection, options)),
+  
+  getBook: (id, collection) => toResult(async () => {
+    const book = await repository.get(id, collection);
+    if (!book) {
+      throw new NotFoundError(id);
     }
-    return updatedBook;
-  }
+    return book;
+  }),
   
-  return supabaseBookService.updateBook(id, bookData, isRecommendation);
-};
-
-// Delete a book
-export const deleteBook = async (id: string, isRecommendation: boolean = false): Promise<void> => {
-  // If using localStorage, delete the book directly
-  if (shouldUseFallback()) {
-    storageService.deleteStoredBook(id, isRecommendation);
-    return;
-  }
+  addBook: async (book) => {
+    // The id is assigned by the repository, so any placeholder passes validation
+    const validation = validateBook({ ...book, id: 'new' });
+    if (validation.success === false) {
+      return invalid(validation.issues);
+    }
+    return toResult(() => repository.create(book));
+  },
   
-  return supabaseBookService.deleteBook(id, isRecommendation);
-};
-
-// Update book order
-export const updateBookOrder = async (orderedIds: string[]): Promise<void> => {
-  // If using localStorage, update the order directly
-  if (shouldUseFallback()) {
-    storageService.updateStoredBookOrder(orderedIds);
-    return;
-  }
+  updateBook: async (id, bookData, collection, options = {}) => {
+    const issues = validateBookPatch(bookData);
+    if (issues.length > 0) {
+      return invalid(issues);
+    }
+    return toResult(() => repository.update(id, bookData, collection, options));
+  },
   
-  return supabaseBookService.updateBookOrder(orderedIds);
-};
+  deleteBook: (id, collection) => toResult(() => repository.delete(id, collection)),
+  
+  updateBookOrder: (updates) => toResult(() => repository.reorder(updates)),
+  
+  acceptRecommendation: (id) => toResult(() => repository.accept(id)),
+  
+  getBooksInSeries: (seriesName) => toResult(() => repository.listSeries(seriesName))
+});
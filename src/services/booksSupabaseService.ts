@@ -1,44 +1,57 @@
 /**
  * Service for book-related Supabase operations
  */
-import { supabase } from '@/integrations/supabase/client';
-import { BOOKS_TABLE, SupabaseResponse } from '@/lib/supabase';
+import { supabase } from '@/lib/supabaseClient';
+import { BOOKS_TABLE, BOOK_LIST_VIEW } from '@/lib/supabase';
 import { Book } from '@/types/book';
-import { prepareBookForDB, convertDBToBook } from './bookMappers';
+import { BookPage, OrderUpdate, PageOptions, UpdateOptions, Written } from '@/types/repository';
+import { Tables } from '@/integrations/supabase/types';
+import {
+  BookListRow,
+  LIST_COLUMNS,
+  prepareBookForDB,
+  prepareBookUpdateForDB,
+  convertDBToBook,
+  convertDBToBookSummary
+} from './bookMappers';
 import * as storageService from './storageService';
-import { withTimeout } from '@/utils/timeoutUtils';
-
-const TIMEOUT_MS = 5000;
+import * as outboxService from './outboxService';
+import * as quarantineService from './quarantineService';
+import { NotFoundError } from './errors';
+import { supabaseRequest } from './supabaseConnection';
+import { filterToLibrary, ownerFilter } from './libraryScope';
+import { DEFAULT_PAGE_SIZE, PAGE_ORDER, afterCursorFilter, cursorAfterRow, paginate } from './pagination';
 
 /**
  * Get all books from Supabase
  */
-export const getAllBooks = async (): Promise<Book[]> => {
+export const getAllBooks = async (ownerId: string | null = null): Promise<Book[]> => {
   try {
-    const result = await withTimeout<SupabaseResponse<any[]>>(
-      supabase.from(BOOKS_TABLE).select('*'),
-      TIMEOUT_MS,
-      () => ({ data: null, error: new Error('Fallback: Timed out fetching books') })
+    const result = await supabaseRequest<any[]>(
+      signal => supabase.from(BOOKS_TABLE).select('*').match(ownerFilter(ownerId)).abortSignal(signal)
     );
     
     if (result.error) {
       console.error('Error fetching books:', result.error);
-      const storedBooks = storageService.getStoredBooks();
+      const storedBooks = filterToLibrary(ownerId, await storageService.getStoredBooks());
       if (storedBooks.length > 0) {
-        console.log('Using localStorage fallback for books');
+        console.log('Using local fallback for books');
         return storedBooks;
       }
       throw result.error;
     }
     
-    const sortedData = (result.data || []).sort((a, b) => (a.order || 0) - (b.order || 0));
+    // Trashed rows are filtered after queued writes are applied, so a queued restore shows up right away
+    const sortedData = outboxService.applyPendingOperations(BOOKS_TABLE, result.data || [])
+      .filter(row => !row.deleted_at)
+      .sort((a, b) => (a.order || 0) - (b.order || 0));
     
-    return sortedData.map(convertDBToBook);
+    return quarantineService.filterValidBooks(sortedData.map(convertDBToBook), 'supabase', BOOKS_TABLE);
   } catch (error) {
     console.error('Error in getAllBooks:', error);
-    const storedBooks = storageService.getStoredBooks();
+    const storedBooks = filterToLibrary(ownerId, await storageService.getStoredBooks());
     if (storedBooks.length > 0) {
-      console.log('Using localStorage fallback for books after error');
+      console.log('Using local fallback for books after error');
       return storedBooks;
     }
     return [];
@@ -46,209 +59,208 @@ export const getAllBooks = async (): Promise<Book[]> => {
 };
 
 /**
- * Add a book to Supabase
+ * Get one page of books from Supabase as summaries, most recently read first
  */
-export const addBook = async (book: Omit<Book, 'id'>): Promise<Book> => {
-  const newBook = prepareBookForDB(book);
-  
+export const getBooksPage = async (
+  ownerId: string | null = null,
+  { cursor, limit = DEFAULT_PAGE_SIZE }: PageOptions = {}
+): Promise<BookPage> => {
   try {
-    console.log('Adding book to Supabase:', newBook);
-    const result = await withTimeout<SupabaseResponse<any[]>>(
-      supabase.from(BOOKS_TABLE).insert(newBook).select(),
-      TIMEOUT_MS,
-      () => ({ data: null, error: new Error('Fallback: Timed out adding book') })
-    );
+    const result = await supabaseRequest<BookListRow[]>(signal => {
+      const { column, ascending } = PAGE_ORDER.books;
+      let query = supabase.from(BOOK_LIST_VIEW)
+        .select(LIST_COLUMNS)
+        .match(ownerFilter(ownerId))
+        .is('deleted_at', null)
+        .order(column, { ascending, nullsFirst: false })
+        .order('id', { ascending: true })
+        .limit(limit + 1);
+      
+      if (cursor) {
+        query = query.or(afterCursorFilter('books', cursor));
+      }
+      return query.abortSignal(signal).returns<BookListRow[]>();
+    });
     
     if (result.error) {
-      console.error('Error adding book to Supabase:', result.error);
-      
-      const bookWithId = {
-        ...book,
-        id: newBook.id,
-      } as Book;
-      
-      storageService.addStoredBook(bookWithId, false);
-      
-      console.log('Added book to localStorage as fallback');
-      return bookWithId;
+      throw result.error;
     }
     
-    console.log('Book added successfully to Supabase:', result.data);
-    
-    const bookWithId = {
-      ...book,
-      id: newBook.id,
-    } as Book;
+    // One row past the limit is read to tell whether another page follows
+    const rows = result.data || [];
+    const pageRows = rows.slice(0, limit);
+    const nextCursor = rows.length > limit ? cursorAfterRow('books', pageRows[pageRows.length - 1]) : null;
     
-    storageService.addStoredBook(bookWithId, false);
+    const visibleRows = outboxService.applyPendingOperations(BOOKS_TABLE, pageRows, { includeInserts: !cursor })
+      .filter(row => !row.deleted_at);
     
-    return bookWithId;
+    return {
+      books: await quarantineService.filterValidBooks(visibleRows.map(convertDBToBookSummary), 'supabase', BOOKS_TABLE),
+      nextCursor
+    };
   } catch (error) {
-    console.error('Error in addBook:', error);
-    
-    const bookWithId = {
-      ...book,
-      id: newBook.id,
-    } as Book;
-    
-    storageService.addStoredBook(bookWithId, false);
-    
-    console.log('Added book to localStorage as fallback after error');
-    return bookWithId;
+    console.error('Error in getBooksPage:', error);
+    console.log('Using local fallback for books page');
+    return paginate('books', filterToLibrary(ownerId, await storageService.getStoredBooks()), { cursor, limit });
   }
 };
 
 /**
- * Update a book in Supabase
+ * Get the books in the trash from Supabase, most recently removed first
  */
-export const updateBook = async (
-  id: string, 
-  bookData: Partial<Book>
-): Promise<Book> => {
+export const getTrashedBooks = async (ownerId: string | null = null): Promise<Book[]> => {
   try {
-    // Construct update data
-    const updateData: any = {};
-    
-    if (bookData.title !== undefined) updateData.title = bookData.title;
-    if (bookData.author !== undefined) updateData.author = bookData.author;
-    if (bookData.coverUrl !== undefined) updateData.cover_url = bookData.coverUrl;
-    if (bookData.status !== undefined) updateData.status = bookData.status;
-    if (bookData.progress !== undefined) updateData.progress = bookData.progress;
-    if (bookData.pages !== undefined) updateData.pages = bookData.pages;
-    if (bookData.genres !== undefined) updateData.genres = bookData.genres;
-    if (bookData.favorite !== undefined) updateData.favorite = bookData.favorite;
-    if (bookData.color !== undefined) updateData.color = bookData.color;
-    if (bookData.dateRead !== undefined && bookData.dateRead !== null) {
-      updateData.date_read = new Date(bookData.dateRead).toISOString();
-    }
-    if (bookData.recommendedBy !== undefined) updateData.recommended_by = bookData.recommendedBy;
-    if (bookData.order !== undefined) updateData.order = bookData.order;
-    if (bookData.isSeries !== undefined) updateData.is_series = bookData.isSeries;
-    if (bookData.seriesName !== undefined) updateData.series_name = bookData.seriesName;
-    if (bookData.seriesPosition !== undefined) updateData.series_position = bookData.seriesPosition;
-    if (bookData.tags !== undefined) updateData.tags = bookData.tags;
-    if (bookData.email !== undefined) updateData.email = bookData.email;
-    
-    // Perform the update operation
-    const updateResult = await withTimeout<SupabaseResponse<any[]>>(
-      supabase.from(BOOKS_TABLE).update(updateData).eq('id', id).select(), // Add .select() to return updated record
-      TIMEOUT_MS,
-      () => ({ data: null, error: new Error(`Fallback: Timed out updating book ${id}`) })
+    const result = await supabaseRequest<Tables<'books'>[]>(
+      signal => supabase.from(BOOKS_TABLE).select('*').match(ownerFilter(ownerId)).not('deleted_at', 'is', null).abortSignal(signal)
     );
     
-    if (updateResult.error || !updateResult.data || updateResult.data.length === 0) {
-      console.error('Error updating book in Supabase or no data returned:', updateResult.error);
-      
-      // Fallback to localStorage update if Supabase fails
-      const updatedLocalBook = storageService.updateStoredBook(id, bookData, false);
-      if (!updatedLocalBook) {
-        throw new Error(`Book with id ${id} not found in localStorage either after Supabase error`);
-      }
-      console.log('Updated book in localStorage as fallback after Supabase error.');
-      return updatedLocalBook;
+    if (result.error) {
+      throw result.error;
     }
     
-    // Successfully updated in Supabase, convert the returned record
-    const updatedBookFromDB = convertDBToBook(updateResult.data[0]);
-    
-    // Also update localStorage for consistency and offline fallback
-    storageService.updateStoredBook(id, updatedBookFromDB, false);
+    const trashedData = outboxService.applyPendingOperations(BOOKS_TABLE, result.data || [])
+      .filter(row => row.deleted_at)
+      .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
     
-    return updatedBookFromDB;
-
+    return quarantineService.filterValidBooks(trashedData.map(convertDBToBook), 'supabase', BOOKS_TABLE);
   } catch (error) {
-    console.error('Error in updateBook:', error);
-    
-    // Fallback to localStorage update on general error
-    const updatedBook = storageService.updateStoredBook(id, bookData, false);
-    
-    if (!updatedBook) {
-      console.error(`Book with id ${id} not found in localStorage during error recovery`);
-      throw error; // Re-throw the original error if localStorage update also fails
-    }
-    
-    console.log('Updated book in localStorage as fallback after general error');
-    return updatedBook;
+    console.error('Error in getTrashedBooks:', error);
+    console.log('Using local fallback for trashed books');
+    return filterToLibrary(ownerId, await storageService.getStoredTrash(false));
   }
 };
 
 /**
- * Delete a book from Supabase
+ * Get a single book from Supabase
  */
-export const deleteBook = async (id: string): Promise<void> => {
+export const getBookById = async (id: string): Promise<Book | null> => {
   try {
-    const result = await withTimeout<SupabaseResponse<any>>(
-      supabase.from(BOOKS_TABLE).delete().eq('id', id),
-      TIMEOUT_MS,
-      () => ({ data: null, error: new Error(`Fallback: Timed out deleting book ${id}`) })
+    const result = await supabaseRequest<Tables<'books'>>(
+      signal => supabase.from(BOOKS_TABLE).select('*').eq('id', id).abortSignal(signal).maybeSingle()
     );
     
     if (result.error) {
-      console.error('Error deleting book from Supabase:', result.error);
+      console.error('Error fetching book from Supabase:', result.error);
+      return storageService.getStoredBook(id, false);
     }
     
-    storageService.deleteStoredBook(id, false);
+    return result.data
+      ? quarantineService.validateOrQuarantine(convertDBToBook(result.data), 'supabase', BOOKS_TABLE)
+      : null;
   } catch (error) {
-    console.error('Error in deleteBook:', error);
-    
-    storageService.deleteStoredBook(id, false);
+    console.error('Error in getBookById:', error);
+    return storageService.getStoredBook(id, false);
   }
 };
 
 /**
- * Update the order of books in Supabase
+ * Add a book to Supabase, queuing it in the outbox if the request fails
  */
-export const updateBookOrder = async (orderedIds: string[]): Promise<void> => {
-  try {
-    const updatePromises = orderedIds.map((id, index) => {
-      return withTimeout<SupabaseResponse<any>>(
-        supabase.from(BOOKS_TABLE).update({ order: index }).eq('id', id),
-        TIMEOUT_MS,
-        () => ({ data: null, error: new Error(`Fallback: Timed out updating order for book ${id}`) })
-      );
-    });
-    
-    await Promise.all(updatePromises);
+export const addBook = async (book: Omit<Book, 'id'>): Promise<Written<Book>> => {
+  const newBook = prepareBookForDB(book);
+  
+  const bookWithId = {
+    ...book,
+    id: newBook.id,
+  } as Book;
+  
+  console.log('Adding book to Supabase:', newBook);
+  const result = await outboxService.runOrEnqueue({ type: 'insert', table: BOOKS_TABLE, row: newBook });
+  
+  // Only once Supabase has the book or it is queued, so a rejected book never shows up locally
+  await storageService.writeToMirror(() => storageService.addStoredBook(bookWithId, false));
+  
+  if (result.status === 'queued') {
+    console.log('Book saved locally and queued for Supabase');
+  }
+  
+  return { value: bookWithId, status: outboxService.writeStatusOf(result) };
+};
+
+/**
+ * Update a book in Supabase, queuing the change in the outbox if the request fails.
+ * Pass expectedVersion to reject the update if the row changed since it was read.
+ */
+export const updateBook = async (
+  id: string, 
+  bookData: Partial<Book>,
+  options: UpdateOptions = {}
+): Promise<Written<Book>> => {
+  const updateData = prepareBookUpdateForDB(bookData);
+  
+  const result = await outboxService.runOrEnqueue<Tables<'books'>[]>({
+    type: 'update',
+    table: BOOKS_TABLE,
+    id,
+    patch: updateData,
+    expectedUpdatedAt: options.expectedVersion
+  });
+  
+  if (result.status === 'synced' && result.data && result.data.length > 0) {
+    // Successfully updated in Supabase, convert the returned record
+    const updatedBookFromDB = convertDBToBook(result.data[0]);
     
-    storageService.updateStoredBookOrder(orderedIds);
-  } catch (error) {
-    console.error('Error in updateBookOrder:', error);
+    // Also update the local mirror for consistency and offline fallback
+    await storageService.writeToMirror(() => storageService.updateStoredBook(id, updatedBookFromDB, false));
     
-    storageService.updateStoredBookOrder(orderedIds);
+    return { value: updatedBookFromDB, status: 'saved' };
+  }
+  
+  const updatedLocalBook = await storageService.updateStoredBook(id, bookData, false);
+  if (!updatedLocalBook) {
+    throw new NotFoundError(id, `Book with id ${id} not found in Supabase or the local mirror`);
   }
+  console.log(`Updated book in the local mirror (${result.status === 'queued' ? 'queued for Supabase' : 'not found in Supabase'})`);
+  return { value: updatedLocalBook, status: outboxService.writeStatusOf(result) };
+};
+
+/**
+ * Delete a book from Supabase, queuing the delete in the outbox if the request fails
+ */
+export const deleteBook = async (id: string): Promise<Written<void>> => {
+  const result = await outboxService.runOrEnqueue({ type: 'delete', table: BOOKS_TABLE, id });
+  await storageService.writeToMirror(() => storageService.deleteStoredBook(id, false));
+  return { value: undefined, status: outboxService.writeStatusOf(result) };
+};
+
+/**
+ * Save new positions for the moved books in one atomic request, queuing it in the outbox if it fails
+ */
+export const updateBookOrder = async (updates: OrderUpdate[]): Promise<Written<void>> => {
+  const result = await outboxService.runOrEnqueue({ type: 'reorder', updates });
+  await storageService.writeToMirror(() => storageService.updateStoredBookOrder(updates));
+  return { value: undefined, status: outboxService.writeStatusOf(result) };
 };
 
 /**
  * Get all books in a series from Supabase
  */
-export const getBooksInSeries = async (seriesName: string): Promise<Book[]> => {
+export const getBooksInSeries = async (seriesName: string, ownerId: string | null = null): Promise<Book[]> => {
   try {
-    const result = await withTimeout<SupabaseResponse<any[]>>(
-      supabase.from(BOOKS_TABLE).select('*').eq('series_name', seriesName).order('series_position', { ascending: true }),
-      TIMEOUT_MS,
-      () => ({ data: null, error: new Error(`Fallback: Timed out fetching series books for ${seriesName}`) })
+    const result = await supabaseRequest<any[]>(
+      signal => supabase.from(BOOKS_TABLE).select('*').match(ownerFilter(ownerId)).eq('series_name', seriesName).is('deleted_at', null).order('series_position', { ascending: true }).abortSignal(signal)
     );
     
     if (result.error) {
       console.error('Error fetching series books from Supabase:', result.error);
       
-      const allBooks = storageService.getStoredBooks();
+      const allBooks = filterToLibrary(ownerId, await storageService.getStoredBooks());
       const localSeriesBooks = allBooks.filter(book => book.seriesName === seriesName)
         .sort((a, b) => (a.seriesPosition || 0) - (b.seriesPosition || 0));
       
       if (localSeriesBooks.length > 0) {
-        console.log('Using localStorage fallback for series books');
+        console.log('Using local fallback for series books');
         return localSeriesBooks;
       }
       
       throw result.error;
     }
     
-    return (result.data || []).map(convertDBToBook);
+    return quarantineService.filterValidBooks((result.data || []).map(convertDBToBook), 'supabase', BOOKS_TABLE);
   } catch (error) {
     console.error('Error in getBooksInSeries:', error);
     
-    const allBooks = storageService.getStoredBooks();
+    const allBooks = filterToLibrary(ownerId, await storageService.getStoredBooks());
     const localSeriesBooks = allBooks.filter(book => book.seriesName === seriesName)
       .sort((a, b) => (a.seriesPosition || 0) - (b.seriesPosition || 0));
     
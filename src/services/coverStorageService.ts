@@ -0,0 +1,195 @@
+/**
+ * Stores uploaded cover images as files and hands back the URL that goes in
+ * coverUrl. Covers go to a Supabase Storage bucket, or during development to
+ * a folder on the Vite dev server.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '@/lib/supabaseClient';
+import { shouldUseFallback } from '@/lib/supabase';
+import { Book } from '@/types/book';
+
+export const COVER_BUCKET = 'covers';
+
+// Uploads are cropped and scaled to the 2:3 shape of the bookshelf cards
+export const COVER_WIDTH = 400;
+export const COVER_HEIGHT = 600;
+const COVER_TYPE = 'image/jpeg';
+const COVER_QUALITY = 0.85;
+
+// Served by the localCoverStorage plugin in vite.config.ts
+const LOCAL_COVER_PATH = '/dev-covers/';
+
+type CoverStorageKind = 'supabase' | 'local';
+
+interface CoverStore {
+  upload: (name: string, blob: Blob) => Promise<string>;
+  remove: (name: string) => Promise<void>;
+  // The file name for a URL this store handed out, or null if the URL is not ours
+  nameFor: (url: string) => string | null;
+}
+
+const supabaseCoverStore: CoverStore = {
+  upload: async (name, blob) => {
+    const { error } = await supabase.storage
+      .from(COVER_BUCKET)
+      .upload(name, blob, { contentType: COVER_TYPE, cacheControl: '31536000' });
+    
+    if (error) throw error;
+    
+    return supabase.storage.from(COVER_BUCKET).getPublicUrl(name).data.publicUrl;
+  },
+  
+  remove: async (name) => {
+    const { error } = await supabase.storage.from(COVER_BUCKET).remove([name]);
+    if (error) throw error;
+  },
+  
+  nameFor: (url) => {
+    const prefix = supabase.storage.from(COVER_BUCKET).getPublicUrl('').data.publicUrl;
+    return url.startsWith(prefix) ? url.slice(prefix.length) : null;
+  }
+};
+
+const localCoverStore: CoverStore = {
+  upload: async (name, blob) => {
+    const response = await fetch(`${LOCAL_COVER_PATH}${name}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': COVER_TYPE },
+      body: blob
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Local cover storage returned ${response.status}`);
+    }
+    
+    return `${LOCAL_COVER_PATH}${name}`;
+  },
+  
+  remove: async (name) => {
+    const response = await fetch(`${LOCAL_COVER_PATH}${name}`, { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Local cover storage returned ${response.status}`);
+    }
+  },
+  
+  nameFor: (url) => url.startsWith(LOCAL_COVER_PATH) ? url.slice(LOCAL_COVER_PATH.length) : null
+};
+
+const STORES: Record<CoverStorageKind, CoverStore> = {
+  supabase: supabaseCoverStore,
+  local: localCoverStore
+};
+
+/**
+ * The store new uploads go to: VITE_COVER_STORAGE if set, then the Supabase availability check
+ */
+const activeStore = (): CoverStore => {
+  const requestedKind = import.meta.env.VITE_COVER_STORAGE as CoverStorageKind | undefined;
+  const resolvedKind = requestedKind || (shouldUseFallback() ? 'local' : 'supabase');
+  return STORES[resolvedKind] || supabaseCoverStore;
+};
+
+const loadImage = (file: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const objectUrl = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(objectUrl);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new Error('The selected file could not be read as an image'));
+    };
+    image.src = objectUrl;
+  });
+
+/**
+ * Scale an image to the standard cover size, cropping from the centre to keep the 2:3 shape
+ */
+export const resizeCover = async (file: Blob): Promise<Blob> => {
+  const image = await loadImage(file);
+  
+  const scale = Math.max(COVER_WIDTH / image.naturalWidth, COVER_HEIGHT / image.naturalHeight);
+  const sourceWidth = COVER_WIDTH / scale;
+  const sourceHeight = COVER_HEIGHT / scale;
+  
+  const canvas = document.createElement('canvas');
+  canvas.width = COVER_WIDTH;
+  canvas.height = COVER_HEIGHT;
+  
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not available for resizing covers');
+  }
+  
+  // JPEG has no transparency, so transparent areas become white instead of black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, COVER_WIDTH, COVER_HEIGHT);
+  context.drawImage(
+    image,
+    (image.naturalWidth - sourceWidth) / 2,
+    (image.naturalHeight - sourceHeight) / 2,
+    sourceWidth,
+    sourceHeight,
+    0,
+    0,
+    COVER_WIDTH,
+    COVER_HEIGHT
+  );
+  
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error('Could not encode the resized cover')),
+      COVER_TYPE,
+      COVER_QUALITY
+    );
+  });
+};
+
+/**
+ * Resize an uploaded image and store it in the library's folder, returning the
+ * URL to save in coverUrl. Only the library's owner and editors may write there.
+ */
+export const uploadCover = async (file: Blob, libraryOwnerId: string | null): Promise<string> => {
+  const resized = await resizeCover(file);
+  const name = `${uuidv4()}.jpg`;
+  return activeStore().upload(libraryOwnerId ? `${libraryOwnerId}/${name}` : name, resized);
+};
+
+/**
+ * Delete a stored cover file. URLs that point elsewhere (pasted links, inline
+ * images) are left alone, and failures are logged rather than thrown.
+ */
+export const deleteCover = async (url: string | undefined): Promise<void> => {
+  if (!url) return;
+  
+  for (const store of Object.values(STORES)) {
+    const name = store.nameFor(url);
+    if (!name) continue;
+    
+    try {
+      await store.remove(name);
+    } catch (error) {
+      console.error(`Error deleting cover ${name}:`, error);
+    }
+    return;
+  }
+};
+
+/**
+ * Delete the covers of books that were removed or given a new cover, keeping
+ * any cover another book in the library still points at (series share one)
+ */
+export const releaseCovers = async (released: Book[], library: Book[]): Promise<void> => {
+  const releasedIds = new Set(released.map(book => book.id));
+  const coversInUse = new Set(library
+    .filter(book => !releasedIds.has(book.id))
+    .map(book => book.coverUrl));
+  
+  const unusedCovers = new Set(released
+    .map(book => book.coverUrl)
+    .filter(url => url && !coversInUse.has(url)));
+  
+  await Promise.all([...unusedCovers].map(deleteCover));
+};
@@ -0,0 +1,191 @@
+import { Book } from '@/types/book';
+
+export type ServiceErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'not-found'
+  | 'conflict'
+  | 'validation'
+  | 'forbidden'
+  | 'quota'
+  | 'unknown';
+
+/**
+ * Base class for failures reported by the book services. The kind tells the UI
+ * what went wrong, and retryable whether trying the same call again could help.
+ */
+export abstract class BookServiceError extends Error {
+  abstract readonly kind: ServiceErrorKind;
+  abstract readonly retryable: boolean;
+  readonly cause?: unknown;
+  
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.cause = cause;
+  }
+}
+
+/**
+ * The request never got a response, e.g. the browser is offline or Supabase is unreachable
+ */
+export class NetworkError extends BookServiceError {
+  readonly kind = 'network';
+  readonly retryable = true;
+  
+  constructor(message = 'Could not reach the server', cause?: unknown) {
+    super(message, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The request took longer than its time limit
+ */
+export class TimeoutError extends BookServiceError {
+  readonly kind = 'timeout';
+  readonly retryable = true;
+  readonly timeoutMs: number;
+  
+  constructor(timeoutMs: number, cause?: unknown) {
+    super(`Request timed out after ${timeoutMs}ms`, cause);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The book does not exist in the repository (or in the local mirror)
+ */
+export class NotFoundError extends BookServiceError {
+  readonly kind = 'not-found';
+  readonly retryable = false;
+  readonly id: string;
+  
+  constructor(id: string, message = `Book with id ${id} not found`) {
+    super(message);
+    this.name = 'NotFoundError';
+    this.id = id;
+  }
+}
+
+/**
+ * Thrown when an update was made against an out-of-date version of a book.
+ * Carries the current server copy so the caller can merge.
+ */
+export class BookConflictError extends BookServiceError {
+  readonly kind = 'conflict';
+  readonly retryable = false;
+  readonly id: string;
+  readonly remote: Book;
+  
+  constructor(id: string, remote: Book) {
+    super(`Book ${id} was changed by someone else`);
+    this.name = 'BookConflictError';
+    this.id = id;
+    this.remote = remote;
+  }
+}
+
+/**
+ * The book was rejected before or by the server because a field is invalid
+ */
+export class ValidationError extends BookServiceError {
+  readonly kind = 'validation';
+  readonly retryable = false;
+  readonly issues: string[];
+  
+  constructor(issues: string[], cause?: unknown) {
+    super(`Invalid book: ${issues.join('; ')}`, cause);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * The server refused the write because the book is not in the signed-in user's library
+ */
+export class PermissionError extends BookServiceError {
+  readonly kind = 'forbidden';
+  readonly retryable = false;
+  
+  constructor(message = 'You can only change books in your own library', cause?: unknown) {
+    super(message, cause);
+    this.name = 'PermissionError';
+  }
+}
+
+/**
+ * Browser storage is full, or the server refused the write for size, plan or rate limits
+ */
+export class QuotaError extends BookServiceError {
+  readonly kind = 'quota';
+  readonly retryable = false;
+  
+  constructor(message = 'Storage is full', cause?: unknown) {
+    super(message, cause);
+    this.name = 'QuotaError';
+  }
+}
+
+/**
+ * Anything the classifier below does not recognise
+ */
+export class UnknownServiceError extends BookServiceError {
+  readonly kind = 'unknown';
+  readonly retryable = false;
+  
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'UnknownServiceError';
+  }
+}
+
+// PostgREST and Postgres codes that mean the row itself was rejected
+const VALIDATION_CODES = new Set(['22001', '22003', '22007', '22P02', '23502', '23514', 'PGRST204']);
+// P0002 is raised by functions that find nothing to act on
+const NOT_FOUND_CODES = new Set(['PGRST116', 'P0002']);
+// PT429 is raised by functions that limit how often they may be called
+const QUOTA_CODES = new Set(['53100', '54000', 'PT429']);
+// Row-level security rejected the row, or the caller's role lacks the privilege
+const PERMISSION_CODES = new Set(['42501']);
+
+const errorMessage = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message);
+  return String(error);
+};
+
+/**
+ * Turn anything thrown by Supabase, fetch, IndexedDB or localStorage into a BookServiceError
+ */
+export const toServiceError = (error: unknown): BookServiceError => {
+  if (error instanceof BookServiceError) {
+    return error;
+  }
+  
+  const message = errorMessage(error);
+  const code = error && typeof error === 'object' && 'code' in error ? String(error.code) : undefined;
+  
+  // Both IndexedDB and localStorage report a full disk as a QuotaExceededError DOMException
+  if ((error instanceof DOMException && error.name === 'QuotaExceededError') || (code && QUOTA_CODES.has(code))) {
+    return new QuotaError(message, error);
+  }
+  if (code && VALIDATION_CODES.has(code)) {
+    return new ValidationError([message], error);
+  }
+  if (code && PERMISSION_CODES.has(code)) {
+    return new PermissionError(message, error);
+  }
+  if (code && NOT_FOUND_CODES.has(code)) {
+    return new NotFoundError('', message);
+  }
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new NetworkError('The request was cancelled', error);
+  }
+  // fetch rejects with a TypeError when the request never reached the server
+  if (error instanceof TypeError || /failed to fetch|network|load failed/i.test(message)) {
+    return new NetworkError(message, error);
+  }
+  
+  return new UnknownServiceError(message, error);
+};
@@ -0,0 +1,72 @@
+/**
+ * Adds books brought in from other apps. Every book is validated first, and
+ * invalid ones are quarantined as coming from an import, so they're reported
+ * rather than silently left out.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { Book } from '@/types/book';
+import { ImportSummary } from '@/types/import';
+import { BookService } from './bookService';
+import * as quarantineService from './quarantineService';
+
+// A few at a time, so a large library doesn't open hundreds of requests at once
+const BATCH_SIZE = 10;
+
+/**
+ * Run the task on the items a batch at a time, waiting for each batch before
+ * starting the next. onBatch gets each batch's results and how many items are
+ * done so far. Resolves with every result, in the order of the items.
+ */
+export const inBatches = async <T, R>(
+  items: T[],
+  task: (item: T) => Promise<R>,
+  onBatch?: (results: R[], done: number) => void
+): Promise<R[]> => {
+  const results: R[] = [];
+  
+  for (let start = 0; start < items.length; start += BATCH_SIZE) {
+    const batchResults = await Promise.all(items.slice(start, start + BATCH_SIZE).map(item => task(item)));
+    results.push(...batchResults);
+    onBatch?.(batchResults, Math.min(start + BATCH_SIZE, items.length));
+  }
+  
+  return results;
+};
+
+/**
+ * Add the books to the library through the service, reporting progress after
+ * each batch. Books that fail are counted rather than stopping the import.
+ */
+export const importBooks = async (
+  service: BookService,
+  books: Omit<Book, 'id'>[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportSummary> => {
+  // Validation needs an id to quarantine a record under; the repository assigns the real one
+  const records = books.map(book => ({ ...book, id: `import-${uuidv4()}` }));
+  const valid = await quarantineService.filterValidBooks(records, 'import', 'books');
+  
+  const added: Book[] = [];
+  let failed = 0;
+  let anyQueued = false;
+  
+  await inBatches(valid, ({ id, ...book }) => service.addBook(book), (results, done) => {
+    results.forEach(result => {
+      if (result.ok === true) {
+        added.push(result.value.value);
+        anyQueued = anyQueued || result.value.status === 'queued';
+      } else {
+        failed++;
+        console.error('Error importing book:', result.error);
+      }
+    });
+    onProgress?.(done, valid.length);
+  });
+  
+  return {
+    added,
+    invalid: books.length - valid.length,
+    failed,
+    status: anyQueued ? 'queued' : 'saved'
+  };
+};
@@ -0,0 +1,34 @@
+/**
+ * Which library is open. Signed-in users get their own at /library, and the
+ * ones shared with them at /library/:ownerId; signed-out visitors see what
+ * the public page of the library named by VITE_LIBRARY_OWNER_ID shows. With
+ * neither, every book is shown, as before libraries had owners.
+ */
+import { Book } from '@/types/book';
+
+export const DEFAULT_LIBRARY_OWNER: string | null = import.meta.env.VITE_LIBRARY_OWNER_ID || null;
+
+/**
+ * The owner of the library to open for a user id from the current session
+ */
+export const libraryOwnerFor = (userId: string | null | undefined): string | null =>
+  userId || DEFAULT_LIBRARY_OWNER;
+
+/**
+ * Whether a book is in the given library. Books saved without an owner, such
+ * as those left on this device from before, count as part of any library.
+ */
+export const isInLibrary = (ownerId: string | null, book: Pick<Book, 'ownerId'>): boolean =>
+  !ownerId || !book.ownerId || book.ownerId === ownerId;
+
+/**
+ * Keep the books in the given library
+ */
+export const filterToLibrary = (ownerId: string | null, books: Book[]): Book[] =>
+  books.filter(book => isInLibrary(ownerId, book));
+
+/**
+ * Filter for Supabase's .match() that keeps a query to one library's rows
+ */
+export const ownerFilter = (ownerId: string | null): Record<string, string> =>
+  ownerId ? { owner_id: ownerId } : {};
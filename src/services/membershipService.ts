@@ -0,0 +1,148 @@
+/**
+ * Memberships of shared libraries: the role an owner has given a user, the
+ * owner's list of members, and the libraries shared with the signed-in user.
+ * Role lookups are kept for the session, as memberships rarely change while
+ * the app is open.
+ */
+import { supabase } from '@/lib/supabaseClient';
+import { Database } from '@/integrations/supabase/types';
+import { LIBRARY_MEMBERS_TABLE } from '@/lib/supabase';
+import { isMemberRole } from '@/lib/permissions';
+import { LibraryMember, MemberRole, SharedLibrary } from '@/types/permissions';
+import { supabaseRequest } from './supabaseConnection';
+
+type MemberRow = Database['public']['Functions']['list_library_members']['Returns'][number];
+type SharedLibraryRow = Database['public']['Functions']['list_shared_libraries']['Returns'][number];
+
+const memberRoles = new Map<string, Promise<MemberRole | null>>();
+
+const fetchMemberRole = async (libraryOwnerId: string, userId: string): Promise<MemberRole | null> => {
+  const result = await supabaseRequest<{ role: string } | null>(
+    signal => supabase.from(LIBRARY_MEMBERS_TABLE)
+      .select('role')
+      .eq('library_owner_id', libraryOwnerId)
+      .eq('user_id', userId)
+      .abortSignal(signal)
+      .maybeSingle()
+  );
+
+  if (result.error) {
+    throw result.error;
+  }
+
+  return isMemberRole(result.data?.role) ? result.data.role : null;
+};
+
+/**
+ * The user's role in the library, or null if it isn't shared with them.
+ * Failed lookups also give null and are tried again on the next call.
+ */
+export const getMemberRole = (libraryOwnerId: string, userId: string): Promise<MemberRole | null> => {
+  const key = `${libraryOwnerId}:${userId}`;
+  const cached = memberRoles.get(key);
+  if (cached) return cached;
+
+  const lookup = fetchMemberRole(libraryOwnerId, userId).catch(error => {
+    console.error('Error looking up library membership:', error);
+    memberRoles.delete(key);
+    return null;
+  });
+  memberRoles.set(key, lookup);
+  return lookup;
+};
+
+/**
+ * The people the signed-in owner has shared their library with
+ */
+export const listMembers = async (): Promise<LibraryMember[]> => {
+  const result = await supabaseRequest<MemberRow[]>(
+    signal => supabase.rpc('list_library_members').abortSignal(signal)
+  );
+
+  if (result.error) {
+    throw result.error;
+  }
+
+  return (result.data || [])
+    .filter(row => isMemberRole(row.role))
+    .map(row => ({
+      userId: row.user_id,
+      role: row.role as MemberRole,
+      handle: row.handle || undefined,
+      displayName: row.display_name || undefined
+    }));
+};
+
+/**
+ * Share the signed-in owner's library with the user whose library page has
+ * the given handle, or change their role if it's already shared with them.
+ * Rejects with a NotFoundError when no library has the handle.
+ */
+export const addMember = async (handle: string, role: MemberRole): Promise<void> => {
+  const result = await supabaseRequest<unknown>(
+    signal => supabase.rpc('add_library_member', { member_handle: handle, member_role: role }).abortSignal(signal),
+    { retries: 0 }
+  );
+
+  if (result.error) {
+    throw result.error;
+  }
+};
+
+export const setMemberRole = async (libraryOwnerId: string, userId: string, role: MemberRole): Promise<void> => {
+  const result = await supabaseRequest<unknown>(
+    signal => supabase.from(LIBRARY_MEMBERS_TABLE)
+      .update({ role })
+      .eq('library_owner_id', libraryOwnerId)
+      .eq('user_id', userId)
+      .abortSignal(signal),
+    { retries: 0 }
+  );
+
+  if (result.error) {
+    throw result.error;
+  }
+};
+
+export const removeMember = async (libraryOwnerId: string, userId: string): Promise<void> => {
+  const result = await supabaseRequest<unknown>(
+    signal => supabase.from(LIBRARY_MEMBERS_TABLE)
+      .delete()
+      .eq('library_owner_id', libraryOwnerId)
+      .eq('user_id', userId)
+      .abortSignal(signal),
+    { retries: 0 }
+  );
+
+  if (result.error) {
+    throw result.error;
+  }
+};
+
+/**
+ * What to call a shared library: its owner's display name, else their handle
+ */
+export const sharedLibraryName = (library: SharedLibrary): string =>
+  library.displayName || (library.handle ? `@${library.handle}` : 'A shared library');
+
+/**
+ * The libraries other users have shared with the signed-in user
+ */
+export const listSharedLibraries = async (): Promise<SharedLibrary[]> => {
+  const result = await supabaseRequest<SharedLibraryRow[]>(
+    signal => supabase.rpc('list_shared_libraries').abortSignal(signal)
+  );
+
+  if (result.error) {
+    throw result.error;
+  }
+
+  return (result.data || [])
+    .filter(row => isMemberRole(row.role))
+    .map(row => ({
+      ownerId: row.library_owner_id,
+      role: row.role as MemberRole,
+      handle: row.handle || undefined,
+      displayName: row.display_name || undefined
+    }));
+};
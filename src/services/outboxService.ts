@@ -0,0 +1,493 @@
+/**
+ * Durable outbox for Supabase writes that could not be delivered.
+ * Entries are kept in localStorage and replayed in order once the connection returns.
+ * Each entry belongs to the user who made the write, and is only counted,
+ * shown and replayed while that user is signed in on this device.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '@/lib/supabaseClient';
+import { BOOKS_TABLE, RECOMMENDATIONS_TABLE, SupabaseResponse } from '@/lib/supabase';
+import {
+  OutboxCounts,
+  OutboxEntry,
+  OutboxOperation,
+  OutboxResult,
+  OutboxTable
+} from '@/types/outbox';
+import { WriteStatus } from '@/types/repository';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { convertDBToBook } from './bookMappers';
+import { rebalanceOrder } from '@/utils/orderUtils';
+import { EchoTarget, expectEchoes } from './realtimeEchoes';
+import { BookConflictError, BookServiceError, NotFoundError, PermissionError, toServiceError } from './errors';
+import { isLocalMode, subscribeToConnection, supabaseRequest } from './supabaseConnection';
+import { getAuthProvider } from './auth/authProvider';
+
+const OUTBOX_KEY = 'outbox';
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+type OutboxListener = (counts: OutboxCounts) => void;
+
+const listeners = new Set<OutboxListener>();
+let isReplaying = false;
+let replayTimer: ReturnType<typeof setTimeout> | null = null;
+let isStarted = false;
+
+const currentUserId = (): string | null => getAuthProvider().getCurrentUser()?.uid ?? null;
+
+// Entries queued before they recorded a user belong to the owner of the row they add, if any
+const legacyUserIdFor = (operation: OutboxOperation): string | null =>
+  operation.type === 'insert' || operation.type === 'accept' ? operation.row.owner_id ?? null : null;
+
+// Reorders queued by earlier versions listed every id rather than the new positions
+const upgradeLegacyEntry = (entry: OutboxEntry): OutboxEntry => {
+  const operation = entry.operation as OutboxOperation & { orderedIds?: string[] };
+  const upgraded = entry.userId === undefined ? { ...entry, userId: legacyUserIdFor(operation) } : entry;
+  if (operation.type === 'reorder' && operation.orderedIds) {
+    return { ...upgraded, operation: { type: 'reorder', updates: rebalanceOrder(operation.orderedIds) } };
+  }
+  return upgraded;
+};
+
+// Every user's entries, for rewriting the stored outbox
+const readAllEntries = (): OutboxEntry[] => {
+  try {
+    const stored = localStorage.getItem(OUTBOX_KEY);
+    const entries: OutboxEntry[] = stored ? JSON.parse(stored) : [];
+    return entries.map(upgradeLegacyEntry).sort((a, b) => a.sequence - b.sequence);
+  } catch (error) {
+    console.error('Error reading outbox from localStorage:', error);
+    return [];
+  }
+};
+
+const isOwnEntry = (entry: OutboxEntry, userId: string | null = currentUserId()): boolean =>
+  entry.userId === userId;
+
+/**
+ * The signed-in user's entries, oldest first
+ */
+export const getOutboxEntries = (): OutboxEntry[] => {
+  const userId = currentUserId();
+  return readAllEntries().filter(entry => isOwnEntry(entry, userId));
+};
+
+export const getOutboxCounts = (): OutboxCounts => {
+  const entries = getOutboxEntries();
+  return {
+    pending: entries.filter(entry => entry.status === 'pending').length,
+    failed: entries.filter(entry => entry.status === 'failed').length
+  };
+};
+
+const saveOutboxEntries = (entries: OutboxEntry[]): void => {
+  try {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Error saving outbox to localStorage:', error);
+  }
+  
+  const counts = getOutboxCounts();
+  listeners.forEach(listener => listener(counts));
+};
+
+const updateEntry = (id: string, changes: Partial<OutboxEntry>): void => {
+  saveOutboxEntries(readAllEntries().map(entry => entry.id === id ? { ...entry, ...changes } : entry));
+};
+
+const removeEntry = (id: string): void => {
+  saveOutboxEntries(readAllEntries().filter(entry => entry.id !== id));
+};
+
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getRetryDelay = (attempts: number): number => {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempts, MAX_RETRY_DELAY_MS);
+  // Jitter keeps several tabs from retrying in lockstep
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+const enqueue = (operation: OutboxOperation, lastError?: string): OutboxEntry => {
+  const entries = readAllEntries();
+  const lastSequence = entries.length > 0 ? entries[entries.length - 1].sequence : 0;
+  const now = new Date().toISOString();
+  
+  const entry: OutboxEntry = {
+    id: uuidv4(),
+    sequence: lastSequence + 1,
+    userId: currentUserId(),
+    operation,
+    status: 'pending',
+    attempts: 0,
+    createdAt: now,
+    nextAttemptAt: now,
+    lastError
+  };
+  
+  saveOutboxEntries([...entries, entry]);
+  console.log(`Queued ${operation.type} in outbox (sequence ${entry.sequence})`);
+  
+  scheduleReplay(getRetryDelay(0));
+  return entry;
+};
+
+// Rows whose realtime events this operation will trigger
+const echoTargetsFor = (operation: OutboxOperation): EchoTarget[] => {
+  switch (operation.type) {
+    case 'insert':
+      return [{ table: operation.table, id: operation.row.id }];
+    case 'update':
+    case 'delete':
+      return [{ table: operation.table, id: operation.id }];
+    case 'reorder':
+      return operation.updates.map(({ id }) => ({ table: BOOKS_TABLE, id }));
+    case 'accept':
+      return [{ table: BOOKS_TABLE, id: operation.row.id }, { table: RECOMMENDATIONS_TABLE, id: operation.recommendationId }];
+  }
+};
+
+/**
+ * Send one operation to Supabase, throwing if it was not applied
+ */
+const executeOperation = async <T>(operation: OutboxOperation): Promise<T> => {
+  const forgetEchoes = expectEchoes(echoTargetsFor(operation));
+  
+  try {
+    return await sendOperation<T>(operation);
+  } catch (error) {
+    forgetEchoes();
+    throw error;
+  }
+};
+
+const sendOperation = async <T>(operation: OutboxOperation): Promise<T> => {
+  if (operation.type === 'reorder') {
+    // One statement on the server, so either every position is saved or none is
+    const result = await supabaseRequest<unknown>(
+      signal => supabase.rpc('reorder_books', { updates: operation.updates.map(({ id, order }) => ({ id, order })) }).abortSignal(signal),
+      { retries: 0 }
+    );
+    
+    if (result.error) {
+      throw result.error;
+    }
+    return null as T;
+  }
+  
+  if (operation.type === 'accept') {
+    // Both tables change in one statement, so the recommendation is never lost or left on both shelves
+    const result = await supabaseRequest<T>(
+      signal => supabase.rpc('accept_recommendation', {
+        recommendation_id: operation.recommendationId,
+        book: operation.row as Json
+      }).abortSignal(signal) as PromiseLike<SupabaseResponse<T>>,
+      { retries: 0 }
+    );
+    
+    if (result.error) {
+      throw result.error;
+    }
+    return result.data;
+  }
+  
+  const table = supabase.from(operation.table as typeof BOOKS_TABLE);
+  
+  // The outbox has its own retry schedule, so each send is a single attempt
+  const result = await supabaseRequest<T>(signal => {
+    switch (operation.type) {
+      case 'insert':
+        // A replayed insert may already have landed if an earlier attempt timed out after reaching the server
+        return table.upsert(operation.row, { onConflict: 'id', ignoreDuplicates: true }).select().abortSignal(signal) as PromiseLike<SupabaseResponse<T>>;
+      case 'update': {
+        let query = table.update(operation.patch).eq('id', operation.id);
+        if (operation.expectedUpdatedAt) {
+          query = query.eq('updated_at', operation.expectedUpdatedAt);
+        }
+        return query.select().abortSignal(signal) as PromiseLike<SupabaseResponse<T>>;
+      }
+      case 'delete':
+        return table.delete().eq('id', operation.id).select('id').abortSignal(signal) as PromiseLike<SupabaseResponse<T>>;
+    }
+  }, { retries: 0 });
+  if (result.error) {
+    throw result.error;
+  }
+  
+  // Row-level security skips rows the user may not change without raising an error
+  if (operation.type === 'update' && isEmptyResult(result.data)) {
+    await explainSkippedUpdate(operation.table, operation.id, operation.expectedUpdatedAt);
+  }
+  if (operation.type === 'delete' && isEmptyResult(result.data) && await fetchRow(operation.table, operation.id)) {
+    throw new PermissionError();
+  }
+  
+  return result.data;
+};
+
+const isEmptyResult = (data: unknown): boolean => !data || (Array.isArray(data) && data.length === 0);
+
+const fetchRow = async (table: OutboxTable, id: string): Promise<Tables<'books'> | null> => {
+  const current = await supabaseRequest<Tables<'books'>>(
+    signal => supabase.from(table as typeof BOOKS_TABLE).select('*').eq('id', id).abortSignal(signal).maybeSingle()
+  );
+  
+  if (current.error) {
+    throw current.error;
+  }
+  return current.data;
+};
+
+/**
+ * An update that matched no rows hit a missing record, a newer version than
+ * the one expected, or a record the user may see but not change. Throws a
+ * NotFoundError, BookConflictError or PermissionError to say which.
+ */
+const explainSkippedUpdate = async (table: OutboxTable, id: string, expectedUpdatedAt?: string): Promise<never> => {
+  const current = await fetchRow(table, id);
+  
+  if (!current) {
+    throw new NotFoundError(id);
+  }
+  if (expectedUpdatedAt && current.updated_at !== expectedUpdatedAt) {
+    throw new BookConflictError(id, convertDBToBook(current));
+  }
+  throw new PermissionError();
+};
+
+// Later queued edits of the same record were based on the version we just replaced
+const rebaseQueuedVersions = (id: string, previousVersion: string, newVersion: string): void => {
+  saveOutboxEntries(readAllEntries().map(entry => {
+    const { operation } = entry;
+    if (operation.type === 'update' && operation.id === id && operation.expectedUpdatedAt === previousVersion) {
+      return { ...entry, operation: { ...operation, expectedUpdatedAt: newVersion } };
+    }
+    return entry;
+  }));
+};
+
+// Conflicts need a decision from the user, and rejected or oversized rows fail the
+// same way every time, so queuing them for another attempt would not help
+const isPermanentFailure = (error: BookServiceError): boolean =>
+  !error.retryable && error.kind !== 'unknown';
+
+/**
+ * Where a write sent through runOrEnqueue ended up
+ */
+export const writeStatusOf = (result: OutboxResult<unknown>): WriteStatus =>
+  result.status === 'queued' ? 'queued' : 'saved';
+
+const hasPendingEntries = (): boolean => getOutboxEntries().some(entry => entry.status === 'pending');
+
+const targetKey = ({ table, id }: EchoTarget): string => `${table}:${id}`;
+
+// Rows touched by writes that gave up, which later writes to the same rows must wait behind
+const failedTargets = (entries: OutboxEntry[]): Set<string> =>
+  new Set(entries.filter(entry => entry.status === 'failed').flatMap(entry => echoTargetsFor(entry.operation).map(targetKey)));
+
+const dependsOnFailed = (operation: OutboxOperation, targets: Set<string>): boolean =>
+  echoTargetsFor(operation).some(target => targets.has(targetKey(target)));
+
+/**
+ * Send a write to Supabase, or queue it if the outbox is already holding
+ * earlier writes or the request fails.
+ */
+export const runOrEnqueue = async <T>(operation: OutboxOperation): Promise<OutboxResult<T>> => {
+  // Writes must reach Supabase in the order they were made, and local mode sends nothing
+  if (hasPendingEntries() || isLocalMode() || dependsOnFailed(operation, failedTargets(getOutboxEntries()))) {
+    enqueue(operation);
+    return { status: 'queued' };
+  }
+  
+  try {
+    const data = await executeOperation<T>(operation);
+    return { status: 'synced', data };
+  } catch (error) {
+    const serviceError = toServiceError(error);
+    if (isPermanentFailure(serviceError)) {
+      throw serviceError;
+    }
+    console.error(`Error sending ${operation.type} to Supabase, queuing in outbox:`, error);
+    enqueue(operation, serviceError.message);
+    return { status: 'queued' };
+  }
+};
+
+const scheduleReplay = (delayMs: number): void => {
+  if (replayTimer) {
+    clearTimeout(replayTimer);
+  }
+  replayTimer = setTimeout(() => {
+    replayTimer = null;
+    replayOutbox();
+  }, delayMs);
+};
+
+/**
+ * Replay pending entries oldest first. Stops at the first transient failure so
+ * later writes are not applied ahead of it. Once an entry gives up, later
+ * writes to the same rows fail with it rather than being applied out of order.
+ */
+export const replayOutbox = async (): Promise<void> => {
+  // In local mode nothing is sent; the queue is replayed once Supabase is reachable again
+  if (isReplaying || isLocalMode() || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return;
+  }
+  
+  isReplaying = true;
+  
+  try {
+    const entries = getOutboxEntries();
+    const pendingEntries = entries.filter(entry => entry.status === 'pending');
+    const blockedTargets = failedTargets(entries);
+    
+    for (const entry of pendingEntries) {
+      if (dependsOnFailed(entry.operation, blockedTargets)) {
+        echoTargetsFor(entry.operation).forEach(target => blockedTargets.add(targetKey(target)));
+        updateEntry(entry.id, { status: 'failed', lastError: 'Waiting on an earlier change to the same book that failed' });
+        continue;
+      }
+      
+      const waitMs = new Date(entry.nextAttemptAt).getTime() - Date.now();
+      if (waitMs > 0) {
+        scheduleReplay(waitMs);
+        break;
+      }
+      
+      try {
+        const data = await executeOperation<Tables<'books'>[]>(entry.operation);
+        removeEntry(entry.id);
+        console.log(`Replayed outbox entry ${entry.sequence} (${entry.operation.type})`);
+        
+        const { operation } = entry;
+        if (operation.type === 'update' && operation.expectedUpdatedAt && data?.[0]?.updated_at) {
+          rebaseQueuedVersions(operation.id, operation.expectedUpdatedAt, data[0].updated_at);
+        }
+      } catch (error) {
+        const attempts = entry.attempts + 1;
+        const serviceError = toServiceError(error);
+        const lastError = serviceError.message;
+        
+        if (isPermanentFailure(serviceError) || attempts >= MAX_ATTEMPTS) {
+          console.error(`Outbox entry ${entry.sequence} failed ${attempts} times, giving up:`, error);
+          updateEntry(entry.id, { status: 'failed', attempts, lastError });
+          echoTargetsFor(entry.operation).forEach(target => blockedTargets.add(targetKey(target)));
+          continue;
+        }
+        
+        const delay = getRetryDelay(attempts);
+        updateEntry(entry.id, {
+          attempts,
+          lastError,
+          nextAttemptAt: new Date(Date.now() + delay).toISOString()
+        });
+        scheduleReplay(delay);
+        break;
+      }
+    }
+  } finally {
+    isReplaying = false;
+  }
+};
+
+/**
+ * Move the signed-in user's failed entries back into the queue and replay immediately
+ */
+export const retryFailedEntries = (): void => {
+  const now = new Date().toISOString();
+  saveOutboxEntries(readAllEntries().map(entry => entry.status === 'failed' && isOwnEntry(entry)
+    ? { ...entry, status: 'pending', attempts: 0, nextAttemptAt: now }
+    : entry
+  ));
+  replayOutbox();
+};
+
+export const discardFailedEntries = (): void => {
+  saveOutboxEntries(readAllEntries().filter(entry => entry.status !== 'failed' || !isOwnEntry(entry)));
+};
+
+/**
+ * Overlay queued writes on rows fetched from Supabase so that
+ * changes saved only locally are not lost on refresh. Pass
+ * includeInserts false for pages after the first, so queued
+ * books are added once rather than to every page.
+ */
+export const applyPendingOperations = <R extends { id: string; order?: number | null }>(
+  table: OutboxTable,
+  rows: R[],
+  { includeInserts = true }: { includeInserts?: boolean } = {}
+): R[] => {
+  return getOutboxEntries()
+    .filter(entry => entry.status === 'pending')
+    .reduce((result, { operation }) => {
+      if (operation.type === 'reorder') {
+        if (table !== BOOKS_TABLE) return result;
+        const positions = new Map(operation.updates.map(({ id, order }) => [id, order]));
+        return result.map(row => positions.has(row.id) ? { ...row, order: positions.get(row.id) } : row);
+      }
+      
+      if (operation.type === 'accept') {
+        if (table === RECOMMENDATIONS_TABLE) {
+          return result.filter(row => row.id !== operation.recommendationId);
+        }
+        return !includeInserts || result.some(row => row.id === operation.row.id)
+          ? result
+          : [...result, operation.row as unknown as R];
+      }
+      
+      if (operation.table !== table) return result;
+      
+      switch (operation.type) {
+        case 'insert':
+          return !includeInserts || result.some(row => row.id === operation.row.id)
+            ? result
+            : [...result, operation.row as unknown as R];
+        case 'update':
+          return result.map(row => row.id === operation.id ? { ...row, ...operation.patch } : row);
+        case 'delete':
+          return result.filter(row => row.id !== operation.id);
+        default:
+          return result;
+      }
+    }, rows);
+};
+
+/**
+ * Start replaying the outbox now, whenever the browser comes back online,
+ * when the app leaves local mode, and when a different user signs in
+ */
+export const startOutboxReplay = (): void => {
+  if (isStarted || typeof window === 'undefined') return;
+  isStarted = true;
+  
+  window.addEventListener('online', () => {
+    console.log('Connection restored, replaying outbox');
+    replayOutbox();
+  });
+  
+  subscribeToConnection(state => {
+    if (state === 'closed') {
+      console.log('Left local mode, replaying outbox');
+      replayOutbox();
+    }
+  });
+  
+  let lastUserId = currentUserId();
+  getAuthProvider().subscribe(user => {
+    const userId = user?.uid ?? null;
+    if (userId === lastUserId) return;
+    lastUserId = userId;
+    
+    const counts = getOutboxCounts();
+    listeners.forEach(listener => listener(counts));
+    replayOutbox();
+  });
+  
+  replayOutbox();
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { Book } from '@/types/book';
+import { BookCollection } from '@/types/repository';
+import { ValidationError } from './errors';
+import { afterCursorFilter, cursorAfterRow, paginate } from './pagination';
+
+const book = (id: string, dateRead: string): Book => ({
+  id,
+  title: `Book ${id}`,
+  author: 'Author',
+  coverUrl: '',
+  dateRead: new Date(dateRead),
+  genres: [],
+  status: 'read',
+  progress: 100,
+  pages: 100,
+  recommendedBy: '',
+  favorite: false,
+  isSeries: false
+});
+
+// Stored out of order, as local storage may hold them
+const shelf = [
+  book('c', '2024-03-01T00:00:00.000Z'),
+  book('e', '2024-01-01T00:00:00.000Z'),
+  book('a', '2024-05-01T00:00:00.000Z'),
+  book('d', '2024-02-01T00:00:00.000Z'),
+  book('b', '2024-04-01T00:00:00.000Z')
+];
+
+const ids = (books: Book[]) => books.map(({ id }) => id);
+
+// Every id in the order the pages give them, reading from the first page to the last
+const readAll = (collection: BookCollection, books: Book[], limit: number): string[] => {
+  const read: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = paginate(collection, books, { cursor, limit });
+    read.push(...ids(page.books));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return read;
+};
+
+describe('paginate', () => {
+  it('pages books newest read first', () => {
+    const first = paginate('books', shelf, { limit: 2 });
+    expect(ids(first.books)).toEqual(['a', 'b']);
+    expect(first.nextCursor).not.toBeNull();
+
+    const middle = paginate('books', shelf, { cursor: first.nextCursor!, limit: 2 });
+    expect(ids(middle.books)).toEqual(['c', 'd']);
+    expect(middle.nextCursor).not.toBeNull();
+
+    const last = paginate('books', shelf, { cursor: middle.nextCursor!, limit: 2 });
+    expect(ids(last.books)).toEqual(['e']);
+    expect(last.nextCursor).toBeNull();
+  });
+
+  it('has no next page when the last page is exactly full', () => {
+    const first = paginate('books', shelf, { limit: 5 });
+    expect(ids(first.books)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(first.nextCursor).toBeNull();
+  });
+
+  it('pages an empty collection', () => {
+    expect(paginate('books', [])).toEqual({ books: [], nextCursor: null });
+  });
+
+  it('carries on after a cursor whose book was deleted', () => {
+    const first = paginate('books', shelf, { limit: 2 });
+    const withoutLast = shelf.filter(({ id }) => id !== 'b');
+
+    expect(ids(paginate('books', withoutLast, { cursor: first.nextCursor!, limit: 2 }).books)).toEqual(['c', 'd']);
+  });
+
+  it("doesn't repeat or skip books when one is added in front of the cursor", () => {
+    const first = paginate('books', shelf, { limit: 2 });
+    const withNewest = [...shelf, book('f', '2024-06-01T00:00:00.000Z')];
+
+    expect(ids(paginate('books', withNewest, { cursor: first.nextCursor!, limit: 2 }).books)).toEqual(['c', 'd']);
+  });
+
+  it('breaks ties between books read the same day by id', () => {
+    const sameDay = ['q', 'm', 'z', 'k'].map(id => book(id, '2024-03-01T00:00:00.000Z'));
+
+    expect(readAll('books', sameDay, 1)).toEqual(['k', 'm', 'q', 'z']);
+    expect(readAll('books', [...sameDay, ...shelf], 3)).toEqual(['a', 'b', 'c', 'k', 'm', 'q', 'z', 'd', 'e']);
+  });
+
+  it('pages recommendations newest read first', () => {
+    expect(readAll('recommendations', shelf, 2)).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('rejects a cursor it did not give out', () => {
+    expect(() => paginate('books', shelf, { cursor: 'not a cursor' })).toThrow(ValidationError);
+    expect(() => paginate('books', shelf, { cursor: btoa(JSON.stringify({ key: 1 })) })).toThrow(ValidationError);
+  });
+});
+
+describe('afterCursorFilter', () => {
+  it('matches older books, books read the same day with a later id, and books without a date', () => {
+    const cursor = cursorAfterRow('books', { id: 'b', order: null, date_read: '2024-04-01T00:00:00+00:00' });
+
+    expect(afterCursorFilter('books', cursor)).toBe(
+      'date_read.lt."2024-04-01T00:00:00+00:00",and(date_read.eq."2024-04-01T00:00:00+00:00",id.gt.b),date_read.is.null'
+    );
+  });
+
+  it('matches only later ids among books without a date after such a book', () => {
+    const cursor = cursorAfterRow('recommendations', { id: 'r1', order: null, date_read: null });
+
+    expect(afterCursorFilter('recommendations', cursor)).toBe('and(date_read.is.null,id.gt.r1)');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Cursor pagination shared by the repositories. Each collection is paged in
+ * its list order with the id as tie-breaker, and a cursor holds the sort key
+ * and id of the last book on a page, so books added or removed in front of
+ * it don't make the next page repeat or skip any.
+ */
+import { Book } from '@/types/book';
+import { BookCollection, BookPage, PageOptions } from '@/types/repository';
+import { ValidationError } from './errors';
+
+export const DEFAULT_PAGE_SIZE = 48;
+
+type SortKey = number | string | null;
+
+interface PagePosition {
+  key: SortKey;
+  id: string;
+}
+
+// Both newest read first, the order the shelf shows them in by default, with unset keys last
+export const PAGE_ORDER: Record<BookCollection, { column: 'order' | 'date_read'; ascending: boolean }> = {
+  books: { column: 'date_read', ascending: false },
+  recommendations: { column: 'date_read', ascending: false }
+};
+
+const encodeCursor = ({ key, id }: PagePosition): string => btoa(JSON.stringify({ key, id }));
+
+const decodeCursor = (cursor: string): PagePosition => {
+  try {
+    const { key, id } = JSON.parse(atob(cursor));
+    if (typeof id === 'string') {
+      return { key: key ?? null, id };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new ValidationError([`Invalid page cursor: ${cursor}`]);
+};
+
+// Dates from Supabase and from local storage are formatted differently, so compare them as times
+const keyValue = (key: SortKey): number | null => typeof key === 'string' ? Date.parse(key) : key;
+
+// Negative if a comes before b in the collection's page order
+const comparePositions = (collection: BookCollection, a: PagePosition, b: PagePosition): number => {
+  const aValue = keyValue(a.key);
+  const bValue = keyValue(b.key);
+
+  if (aValue !== bValue) {
+    if (aValue === null) return 1;
+    if (bValue === null) return -1;
+    return PAGE_ORDER[collection].ascending ? aValue - bValue : bValue - aValue;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+};
+
+const positionOfBook = (collection: BookCollection, book: Book): PagePosition => ({
+  key: PAGE_ORDER[collection].column === 'date_read' ? new Date(book.dateRead).toISOString() : book.order ?? null,
+  id: book.id
+});
+
+/**
+ * Cut one page out of a collection held in full, for repositories that read local storage
+ */
+export const paginate = (
+  collection: BookCollection,
+  books: Book[],
+  { cursor, limit = DEFAULT_PAGE_SIZE }: PageOptions = {}
+): BookPage => {
+  const after = cursor ? decodeCursor(cursor) : null;
+
+  const remaining = books
+    .map(book => ({ book, position: positionOfBook(collection, book) }))
+    .filter(({ position }) => !after || comparePositions(collection, position, after) > 0)
+    .sort((a, b) => comparePositions(collection, a.position, b.position));
+
+  const page = remaining.slice(0, limit);
+  return {
+    books: page.map(({ book }) => book),
+    nextCursor: remaining.length > limit ? encodeCursor(page[page.length - 1].position) : null
+  };
+};
+
+/**
+ * PostgREST filter, for .or(), matching the rows that come after a cursor
+ */
+export const afterCursorFilter = (collection: BookCollection, cursor: string): string => {
+  const { key, id } = decodeCursor(cursor);
+  const { column, ascending } = PAGE_ORDER[collection];
+
+  if (key === null) {
+    return `and(${column}.is.null,id.gt.${id})`;
+  }
+
+  const value = typeof key === 'string' ? `"${key}"` : key;
+  return [
+    `${column}.${ascending ? 'gt' : 'lt'}.${value}`,
+    `and(${column}.eq.${value},id.gt.${id})`,
+    `${column}.is.null`
+  ].join(',');
+};
+
+/**
+ * The cursor for the page after the one ending with this row
+ */
+export const cursorAfterRow = (
+  collection: BookCollection,
+  row: { id: string; order: number | null; date_read: string | null }
+): string => encodeCursor({ key: row[PAGE_ORDER[collection].column], id: row.id });
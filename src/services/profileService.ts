@@ -0,0 +1,114 @@
+/**
+ * Reads and saves library profiles, which give a library its shareable
+ * /u/:handle page and say who may see it.
+ */
+import { supabase } from '@/lib/supabaseClient';
+import { Tables } from '@/integrations/supabase/types';
+import { LIBRARY_PROFILES_TABLE } from '@/lib/supabase';
+import { LibraryProfile, LibraryVisibility } from '@/types/profile';
+import { ValidationError } from './errors';
+import { supabaseRequest } from './supabaseConnection';
+
+type ProfileRow = Tables<'library_profiles'>;
+
+// Matches the check on library_profiles.handle
+const HANDLE_PATTERN = /^[a-z0-9][a-z0-9-]{2,29}$/;
+const UNIQUE_VIOLATION = '23505';
+
+export const VISIBILITY_OPTIONS: LibraryVisibility[] = ['public', 'unlisted', 'private'];
+
+export const normalizeHandle = (handle: string): string => handle.trim().toLowerCase();
+
+/**
+ * Why a handle can't be used, or null if it can
+ */
+export const handleProblem = (handle: string): string | null =>
+  HANDLE_PATTERN.test(normalizeHandle(handle))
+    ? null
+    : 'Use 3 to 30 lowercase letters, numbers or hyphens, starting with a letter or number';
+
+/**
+ * The path of a library's page
+ */
+export const libraryPath = (handle: string): string => `/u/${encodeURIComponent(handle)}`;
+
+const toProfile = (row: ProfileRow): LibraryProfile => ({
+  ownerId: row.owner_id,
+  handle: row.handle,
+  displayName: row.display_name || undefined,
+  visibility: VISIBILITY_OPTIONS.includes(row.visibility as LibraryVisibility)
+    ? row.visibility as LibraryVisibility
+    : 'private',
+  hiddenTags: row.hidden_tags || []
+});
+
+/**
+ * The profile a /u/:handle link leads to. Null when there is none, or when
+ * the library is private and the signed-in user isn't its owner or a member.
+ */
+export const getProfileByHandle = async (handle: string): Promise<LibraryProfile | null> => {
+  const result = await supabaseRequest<ProfileRow[]>(
+    signal => supabase.rpc('get_library_profile', { profile_handle: normalizeHandle(handle) }).abortSignal(signal)
+  );
+  
+  if (result.error) {
+    throw result.error;
+  }
+  
+  const [row] = result.data || [];
+  return row ? toProfile(row) : null;
+};
+
+/**
+ * The profile of the given owner's library, or null if they haven't set one up
+ */
+export const getProfileForOwner = async (ownerId: string): Promise<LibraryProfile | null> => {
+  const result = await supabaseRequest<ProfileRow | null>(
+    signal => supabase.from(LIBRARY_PROFILES_TABLE)
+      .select('*')
+      .eq('owner_id', ownerId)
+      .abortSignal(signal)
+      .maybeSingle()
+  );
+  
+  if (result.error) {
+    throw result.error;
+  }
+  
+  return result.data ? toProfile(result.data) : null;
+};
+
+/**
+ * Create or update the signed-in owner's profile. Rejects with a
+ * ValidationError for a malformed handle or one another library uses.
+ */
+export const saveProfile = async (profile: LibraryProfile): Promise<LibraryProfile> => {
+  const problem = handleProblem(profile.handle);
+  if (problem) {
+    throw new ValidationError([`handle: ${problem}`]);
+  }
+  
+  const result = await supabaseRequest<ProfileRow>(
+    signal => supabase.from(LIBRARY_PROFILES_TABLE)
+      .upsert({
+        owner_id: profile.ownerId,
+        handle: normalizeHandle(profile.handle),
+        display_name: profile.displayName?.trim() || null,
+        visibility: profile.visibility,
+        hidden_tags: [...new Set(profile.hiddenTags.map(tag => tag.trim()).filter(Boolean))]
+      })
+      .select()
+      .abortSignal(signal)
+      .single(),
+    { retries: 0 }
+  );
+  
+  if (result.error) {
+    if ((result.error as { code?: string }).code === UNIQUE_VIOLATION) {
+      throw new ValidationError([`handle: "${normalizeHandle(profile.handle)}" is already taken`], result.error);
+    }
+    throw result.error;
+  }
+  
+  return toProfile(result.data);
+};
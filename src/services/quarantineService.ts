@@ -0,0 +1,115 @@
+import { Book } from '@/types/book';
+import { BookCollection } from '@/types/repository';
+import { QuarantinedRecord, QuarantineSource } from '@/types/quarantine';
+import { validateBook } from '@/lib/bookSchema';
+import { STORES, deleteRecord, getAllRecords, getRecord, putRecord, replaceAllRecords } from '@/lib/indexedDb';
+
+// Keeps records that fail Book validation out of the UI, and remembers them so they can be reported
+
+type QuarantineListener = (records: QuarantinedRecord[]) => void;
+
+const listeners = new Set<QuarantineListener>();
+
+const notifyListeners = async () => {
+  const records = await getQuarantinedRecords();
+  listeners.forEach(listener => listener(records));
+};
+
+export const subscribeToQuarantine = (listener: QuarantineListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getQuarantinedRecords = async (): Promise<QuarantinedRecord[]> => {
+  try {
+    const records = await getAllRecords<QuarantinedRecord>(STORES.quarantine);
+    return records.sort((a, b) => b.quarantinedAt.localeCompare(a.quarantinedAt));
+  } catch (error) {
+    console.error('Error reading quarantined records:', error);
+    return [];
+  }
+};
+
+const recordIdOf = (record: unknown): string | undefined => {
+  const id = record && typeof record === 'object' ? (record as { id?: unknown }).id : undefined;
+  return typeof id === 'string' || typeof id === 'number' ? String(id) : undefined;
+};
+
+const quarantineRecord = async (
+  source: QuarantineSource,
+  collection: BookCollection,
+  record: unknown,
+  issues: string[]
+): Promise<void> => {
+  const recordId = recordIdOf(record);
+  const key = `${source}:${collection}:${recordId ?? issues.join('|')}`;
+  console.warn(`Quarantined invalid ${collection} record ${recordId ?? '(no id)'} from ${source}:`, issues);
+  
+  try {
+    const existing = await getRecord<QuarantinedRecord>(STORES.quarantine, key);
+    await putRecord<QuarantinedRecord>(STORES.quarantine, {
+      key,
+      source,
+      collection,
+      recordId,
+      record,
+      issues,
+      quarantinedAt: existing?.quarantinedAt || new Date().toISOString()
+    });
+    
+    if (!existing) {
+      await notifyListeners();
+    }
+  } catch (error) {
+    console.error('Error saving quarantined record:', error);
+  }
+};
+
+/**
+ * Validate one record, quarantining it and returning null if it is not a well-formed Book
+ */
+export const validateOrQuarantine = async (
+  record: unknown,
+  source: QuarantineSource,
+  collection: BookCollection
+): Promise<Book | null> => {
+  const result = validateBook(record);
+  if (result.success === true) {
+    return result.book;
+  }
+  
+  await quarantineRecord(source, collection, record, result.issues);
+  return null;
+};
+
+/**
+ * Validate a list of records, returning only the well-formed Books
+ */
+export const filterValidBooks = async (
+  records: unknown[],
+  source: QuarantineSource,
+  collection: BookCollection
+): Promise<Book[]> => {
+  const books = await Promise.all(records.map(record => validateOrQuarantine(record, source, collection)));
+  return books.filter((book): book is Book => book !== null);
+};
+
+export const dismissQuarantinedRecord = async (key: string): Promise<void> => {
+  try {
+    await deleteRecord(STORES.quarantine, key);
+    await notifyListeners();
+  } catch (error) {
+    console.error('Error dismissing quarantined record:', error);
+  }
+};
+
+export const clearQuarantine = async (): Promise<void> => {
+  try {
+    await replaceAllRecords(STORES.quarantine, []);
+    await notifyListeners();
+  } catch (error) {
+    console.error('Error clearing quarantined records:', error);
+  }
+};
@@ -0,0 +1,59 @@
+/**
+ * Remembers the realtime events this tab's own writes will trigger, so the
+ * subscription can skip them instead of applying the same change twice.
+ */
+import { OutboxTable } from '@/types/outbox';
+
+// An echo that never arrives (e.g. the realtime connection dropped) is forgotten after this
+const ECHO_TTL_MS = 15000;
+
+export interface EchoTarget {
+  table: OutboxTable;
+  id: string;
+}
+
+// Expiry times of the echoes still expected for each row
+const expectedEchoes = new Map<string, number[]>();
+
+const keyFor = ({ table, id }: EchoTarget) => `${table}:${id}`;
+
+const liveExpiries = (key: string, now: number) =>
+  (expectedEchoes.get(key) || []).filter(expiresAt => expiresAt > now);
+
+/**
+ * Record that a write to these rows is about to be sent. Returns a function
+ * that withdraws the expectation if the write fails.
+ */
+export const expectEchoes = (targets: EchoTarget[]): (() => void) => {
+  const now = Date.now();
+  const expiresAt = now + ECHO_TTL_MS;
+  
+  targets.forEach(target => {
+    const key = keyFor(target);
+    expectedEchoes.set(key, [...liveExpiries(key, now), expiresAt]);
+  });
+  
+  return () => {
+    targets.forEach(target => {
+      const key = keyFor(target);
+      const remaining = [...(expectedEchoes.get(key) || [])];
+      const index = remaining.indexOf(expiresAt);
+      if (index !== -1) remaining.splice(index, 1);
+      if (remaining.length > 0) expectedEchoes.set(key, remaining);
+      else expectedEchoes.delete(key);
+    });
+  };
+};
+
+/**
+ * True if a realtime event for this row was caused by our own write; each expected echo matches once
+ */
+export const consumeEcho = (target: EchoTarget): boolean => {
+  const key = keyFor(target);
+  const live = liveExpiries(key, Date.now());
+  
+  if (live.length > 1) expectedEchoes.set(key, live.slice(1));
+  else expectedEchoes.delete(key);
+  
+  return live.length > 0;
+};
@@ -2,46 +2,57 @@
 /**
  * Service for recommendation-related Supabase operations
  */
-import { supabase } from '@/integrations/supabase/client';
-import { RECOMMENDATIONS_TABLE, SupabaseResponse } from '@/lib/supabase';
+import { supabase } from '@/lib/supabaseClient';
+import { RECOMMENDATIONS_TABLE, RECOMMENDATION_LIST_VIEW } from '@/lib/supabase';
 import { Book } from '@/types/book';
-import { prepareBookForDB, convertDBToBook } from './bookMappers';
+import { BookPage, PageOptions, UpdateOptions, Written } from '@/types/repository';
+import { Tables } from '@/integrations/supabase/types';
+import {
+  BookListRow,
+  LIST_COLUMNS,
+  prepareBookForDB,
+  prepareBookUpdateForDB,
+  acceptedBookFrom,
+  convertDBToBook,
+  convertDBToBookSummary
+} from './bookMappers';
 import * as storageService from './storageService';
-import { withTimeout } from '@/utils/timeoutUtils';
-
-const TIMEOUT_MS = 5000;
+import * as outboxService from './outboxService';
+import * as quarantineService from './quarantineService';
+import { NotFoundError } from './errors';
+import { supabaseRequest } from './supabaseConnection';
+import { filterToLibrary, ownerFilter } from './libraryScope';
+import { DEFAULT_PAGE_SIZE, PAGE_ORDER, afterCursorFilter, cursorAfterRow, paginate } from './pagination';
 
 /**
  * Get all recommendations from Supabase
  */
-export const getAllRecommendations = async (): Promise<Book[]> => {
+export const getAllRecommendations = async (ownerId: string | null = null): Promise<Book[]> => {
   try {
-    const result = await withTimeout<SupabaseResponse<any[]>>(
-      supabase.from(RECOMMENDATIONS_TABLE).select('*'),
-      TIMEOUT_MS,
-      () => ({ data: null, error: new Error('Fallback: Timed out fetching recommendations') })
+    const result = await supabaseRequest<any[]>(
+      signal => supabase.from(RECOMMENDATIONS_TABLE).select('*').match(ownerFilter(ownerId)).abortSignal(signal)
     );
     
     if (result.error) {
       console.error('Error fetching recommendations:', result.error);
-      const storedRecommendations = storageService.getStoredRecommendations();
+      const storedRecommendations = filterToLibrary(ownerId, await storageService.getStoredRecommendations());
       if (storedRecommendations.length > 0) {
-        console.log('Using localStorage fallback for recommendations');
+        console.log('Using local fallback for recommendations');
         return storedRecommendations;
       }
       throw result.error;
     }
     
-    const sortedData = (result.data || []).sort((a, b) => 
-      new Date(b.date_read).getTime() - new Date(a.date_read).getTime()
-    );
+    const sortedData = outboxService.applyPendingOperations(RECOMMENDATIONS_TABLE, result.data || [])
+      .filter(row => !row.deleted_at)
+      .sort((a, b) => new Date(b.date_read).getTime() - new Date(a.date_read).getTime());
     
-    return sortedData.map(convertDBToBook);
+    return quarantineService.filterValidBooks(sortedData.map(convertDBToBook), 'supabase', RECOMMENDATIONS_TABLE);
   } catch (error) {
     console.error('Error in getAllRecommendations:', error);
-    const storedRecommendations = storageService.getStoredRecommendations();
+    const storedRecommendations = filterToLibrary(ownerId, await storageService.getStoredRecommendations());
     if (storedRecommendations.length > 0) {
-      console.log('Using localStorage fallback for recommendations after error');
+      console.log('Using local fallback for recommendations after error');
       return storedRecommendations;
     }
     return [];
@@ -49,164 +60,192 @@ export const getAllRecommendations = async (): Promise<Book[]> => {
 };
 
 /**
- * Add a recommendation to Supabase
+ * Get one page of recommendations from Supabase as summaries, in the same order as getAllRecommendations
  */
-export const addRecommendation = async (book: Omit<Book, 'id'>): Promise<Book> => {
-  const newBook = prepareBookForDB(book);
-  
+export const getRecommendationsPage = async (
+  ownerId: string | null = null,
+  { cursor, limit = DEFAULT_PAGE_SIZE }: PageOptions = {}
+): Promise<BookPage> => {
   try {
-    console.log('Adding recommendation to Supabase:', newBook);
-    const result = await withTimeout<SupabaseResponse<any[]>>(
-      supabase.from(RECOMMENDATIONS_TABLE).insert(newBook).select(),
-      TIMEOUT_MS,
-      () => ({ data: null, error: new Error('Fallback: Timed out adding recommendation') })
-    );
+    const result = await supabaseRequest<BookListRow[]>(signal => {
+      const { column, ascending } = PAGE_ORDER.recommendations;
+      let query = supabase.from(RECOMMENDATION_LIST_VIEW)
+        .select(LIST_COLUMNS)
+        .match(ownerFilter(ownerId))
+        .is('deleted_at', null)
+        .order(column, { ascending, nullsFirst: false })
+        .order('id', { ascending: true })
+        .limit(limit + 1);
+      
+      if (cursor) {
+        query = query.or(afterCursorFilter('recommendations', cursor));
+      }
+      return query.abortSignal(signal).returns<BookListRow[]>();
+    });
     
     if (result.error) {
-      console.error('Error adding recommendation to Supabase:', result.error);
-      
-      const bookWithId = {
-        ...book,
-        id: newBook.id,
-      } as Book;
-      
-      storageService.addStoredBook(bookWithId, true);
-      
-      console.log('Added recommendation to localStorage as fallback');
-      return bookWithId;
+      throw result.error;
     }
     
-    console.log('Recommendation added successfully to Supabase:', result.data);
-    
-    const bookWithId = {
-      ...book,
-      id: newBook.id,
-    } as Book;
+    // One row past the limit is read to tell whether another page follows
+    const rows = result.data || [];
+    const pageRows = rows.slice(0, limit);
+    const nextCursor = rows.length > limit ? cursorAfterRow('recommendations', pageRows[pageRows.length - 1]) : null;
     
-    storageService.addStoredBook(bookWithId, true);
+    const visibleRows = outboxService.applyPendingOperations(RECOMMENDATIONS_TABLE, pageRows, { includeInserts: !cursor })
+      .filter(row => !row.deleted_at);
     
-    return bookWithId;
+    return {
+      books: await quarantineService.filterValidBooks(visibleRows.map(convertDBToBookSummary), 'supabase', RECOMMENDATIONS_TABLE),
+      nextCursor
+    };
   } catch (error) {
-    console.error('Error in addRecommendation:', error);
-    
-    const bookWithId = {
-      ...book,
-      id: newBook.id,
-    } as Book;
-    
-    storageService.addStoredBook(bookWithId, true);
-    
-    console.log('Added recommendation to localStorage as fallback after error');
-    return bookWithId;
+    console.error('Error in getRecommendationsPage:', error);
+    console.log('Using local fallback for recommendations page');
+    return paginate('recommendations', filterToLibrary(ownerId, await storageService.getStoredRecommendations()), { cursor, limit });
   }
 };
 
 /**
- * Update a recommendation in Supabase
+ * Get the recommendations in the trash from Supabase, most recently removed first
  */
-export const updateRecommendation = async (
-  id: string, 
-  bookData: Partial<Book>
-): Promise<Book> => {
+export const getTrashedRecommendations = async (ownerId: string | null = null): Promise<Book[]> => {
   try {
-    const existingBookResult = await withTimeout<SupabaseResponse<any>>(
-      supabase.from(RECOMMENDATIONS_TABLE).select('*').eq('id', id).single(),
-      TIMEOUT_MS,
-      () => ({ data: null, error: new Error(`Fallback: Timed out fetching recommendation ${id}`) })
+    const result = await supabaseRequest<Tables<'recommendations'>[]>(
+      signal => supabase.from(RECOMMENDATIONS_TABLE).select('*').match(ownerFilter(ownerId)).not('deleted_at', 'is', null).abortSignal(signal)
     );
     
-    const existingBook = existingBookResult.data;
-    const checkError = existingBookResult.error;
-    
-    if (checkError || !existingBook) {
-      console.warn(`Recommendation with id ${id} not found in Supabase ${RECOMMENDATIONS_TABLE}, checking localStorage`);
-      
-      const collection = storageService.getStoredRecommendations();
-      
-      const localBook = collection.find(b => b.id === id);
-      
-      if (!localBook) {
-        throw new Error(`Recommendation with id ${id} not found in ${RECOMMENDATIONS_TABLE} or localStorage`);
-      }
-      
-      const updatedBook = { ...localBook, ...bookData };
-      storageService.updateStoredBook(id, bookData, true);
-      
-      return updatedBook;
+    if (result.error) {
+      throw result.error;
     }
     
-    const updateData: any = {};
+    const trashedData = outboxService.applyPendingOperations(RECOMMENDATIONS_TABLE, result.data || [])
+      .filter(row => row.deleted_at)
+      .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
     
-    if (bookData.title !== undefined) updateData.title = bookData.title;
-    if (bookData.author !== undefined) updateData.author = bookData.author;
-    if (bookData.coverUrl !== undefined) updateData.cover_url = bookData.coverUrl;
-    if (bookData.status !== undefined) updateData.status = bookData.status;
-    if (bookData.progress !== undefined) updateData.progress = bookData.progress;
-    if (bookData.pages !== undefined) updateData.pages = bookData.pages;
-    if (bookData.genres !== undefined) updateData.genres = bookData.genres;
-    if (bookData.favorite !== undefined) updateData.favorite = bookData.favorite;
-    if (bookData.color !== undefined) updateData.color = bookData.color;
-    if (bookData.dateRead !== undefined) updateData.date_read = new Date(bookData.dateRead).toISOString();
-    if (bookData.recommendedBy !== undefined) updateData.recommended_by = bookData.recommendedBy;
-    if (bookData.isSeries !== undefined) updateData.is_series = bookData.isSeries;
-    if (bookData.seriesName !== undefined) updateData.series_name = bookData.seriesName;
-    if (bookData.seriesPosition !== undefined) updateData.series_position = bookData.seriesPosition;
-    if (bookData.tags !== undefined) updateData.tags = bookData.tags;
-    
-    const updateResult = await withTimeout<SupabaseResponse<any>>(
-      supabase.from(RECOMMENDATIONS_TABLE).update(updateData).eq('id', id),
-      TIMEOUT_MS,
-      () => ({ data: null, error: new Error(`Fallback: Timed out updating recommendation ${id}`) })
-    );
-    
-    if (updateResult.error) {
-      console.error('Error updating recommendation in Supabase:', updateResult.error);
-      
-      storageService.updateStoredBook(id, bookData, true);
-      
-      console.log('Updated recommendation in localStorage as fallback');
-    } else {
-      storageService.updateStoredBook(id, bookData, true);
-    }
-    
-    return {
-      ...convertDBToBook(existingBook),
-      ...bookData,
-      id
-    } as Book;
+    return quarantineService.filterValidBooks(trashedData.map(convertDBToBook), 'supabase', RECOMMENDATIONS_TABLE);
   } catch (error) {
-    console.error('Error in updateRecommendation:', error);
-    
-    const updatedBook = storageService.updateStoredBook(id, bookData, true);
-    
-    if (!updatedBook) {
-      throw error;
-    }
-    
-    console.log('Updated recommendation in localStorage as fallback after error');
-    return updatedBook;
+    console.error('Error in getTrashedRecommendations:', error);
+    console.log('Using local fallback for trashed recommendations');
+    return filterToLibrary(ownerId, await storageService.getStoredTrash(true));
   }
 };
 
 /**
- * Delete a recommendation from Supabase
+ * Get a single recommendation from Supabase
  */
-export const deleteRecommendation = async (id: string): Promise<void> => {
+export const getRecommendationById = async (id: string): Promise<Book | null> => {
   try {
-    const result = await withTimeout<SupabaseResponse<any>>(
-      supabase.from(RECOMMENDATIONS_TABLE).delete().eq('id', id),
-      TIMEOUT_MS,
-      () => ({ data: null, error: new Error(`Fallback: Timed out deleting recommendation ${id}`) })
+    const result = await supabaseRequest<Tables<'recommendations'>>(
+      signal => supabase.from(RECOMMENDATIONS_TABLE).select('*').eq('id', id).abortSignal(signal).maybeSingle()
     );
     
     if (result.error) {
-      console.error('Error deleting recommendation from Supabase:', result.error);
+      console.error('Error fetching recommendation from Supabase:', result.error);
+      return storageService.getStoredBook(id, true);
     }
     
-    storageService.deleteStoredBook(id, true);
+    return result.data
+      ? quarantineService.validateOrQuarantine(convertDBToBook(result.data), 'supabase', RECOMMENDATIONS_TABLE)
+      : null;
   } catch (error) {
-    console.error('Error in deleteRecommendation:', error);
-    
-    storageService.deleteStoredBook(id, true);
+    console.error('Error in getRecommendationById:', error);
+    return storageService.getStoredBook(id, true);
+  }
+};
+
+/**
+ * Add a recommendation to Supabase, queuing it in the outbox if the request fails
+ */
+export const addRecommendation = async (book: Omit<Book, 'id'>): Promise<Written<Book>> => {
+  const newBook = prepareBookForDB(book);
+  
+  const bookWithId = {
+    ...book,
+    id: newBook.id,
+  } as Book;
+  
+  console.log('Adding recommendation to Supabase:', newBook);
+  const result = await outboxService.runOrEnqueue({ type: 'insert', table: RECOMMENDATIONS_TABLE, row: newBook });
+  
+  // Only once Supabase has the recommendation or it is queued, so a rejected one never shows up locally
+  await storageService.writeToMirror(() => storageService.addStoredBook(bookWithId, true));
+  
+  if (result.status === 'queued') {
+    console.log('Recommendation saved locally and queued for Supabase');
+  }
+  
+  return { value: bookWithId, status: outboxService.writeStatusOf(result) };
+};
+
+/**
+ * Update a recommendation in Supabase, queuing the change in the outbox if the request fails.
+ * Pass expectedVersion to reject the update if the row changed since it was read.
+ */
+export const updateRecommendation = async (
+  id: string, 
+  bookData: Partial<Book>,
+  options: UpdateOptions = {}
+): Promise<Written<Book>> => {
+  const updateData = prepareBookUpdateForDB(bookData);
+  
+  const result = await outboxService.runOrEnqueue<Tables<'recommendations'>[]>({
+    type: 'update',
+    table: RECOMMENDATIONS_TABLE,
+    id,
+    patch: updateData,
+    expectedUpdatedAt: options.expectedVersion
+  });
+  
+  if (result.status === 'synced' && result.data && result.data.length > 0) {
+    const updatedBookFromDB = convertDBToBook(result.data[0]);
+    await storageService.writeToMirror(() => storageService.updateStoredBook(id, updatedBookFromDB, true));
+    return { value: updatedBookFromDB, status: 'saved' };
+  }
+  
+  const updatedLocalBook = await storageService.updateStoredBook(id, bookData, true);
+  if (!updatedLocalBook) {
+    throw new NotFoundError(id, `Recommendation with id ${id} not found in ${RECOMMENDATIONS_TABLE} or the local mirror`);
   }
+  console.log(`Updated recommendation in the local mirror (${result.status === 'queued' ? 'queued for Supabase' : 'not found in Supabase'})`);
+  return { value: updatedLocalBook, status: outboxService.writeStatusOf(result) };
+};
+
+/**
+ * Delete a recommendation from Supabase, queuing the delete in the outbox if the request fails
+ */
+export const deleteRecommendation = async (id: string): Promise<Written<void>> => {
+  const result = await outboxService.runOrEnqueue({ type: 'delete', table: RECOMMENDATIONS_TABLE, id });
+  await storageService.writeToMirror(() => storageService.deleteStoredBook(id, true));
+  return { value: undefined, status: outboxService.writeStatusOf(result) };
+};
+
+/**
+ * Move a recommendation onto the shelf as a to-read book, queuing the move in
+ * the outbox if the request fails. The recommendations and books tables change
+ * together, and so do the two stores of the local mirror.
+ */
+export const acceptRecommendation = async (id: string): Promise<Written<Book>> => {
+  // Recommendations still queued for Supabase are only in the mirror
+  const recommendation = await getRecommendationById(id) || await storageService.getStoredBook(id, true);
+  if (!recommendation) {
+    throw new NotFoundError(id, `Recommendation with id ${id} not found in ${RECOMMENDATIONS_TABLE} or the local mirror`);
+  }
+  
+  const acceptedBook = acceptedBookFrom(recommendation);
+  const row = prepareBookForDB(acceptedBook);
+  const bookWithId = { ...acceptedBook, id: row.id } as Book;
+  
+  const result = await outboxService.runOrEnqueue<Tables<'books'>[]>({ type: 'accept', recommendationId: id, row });
+  
+  // The mirror moves the recommendation only after Supabase has, or the move is queued
+  if (result.status === 'synced' && result.data && result.data.length > 0) {
+    const savedBook = convertDBToBook(result.data[0]);
+    await storageService.writeToMirror(() => storageService.acceptStoredRecommendation(id, savedBook));
+    return { value: savedBook, status: 'saved' };
+  }
+  
+  await storageService.writeToMirror(() => storageService.acceptStoredRecommendation(id, bookWithId));
+  console.log('Accepted recommendation locally and queued the move for Supabase');
+  return { value: bookWithId, status: outboxService.writeStatusOf(result) };
 };
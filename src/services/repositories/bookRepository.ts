@@ -0,0 +1,60 @@
+/**
+ * Selects the book repository implementation once at startup
+ */
+import { BookRepository, RepositoryKind } from '@/types/repository';
+import { shouldUseFallback } from '@/lib/supabase';
+import { createSupabaseRepository } from './supabaseRepository';
+import { createIndexedDbRepository } from './indexedDbRepository';
+import { createMemoryRepository } from './memoryRepository';
+import { createPublicRepository } from './publicRepository';
+
+/**
+ * Build a repository of the requested kind for one user's library. When no
+ * kind is given, the VITE_BOOK_REPOSITORY env variable is used, then the
+ * Supabase availability check. The in-memory repository holds a single library.
+ */
+export const createBookRepository = (kind?: RepositoryKind, ownerId: string | null = null): BookRepository => {
+  const requestedKind = kind || (import.meta.env.VITE_BOOK_REPOSITORY as RepositoryKind | undefined);
+  const resolvedKind = requestedKind || (shouldUseFallback() ? 'indexedDb' : 'supabase');
+  
+  switch (resolvedKind) {
+    case 'memory':
+      return createMemoryRepository();
+    case 'indexedDb':
+      return createIndexedDbRepository(ownerId);
+    case 'supabase':
+    default:
+      return createSupabaseRepository(ownerId);
+  }
+};
+
+const repositoriesByOwner = new Map<string | null, BookRepository>();
+
+/**
+ * Get the repository selected for this session, for the given user's library
+ */
+export const getBookRepository = (ownerId: string | null = null): BookRepository => {
+  if (!repositoriesByOwner.has(ownerId)) {
+    const repository = createBookRepository(undefined, ownerId);
+    repositoriesByOwner.set(ownerId, repository);
+    console.log(`Using ${repository.kind} book repository for ${ownerId ? `the library of ${ownerId}` : 'all libraries'}`);
+  }
+  return repositoriesByOwner.get(ownerId);
+};
+
+const visitorRepositoriesByOwner = new Map<string, BookRepository>();
+
+/**
+ * Get the repository for a signed-out visitor to the given library. Only a
+ * library's owner and members can read its tables in Supabase, so visitors
+ * see what its public page shows.
+ */
+export const getVisitorRepository = (ownerId: string | null = null): BookRepository => {
+  const repository = getBookRepository(ownerId);
+  if (!ownerId || repository.kind !== 'supabase') return repository;
+  
+  if (!visitorRepositoriesByOwner.has(ownerId)) {
+    visitorRepositoriesByOwner.set(ownerId, createPublicRepository(ownerId));
+  }
+  return visitorRepositoriesByOwner.get(ownerId);
+};
@@ -0,0 +1,95 @@
+/**
+ * Book repository backed by the browser's IndexedDB
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { Book } from '@/types/book';
+import { BookCollection, BookRepository, collectionFor } from '@/types/repository';
+import * as storageService from '../storageService';
+import { BookConflictError, NotFoundError } from '../errors';
+import { paginate } from '../pagination';
+import { acceptedBookFrom } from '../bookMappers';
+import { filterToLibrary } from '../libraryScope';
+
+const readCollection = async (collection: BookCollection, ownerId: string | null): Promise<Book[]> =>
+  filterToLibrary(ownerId, collection === 'recommendations'
+    ? await storageService.getStoredRecommendations()
+    : await storageService.getStoredBooks());
+
+/**
+ * Repository for one user's library on this device; pass null to read every library
+ */
+export const createIndexedDbRepository = (ownerId: string | null = null): BookRepository => ({
+  kind: 'indexedDb',
+  
+  list: (collection) => readCollection(collection, ownerId),
+  
+  listTrash: async (collection) =>
+    filterToLibrary(ownerId, await storageService.getStoredTrash(collection === 'recommendations')),
+  
+  listPage: async (collection, options) => paginate(collection, await readCollection(collection, ownerId), options),
+  
+  get: (id, collection) => storageService.getStoredBook(id, collection === 'recommendations'),
+  
+  create: async (book) => {
+    const bookWithId = {
+      ...book,
+      id: uuidv4(),
+      updatedAt: new Date().toISOString(),
+      ownerId: book.ownerId || ownerId || undefined,
+    } as Book;
+    
+    await storageService.addStoredBook(bookWithId, collectionFor(book) === 'recommendations');
+    return { value: bookWithId, status: 'saved' };
+  },
+  
+  update: async (id, bookData, collection, options = {}) => {
+    const current = await storageService.getStoredBook(id, collection === 'recommendations');
+    if (options.expectedVersion && current?.updatedAt && current.updatedAt !== options.expectedVersion) {
+      throw new BookConflictError(id, current);
+    }
+    
+    const updatedBook = await storageService.updateStoredBook(
+      id, 
+      { ...bookData, updatedAt: new Date().toISOString() }, 
+      collection === 'recommendations'
+    );
+    if (!updatedBook) {
+      throw new NotFoundError(id);
+    }
+    return { value: updatedBook, status: 'saved' };
+  },
+  
+  delete: async (id, collection) => {
+    await storageService.deleteStoredBook(id, collection === 'recommendations');
+    return { value: undefined, status: 'saved' };
+  },
+  
+  reorder: async (updates) => {
+    await storageService.updateStoredBookOrder(updates);
+    return { value: undefined, status: 'saved' };
+  },
+  
+  accept: async (recommendationId) => {
+    const recommendation = await storageService.getStoredBook(recommendationId, true);
+    if (!recommendation) {
+      throw new NotFoundError(recommendationId);
+    }
+    
+    const book = {
+      ...acceptedBookFrom(recommendation),
+      id: uuidv4(),
+      updatedAt: new Date().toISOString()
+    } as Book;
+    await storageService.acceptStoredRecommendation(recommendationId, book);
+    return { value: book, status: 'saved' };
+  },
+  
+  listSeries: async (seriesName) => (await readCollection('books', ownerId))
+    .filter(book => book.seriesName === seriesName)
+    .sort((a, b) => (a.seriesPosition || 0) - (b.seriesPosition || 0)),
+  
+  // Changes written by other tabs are broadcast by the storage service
+  subscribe: (listener) => storageService.subscribeToStorageChanges(collection => {
+    listener({ type: 'resync', collection });
+  })
+});
@@ -0,0 +1,109 @@
+/**
+ * In-memory book repository for development and tests. Nothing is persisted.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { Book } from '@/types/book';
+import {
+  BookCollection,
+  BookRepository,
+  RepositoryListener,
+  collectionFor
+} from '@/types/repository';
+import { BookConflictError, NotFoundError } from '../errors';
+import { paginate } from '../pagination';
+import { acceptedBookFrom } from '../bookMappers';
+
+interface MemoryRepositorySeed {
+  books?: Book[];
+  recommendations?: Book[];
+}
+
+export const createMemoryRepository = (seed: MemoryRepositorySeed = {}): BookRepository => {
+  const collections: Record<BookCollection, Book[]> = {
+    books: [...(seed.books || [])],
+    recommendations: [...(seed.recommendations || [])]
+  };
+  const listeners = new Set<RepositoryListener>();
+  
+  const notify = (collection: BookCollection) => {
+    listeners.forEach(listener => listener({ type: 'resync', collection }));
+  };
+  
+  return {
+    kind: 'memory',
+    
+    list: async (collection) => collections[collection].filter(book => !book.deletedAt),
+    
+    listTrash: async (collection) => collections[collection]
+      .filter(book => book.deletedAt)
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)),
+    
+    listPage: async (collection, options) =>
+      paginate(collection, collections[collection].filter(book => !book.deletedAt), options),
+    
+    get: async (id, collection) => collections[collection].find(book => book.id === id) || null,
+    
+    create: async (book) => {
+      const collection = collectionFor(book);
+      const bookWithId = { ...book, id: uuidv4(), updatedAt: new Date().toISOString() } as Book;
+      collections[collection] = [...collections[collection], bookWithId];
+      notify(collection);
+      return { value: bookWithId, status: 'saved' };
+    },
+    
+    update: async (id, bookData, collection, options = {}) => {
+      const existing = collections[collection].find(book => book.id === id);
+      if (!existing) {
+        throw new NotFoundError(id);
+      }
+      if (options.expectedVersion && existing.updatedAt && existing.updatedAt !== options.expectedVersion) {
+        throw new BookConflictError(id, existing);
+      }
+      
+      const updatedBook = { ...existing, ...bookData, id, updatedAt: new Date().toISOString() };
+      collections[collection] = collections[collection].map(book => book.id === id ? updatedBook : book);
+      notify(collection);
+      return { value: updatedBook, status: 'saved' };
+    },
+    
+    delete: async (id, collection) => {
+      collections[collection] = collections[collection].filter(book => book.id !== id);
+      notify(collection);
+      return { value: undefined, status: 'saved' };
+    },
+    
+    reorder: async (updates) => {
+      const positions = new Map(updates.map(({ id, order }) => [id, order]));
+      collections.books = collections.books
+        .map(book => positions.has(book.id) ? { ...book, order: positions.get(book.id) } : book)
+        .sort((a, b) => (a.order || 0) - (b.order || 0));
+      notify('books');
+      return { value: undefined, status: 'saved' };
+    },
+    
+    accept: async (recommendationId) => {
+      const recommendation = collections.recommendations.find(book => book.id === recommendationId && !book.deletedAt);
+      if (!recommendation) {
+        throw new NotFoundError(recommendationId);
+      }
+      
+      const book = { ...acceptedBookFrom(recommendation), id: uuidv4(), updatedAt: new Date().toISOString() } as Book;
+      collections.recommendations = collections.recommendations.filter(item => item.id !== recommendationId);
+      collections.books = [...collections.books, book];
+      notify('recommendations');
+      notify('books');
+      return { value: book, status: 'saved' };
+    },
+    
+    listSeries: async (seriesName) => collections.books
+      .filter(book => book.seriesName === seriesName && !book.deletedAt)
+      .sort((a, b) => (a.seriesPosition || 0) - (b.seriesPosition || 0)),
+    
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
@@ -0,0 +1,123 @@
+/**
+ * Read-only repository for a library's public page. It reads the
+ * library_public_books and library_public_recommendations functions, which
+ * leave out hidden books and the books of private libraries for everyone,
+ * owner included, so the page looks the same to whoever opens it. Nothing is
+ * mirrored locally and every write is refused.
+ */
+import { supabase } from '@/lib/supabaseClient';
+import { PUBLIC_BOOKS_FUNCTION, PUBLIC_RECOMMENDATIONS_FUNCTION } from '@/lib/supabase';
+import { Book } from '@/types/book';
+import { BookCollection, BookRepository } from '@/types/repository';
+import * as quarantineService from '../quarantineService';
+import { BookListRow, LIST_COLUMNS, convertDBToBook, convertDBToBookSummary } from '../bookMappers';
+import { PermissionError } from '../errors';
+import { DEFAULT_PAGE_SIZE, PAGE_ORDER, afterCursorFilter, cursorAfterRow } from '../pagination';
+import { supabaseRequest } from '../supabaseConnection';
+
+// Rows of the public functions, which have every column but email
+type PublicBookRow = BookListRow & { tags: string[] | null };
+
+const FUNCTIONS: Record<BookCollection, typeof PUBLIC_BOOKS_FUNCTION | typeof PUBLIC_RECOMMENDATIONS_FUNCTION> = {
+  books: PUBLIC_BOOKS_FUNCTION,
+  recommendations: PUBLIC_RECOMMENDATIONS_FUNCTION
+};
+
+const readOnly = async (): Promise<never> => {
+  throw new PermissionError('Books can only be changed from the library itself, not its public page');
+};
+
+const validBooks = (collection: BookCollection, books: Book[]): Promise<Book[]> =>
+  quarantineService.filterValidBooks(books, 'supabase', collection);
+
+/**
+ * Repository for the public page of one user's library
+ */
+export const createPublicRepository = (ownerId: string): BookRepository => {
+  const listRows = async (collection: BookCollection): Promise<PublicBookRow[]> => {
+    const { column, ascending } = PAGE_ORDER[collection];
+    const result = await supabaseRequest<PublicBookRow[]>(
+      signal => supabase.rpc(FUNCTIONS[collection], { library_owner: ownerId })
+        .select('*')
+        .order(column, { ascending, nullsFirst: false })
+        .order('id', { ascending: true })
+        .abortSignal(signal)
+        .returns<PublicBookRow[]>()
+    );
+    
+    if (result.error) {
+      throw result.error;
+    }
+    return result.data || [];
+  };
+  
+  return {
+    kind: 'public',
+    
+    list: async (collection) => validBooks(collection, (await listRows(collection)).map(convertDBToBook)),
+    
+    // Nothing in the trash is public
+    listTrash: async () => [],
+    
+    listPage: async (collection, { cursor, limit = DEFAULT_PAGE_SIZE } = {}) => {
+      const result = await supabaseRequest<BookListRow[]>(signal => {
+        const { column, ascending } = PAGE_ORDER[collection];
+        let query = supabase.rpc(FUNCTIONS[collection], { library_owner: ownerId })
+          .select(LIST_COLUMNS)
+          .order(column, { ascending, nullsFirst: false })
+          .order('id', { ascending: true })
+          .limit(limit + 1);
+        
+        if (cursor) {
+          query = query.or(afterCursorFilter(collection, cursor));
+        }
+        return query.abortSignal(signal).returns<BookListRow[]>();
+      });
+      
+      if (result.error) {
+        throw result.error;
+      }
+      
+      // One row past the limit is read to tell whether another page follows
+      const rows = result.data || [];
+      const pageRows = rows.slice(0, limit);
+      return {
+        books: await validBooks(collection, pageRows.map(convertDBToBookSummary)),
+        nextCursor: rows.length > limit ? cursorAfterRow(collection, pageRows[pageRows.length - 1]) : null
+      };
+    },
+    
+    get: async (id, collection) => {
+      const result = await supabaseRequest<PublicBookRow | null>(
+        signal => supabase.rpc(FUNCTIONS[collection], { library_owner: ownerId })
+          .select('*')
+          .eq('id', id)
+          .abortSignal(signal)
+          .returns<PublicBookRow[]>()
+          .maybeSingle()
+      );
+      
+      if (result.error) {
+        throw result.error;
+      }
+      if (!result.data) return null;
+      
+      const [book] = await validBooks(collection, [convertDBToBook(result.data)]);
+      return book || null;
+    },
+    
+    create: readOnly,
+    update: readOnly,
+    delete: readOnly,
+    reorder: readOnly,
+    accept: readOnly,
+    
+    listSeries: async (seriesName) => {
+      const books = await validBooks('books', (await listRows('books')).map(convertDBToBook));
+      return books.filter(book => book.seriesName === seriesName);
+    },
+    
+    // Visitors see the library as it was when the page was opened
+    subscribe: () => () => {}
+  };
+};
@@ -0,0 +1,128 @@
+/**
+ * Book repository backed by Supabase, with the IndexedDB mirror kept by the services
+ */
+import { supabase } from '@/lib/supabaseClient';
+import { BOOKS_TABLE, RECOMMENDATIONS_TABLE } from '@/lib/supabase';
+import { Tables } from '@/integrations/supabase/types';
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { BookCollection, BookRepository, RepositoryListener } from '@/types/repository';
+import * as supabaseBookService from '../supabaseBookService';
+import * as outboxService from '../outboxService';
+import * as quarantineService from '../quarantineService';
+import { convertDBToBook } from '../bookMappers';
+import { consumeEcho } from '../realtimeEchoes';
+import { subscribeToConnection } from '../supabaseConnection';
+
+type BookRow = Tables<'books'>;
+
+/**
+ * Apply each change event directly instead of refetching the table. Events
+ * caused by this tab's own writes are skipped, and the collection is only
+ * reloaded when the channel reconnects after missing events.
+ */
+const subscribeToTable = (
+  table: typeof BOOKS_TABLE | typeof RECOMMENDATIONS_TABLE,
+  collection: BookCollection,
+  ownerId: string | null,
+  listener: RepositoryListener
+): RealtimeChannel => {
+  let hasSubscribed = false;
+  let missedEvents = false;
+  
+  const handleChange = async (payload: RealtimePostgresChangesPayload<BookRow>) => {
+    const id = payload.eventType === 'DELETE' ? payload.old.id : payload.new.id;
+    if (!id || consumeEcho({ table, id })) return;
+    
+    if (payload.eventType === 'DELETE') {
+      listener({ type: 'delete', collection, id });
+      return;
+    }
+    
+    // Other libraries' changes are skipped; deletes carry only the id, but removing a book not shown does nothing
+    if (ownerId && payload.new.owner_id !== ownerId) return;
+    
+    const book = await quarantineService.validateOrQuarantine(convertDBToBook(payload.new), 'supabase', collection);
+    if (book) {
+      listener({ type: 'upsert', collection, book });
+    }
+  };
+  
+  return supabase.channel(`${table}-changes`)
+    .on('postgres_changes', { event: '*', schema: 'public', table }, (payload: RealtimePostgresChangesPayload<BookRow>) => {
+      console.log(`Real-time ${table} ${payload.eventType} received`);
+      handleChange(payload);
+    })
+    .subscribe(status => {
+      if (status === 'SUBSCRIBED') {
+        if (hasSubscribed && missedEvents) {
+          console.log(`Real-time ${table} channel reconnected, resyncing`);
+          listener({ type: 'resync', collection });
+        }
+        hasSubscribed = true;
+        missedEvents = false;
+      } else {
+        missedEvents = true;
+      }
+    });
+};
+
+/**
+ * Repository for one user's library; pass null to read every library
+ */
+export const createSupabaseRepository = (ownerId: string | null = null): BookRepository => {
+  // Writes that failed in an earlier session are sent as soon as we can
+  outboxService.startOutboxReplay();
+  
+  return {
+    kind: 'supabase',
+    
+    list: (collection) => collection === 'recommendations'
+      ? supabaseBookService.getAllRecommendations(ownerId)
+      : supabaseBookService.getAllBooks(ownerId),
+    
+    listTrash: (collection) => supabaseBookService.getTrash(collection === 'recommendations', ownerId),
+    
+    listPage: (collection, options) =>
+      supabaseBookService.getPage(collection === 'recommendations', ownerId, options),
+    
+    get: (id, collection) => supabaseBookService.getBook(id, collection === 'recommendations'),
+    
+    // New books go into this library unless they name their owner
+    create: (book) => supabaseBookService.addBook({ ...book, ownerId: book.ownerId || ownerId || undefined }),
+    
+    update: (id, bookData, collection, options) =>
+      supabaseBookService.updateBook(id, bookData, collection === 'recommendations', options),
+    
+    delete: (id, collection) => supabaseBookService.deleteBook(id, collection === 'recommendations'),
+    
+    reorder: (updates) => supabaseBookService.updateBookOrder(updates),
+    
+    accept: (recommendationId) => supabaseBookService.acceptRecommendation(recommendationId),
+    
+    listSeries: (seriesName) => supabaseBookService.getBooksInSeries(seriesName, ownerId),
+    
+    subscribe: (listener: RepositoryListener) => {
+      try {
+        const booksChannel = subscribeToTable(BOOKS_TABLE, 'books', ownerId, listener);
+        const recommendationsChannel = subscribeToTable(RECOMMENDATIONS_TABLE, 'recommendations', ownerId, listener);
+        
+        // Lists read in local mode came from the mirror, so reload them from Supabase when it is back
+        const unsubscribeConnection = subscribeToConnection(state => {
+          if (state === 'closed') {
+            listener({ type: 'resync', collection: 'books' });
+            listener({ type: 'resync', collection: 'recommendations' });
+          }
+        });
+      
+        return () => {
+          supabase.removeChannel(booksChannel);
+          supabase.removeChannel(recommendationsChannel);
+          unsubscribeConnection();
+        };
+      } catch (error) {
+        console.error('Error setting up real-time subscriptions:', error);
+        return () => {};
+      }
+    }
+  };
+};
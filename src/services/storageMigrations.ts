@@ -0,0 +1,81 @@
+/**
+ * Schema versions for books persisted in the browser, and the migrations
+ * that upgrade records written by older versions of the app.
+ */
+import { Book } from '@/types/book';
+
+// Records stored before versioning was introduced count as version 0
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export type StoredBookRecord = Book & { schemaVersion?: number };
+
+// Older records may carry fields that are no longer part of Book
+export type LegacyRecord = Record<string, unknown> & { id: string; schemaVersion?: number };
+
+interface StorageMigration {
+  version: number;
+  description: string;
+  migrate: (record: LegacyRecord) => LegacyRecord;
+}
+
+const MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Single genre became a list of genres',
+    migrate: ({ genre, ...record }) => ({
+      ...record,
+      genres: Array.isArray(record.genres)
+        ? record.genres
+        : typeof genre === 'string' && genre ? [genre] : []
+    })
+  },
+  {
+    version: 2,
+    description: 'Added favorite, isSeries and tags',
+    migrate: (record) => ({
+      ...record,
+      favorite: typeof record.favorite === 'boolean' ? record.favorite : false,
+      isSeries: typeof record.isSeries === 'boolean' ? record.isSeries : false,
+      tags: Array.isArray(record.tags) ? record.tags : []
+    })
+  },
+  {
+    version: 3,
+    description: 'dateRead is stored as a Date instead of a JSON string',
+    migrate: (record) => ({
+      ...record,
+      dateRead: record.dateRead instanceof Date
+        ? record.dateRead
+        : record.dateRead ? new Date(record.dateRead as string) : new Date()
+    })
+  }
+];
+
+/**
+ * Run every migration newer than the record's version, in order
+ * @returns The upgraded record, and whether anything changed
+ */
+export const migrateRecord = (record: LegacyRecord): { record: StoredBookRecord; migrated: boolean } => {
+  const fromVersion = record.schemaVersion || 0;
+  
+  if (fromVersion >= CURRENT_SCHEMA_VERSION) {
+    return { record: record as unknown as StoredBookRecord, migrated: false };
+  }
+  
+  const upgraded = MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .reduce((current, migration) => migration.migrate(current), record);
+  
+  return {
+    record: { ...upgraded, schemaVersion: CURRENT_SCHEMA_VERSION } as unknown as StoredBookRecord,
+    migrated: true
+  };
+};
+
+// Stamp a record with the version of the shape it is being written in
+export const toStoredRecord = (book: Book): StoredBookRecord => ({
+  ...book,
+  schemaVersion: CURRENT_SCHEMA_VERSION
+});
+
+export const fromStoredRecord = ({ schemaVersion, ...book }: StoredBookRecord): Book => book as Book;
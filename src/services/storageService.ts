@@ -1,149 +1,363 @@
 
 import { Book } from '@/types/book';
+import { BookCollection, OrderUpdate } from '@/types/repository';
+import {
+  STORES,
+  deleteRecord,
+  getAllRecords,
+  getRecord,
+  moveRecord,
+  putRecord,
+  putRecords,
+  replaceAllRecords
+} from '@/lib/indexedDb';
+import {
+  LegacyRecord,
+  StoredBookRecord,
+  fromStoredRecord,
+  migrateRecord,
+  toStoredRecord
+} from './storageMigrations';
+import * as quarantineService from './quarantineService';
+import { toServiceError } from './errors';
 
-// LocalStorage service for handling book data when not using Supabase
-export const getStoredBooks = (): Book[] => {
+// IndexedDB service for handling book data when not using Supabase, and as the offline mirror
+
+// Uploaded covers live in their own store; book records point at them with this prefix
+export const COVER_REF_PREFIX = 'idb-cover:';
+
+const LEGACY_KEYS: BookCollection[] = ['books', 'recommendations'];
+const MIGRATION_FLAG = 'localStorageMigrated';
+
+interface StoredCover {
+  id: string;
+  blob: Blob;
+  updatedAt: string;
+}
+
+type StorageListener = (collection: BookCollection) => void;
+
+const listeners = new Set<StorageListener>();
+const changesChannel = typeof BroadcastChannel !== 'undefined'
+  ? new BroadcastChannel('bookshelf-storage')
+  : null;
+
+changesChannel?.addEventListener('message', (event: MessageEvent<BookCollection>) => {
+  listeners.forEach(listener => listener(event.data));
+});
+
+/**
+ * Listen for writes made by other tabs
+ */
+export const subscribeToStorageChanges = (listener: StorageListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notifyChange = (collection: BookCollection) => {
+  changesChannel?.postMessage(collection);
+};
+
+/**
+ * Run a write against the offline mirror of a remote store. The remote write it
+ * shadows goes ahead either way, so a failure here is only logged.
+ */
+export const writeToMirror = async <T>(write: () => Promise<T>): Promise<T | null> => {
   try {
-    const storedBooks = localStorage.getItem('books');
-    if (!storedBooks) {
-      console.log('No books found in localStorage, returning empty array');
-      return [];
-    }
-    const parsedBooks = JSON.parse(storedBooks);
-    console.log(`Retrieved ${parsedBooks.length} books from localStorage`);
-    return parsedBooks;
+    return await write();
+  } catch (error) {
+    console.error('Error writing to the local mirror:', error);
+    return null;
+  }
+};
+
+const storeFor = (isRecommendation: boolean) => isRecommendation ? STORES.recommendations : STORES.books;
+
+// Records that fail validation are moved out of their store and into quarantine
+const validateRecords = async (books: Book[], isRecommendation: boolean): Promise<Book[]> => {
+  const validBooks = await quarantineService.filterValidBooks(books, 'indexedDb', storeFor(isRecommendation));
+  const validIds = new Set(validBooks.map(book => book.id));
+  
+  await Promise.all(books
+    .filter(book => !validIds.has(book.id))
+    .map(book => deleteRecord(storeFor(isRecommendation), book.id)));
+  
+  return validBooks;
+};
+
+/**
+ * Read every record in a store, upgrading and re-saving any written by an older schema
+ */
+const loadRecords = async (isRecommendation: boolean): Promise<Book[]> => {
+  const records = await getAllRecords<LegacyRecord>(storeFor(isRecommendation));
+  const results = records.map(migrateRecord);
+  
+  const upgraded = results.filter(result => result.migrated).map(result => result.record);
+  if (upgraded.length > 0) {
+    await putRecords(storeFor(isRecommendation), upgraded);
+    console.log(`Upgraded ${upgraded.length} ${storeFor(isRecommendation)} to the current storage schema`);
+  }
+  
+  return validateRecords(results.map(result => fromStoredRecord(result.record)), isRecommendation);
+};
+
+const loadRecord = async (id: string, isRecommendation: boolean): Promise<Book | null> => {
+  const record = await getRecord<LegacyRecord>(storeFor(isRecommendation), id);
+  if (!record) return null;
+  
+  const result = migrateRecord(record);
+  if (result.migrated) {
+    await putRecord(storeFor(isRecommendation), result.record);
+  }
+  const [book] = await validateRecords([fromStoredRecord(result.record)], isRecommendation);
+  return book || null;
+};
+
+// Prepare a book for writing: covers move to their own store and the schema version is stamped
+const prepareRecord = async (book: Book): Promise<StoredBookRecord> =>
+  toStoredRecord(await externalizeCover(book));
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Move an inline data URL cover into the cover store and keep only a reference on the record
+const externalizeCover = async (book: Book): Promise<Book> => {
+  if (!book.coverUrl || !book.coverUrl.startsWith('data:')) {
+    return book;
+  }
+  
+  const cover: StoredCover = {
+    id: book.id,
+    blob: await dataUrlToBlob(book.coverUrl),
+    updatedAt: new Date().toISOString()
+  };
+  await putRecord(STORES.covers, cover);
+  
+  return { ...book, coverUrl: `${COVER_REF_PREFIX}${book.id}` };
+};
+
+const hydrateCover = async (book: Book): Promise<Book> => {
+  if (!book.coverUrl || !book.coverUrl.startsWith(COVER_REF_PREFIX)) {
+    return book;
+  }
+  
+  try {
+    const cover = await getRecord<StoredCover>(STORES.covers, book.coverUrl.slice(COVER_REF_PREFIX.length));
+    return { ...book, coverUrl: cover ? await blobToDataUrl(cover.blob) : '' };
+  } catch (error) {
+    console.error(`Error loading cover for book ${book.id}:`, error);
+    return { ...book, coverUrl: '' };
+  }
+};
+
+/**
+ * Copy the data written by earlier versions of the app, which kept each
+ * collection as one JSON string in localStorage. Runs once per browser.
+ */
+const migrateFromLocalStorage = async (): Promise<void> => {
+  const flag = await getRecord<{ key: string; value: boolean }>(STORES.meta, MIGRATION_FLAG);
+  if (flag?.value) return;
+  
+  for (const key of LEGACY_KEYS) {
+    const stored = localStorage.getItem(key);
+    if (!stored) continue;
+    
+    // Written unversioned, so the schema migrations upgrade them on first load
+    const items: Book[] = JSON.parse(stored);
+    const records = await Promise.all(items.map(externalizeCover));
+    await putRecords(storeFor(key === 'recommendations'), records);
+    console.log(`Migrated ${records.length} ${key} from localStorage to IndexedDB`);
+  }
+  
+  await putRecord(STORES.meta, { key: MIGRATION_FLAG, value: true });
+  
+  // Free the localStorage quota only once everything is safely copied
+  LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+};
+
+let migrationPromise: Promise<void> | null = null;
+
+const ensureMigrated = (): Promise<void> => {
+  if (!migrationPromise) {
+    migrationPromise = migrateFromLocalStorage().catch(error => {
+      console.error('Error migrating localStorage data to IndexedDB:', error);
+      migrationPromise = null;
+    });
+  }
+  return migrationPromise;
+};
+
+const readCollection = async (isRecommendation: boolean): Promise<Book[]> => {
+  await ensureMigrated();
+  const books = await loadRecords(isRecommendation);
+  return Promise.all(books.map(hydrateCover));
+};
+
+export const getStoredBooks = async (): Promise<Book[]> => {
+  try {
+    const books = (await readCollection(false)).filter(book => !book.deletedAt);
+    console.log(`Retrieved ${books.length} books from IndexedDB`);
+    return books.sort((a, b) => (a.order || 0) - (b.order || 0));
   } catch (error) {
-    console.error('Error getting books from localStorage:', error);
+    console.error('Error getting books from IndexedDB:', error);
     return [];
   }
 };
 
-export const getStoredRecommendations = (): Book[] => {
+export const getStoredRecommendations = async (): Promise<Book[]> => {
   try {
-    const storedRecommendations = localStorage.getItem('recommendations');
-    if (!storedRecommendations) {
-      console.log('No recommendations found in localStorage, returning empty array');
-      return [];
-    }
-    const parsedRecommendations = JSON.parse(storedRecommendations);
-    console.log(`Retrieved ${parsedRecommendations.length} recommendations from localStorage`);
-    return parsedRecommendations;
+    const recommendations = (await readCollection(true)).filter(book => !book.deletedAt);
+    console.log(`Retrieved ${recommendations.length} recommendations from IndexedDB`);
+    return recommendations.sort((a, b) => 
+      new Date(b.dateRead).getTime() - new Date(a.dateRead).getTime()
+    );
+  } catch (error) {
+    console.error('Error getting recommendations from IndexedDB:', error);
+    return [];
+  }
+};
+
+export const getStoredTrash = async (isRecommendation: boolean = false): Promise<Book[]> => {
+  try {
+    const trashed = (await readCollection(isRecommendation)).filter(book => book.deletedAt);
+    return trashed.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
   } catch (error) {
-    console.error('Error getting recommendations from localStorage:', error);
+    console.error('Error getting trash from IndexedDB:', error);
     return [];
   }
 };
 
-export const storeBooks = (books: Book[]): void => {
+export const getStoredBook = async (id: string, isRecommendation: boolean = false): Promise<Book | null> => {
+  try {
+    await ensureMigrated();
+    const book = await loadRecord(id, isRecommendation);
+    return book ? hydrateCover(book) : null;
+  } catch (error) {
+    console.error('Error getting book from IndexedDB:', error);
+    return null;
+  }
+};
+
+const replaceCollection = async (items: Book[], isRecommendation: boolean): Promise<void> => {
+  await ensureMigrated();
+  const records = await Promise.all(items.map(prepareRecord));
+  await replaceAllRecords(storeFor(isRecommendation), records);
+  notifyChange(isRecommendation ? 'recommendations' : 'books');
+};
+
+export const storeBooks = async (books: Book[]): Promise<void> => {
   try {
-    localStorage.setItem('books', JSON.stringify(books));
-    console.log(`Stored ${books.length} books in localStorage`);
+    await replaceCollection(books, false);
+    console.log(`Stored ${books.length} books in IndexedDB`);
   } catch (error) {
-    console.error('Error saving books to localStorage:', error);
+    console.error('Error saving books to IndexedDB:', error);
   }
 };
 
-export const storeRecommendations = (recommendations: Book[]): void => {
+export const storeRecommendations = async (recommendations: Book[]): Promise<void> => {
   try {
-    localStorage.setItem('recommendations', JSON.stringify(recommendations));
-    console.log(`Stored ${recommendations.length} recommendations in localStorage`);
+    await replaceCollection(recommendations, true);
+    console.log(`Stored ${recommendations.length} recommendations in IndexedDB`);
   } catch (error) {
-    console.error('Error saving recommendations to localStorage:', error);
+    console.error('Error saving recommendations to IndexedDB:', error);
   }
 };
 
-export const addStoredBook = (book: Book, isRecommendation: boolean = false): void => {
+export const addStoredBook = async (book: Book, isRecommendation: boolean = false): Promise<void> => {
   try {
-    const storageKey = isRecommendation ? 'recommendations' : 'books';
-    const existing = localStorage.getItem(storageKey);
-    const items = existing ? JSON.parse(existing) : [];
-    const updatedItems = [...items, book];
-    localStorage.setItem(storageKey, JSON.stringify(updatedItems));
-    console.log(`Added book "${book.title}" to ${storageKey}. New count: ${updatedItems.length}`);
+    await ensureMigrated();
+    await putRecord(storeFor(isRecommendation), await prepareRecord(book));
+    notifyChange(isRecommendation ? 'recommendations' : 'books');
+    console.log(`Added book "${book.title}" to ${storeFor(isRecommendation)} in IndexedDB`);
   } catch (error) {
-    console.error(`Error adding book to ${isRecommendation ? 'recommendations' : 'books'} in localStorage:`, error);
+    console.error(`Error adding book to ${isRecommendation ? 'recommendations' : 'books'} in IndexedDB:`, error);
+    throw toServiceError(error);
   }
 };
 
-export const updateStoredBook = (
+export const updateStoredBook = async (
   id: string, 
   bookData: Partial<Book>, 
   isRecommendation: boolean = false
-): Book | null => {
+): Promise<Book | null> => {
   try {
-    const storageKey = isRecommendation ? 'recommendations' : 'books';
-    const existing = localStorage.getItem(storageKey);
+    await ensureMigrated();
+    const existing = await loadRecord(id, isRecommendation);
     
     if (!existing) {
       return null;
     }
     
-    const items = JSON.parse(existing);
-    const itemIndex = items.findIndex((item: Book) => item.id === id);
-    
-    if (itemIndex === -1) {
-      return null;
+    // A replaced cover takes the place of the stored one; a cleared cover frees it
+    if (bookData.coverUrl !== undefined && !bookData.coverUrl.startsWith(COVER_REF_PREFIX)) {
+      await deleteRecord(STORES.covers, id);
     }
     
-    const updatedBook = { ...items[itemIndex], ...bookData };
-    items[itemIndex] = updatedBook;
-    
-    localStorage.setItem(storageKey, JSON.stringify(items));
+    const updatedRecord = await prepareRecord({ ...existing, ...bookData, id });
+    await putRecord(storeFor(isRecommendation), updatedRecord);
+    notifyChange(isRecommendation ? 'recommendations' : 'books');
     
-    return updatedBook;
+    return hydrateCover(fromStoredRecord(updatedRecord));
   } catch (error) {
-    console.error('Error updating book in localStorage:', error);
-    return null;
+    console.error('Error updating book in IndexedDB:', error);
+    throw toServiceError(error);
   }
 };
 
-export const deleteStoredBook = (id: string, isRecommendation: boolean = false): void => {
+export const deleteStoredBook = async (id: string, isRecommendation: boolean = false): Promise<void> => {
   try {
-    const storageKey = isRecommendation ? 'recommendations' : 'books';
-    const existing = localStorage.getItem(storageKey);
-    
-    if (!existing) {
-      return;
-    }
-    
-    const items = JSON.parse(existing);
-    const updatedItems = items.filter((item: Book) => item.id !== id);
-    
-    localStorage.setItem(storageKey, JSON.stringify(updatedItems));
+    await ensureMigrated();
+    await deleteRecord(storeFor(isRecommendation), id);
+    await deleteRecord(STORES.covers, id);
+    notifyChange(isRecommendation ? 'recommendations' : 'books');
   } catch (error) {
-    console.error('Error deleting book from localStorage:', error);
+    console.error('Error deleting book from IndexedDB:', error);
+    throw toServiceError(error);
   }
 };
 
-export const updateStoredBookOrder = (orderedIds: string[]): void => {
+/**
+ * Replace a recommendation with the book it was accepted as. Both stores
+ * change in one transaction, so the book is never on both shelves or neither.
+ */
+export const acceptStoredRecommendation = async (recommendationId: string, book: Book): Promise<void> => {
   try {
-    const existing = localStorage.getItem('books');
-    
-    if (!existing) {
-      return;
-    }
-    
-    const books = JSON.parse(existing);
-    
-    // Create a map of id to books
-    const bookMap = books.reduce((map: Record<string, Book>, book: Book) => {
-      map[book.id] = book;
-      return map;
-    }, {});
-    
-    // Reorder books based on orderedIds
-    const orderedBooks = orderedIds
-      .filter(id => bookMap[id]) // Only include existing books
-      .map((id, index) => ({
-        ...bookMap[id],
-        order: index
-      }));
-    
-    // Add any books that weren't in the ordered list
-    const unorderedBooks = books.filter((book: Book) => !orderedIds.includes(book.id));
+    await ensureMigrated();
+    // The book has its own id, so an uploaded cover is stored again under it
+    await moveRecord(STORES.recommendations, recommendationId, STORES.books, await prepareRecord(book));
+    await deleteRecord(STORES.covers, recommendationId);
+    notifyChange('recommendations');
+    notifyChange('books');
+  } catch (error) {
+    console.error('Error accepting recommendation in IndexedDB:', error);
+    throw toServiceError(error);
+  }
+};
+
+export const updateStoredBookOrder = async (updates: OrderUpdate[]): Promise<void> => {
+  try {
+    await ensureMigrated();
+    const positions = new Map(updates.map(({ id, order }) => [id, order]));
+    const movedBooks = (await loadRecords(false))
+      .filter(book => positions.has(book.id))
+      .map(book => ({ ...book, order: positions.get(book.id) }));
     
-    localStorage.setItem('books', JSON.stringify([...orderedBooks, ...unorderedBooks]));
+    await putRecords(STORES.books, movedBooks.map(toStoredRecord));
+    notifyChange('books');
   } catch (error) {
-    console.error('Error updating book order in localStorage:', error);
+    console.error('Error updating book order in IndexedDB:', error);
+    throw toServiceError(error);
   }
 };
@@ -0,0 +1,201 @@
+/**
+ * Recommendations sent by visitors from the /recommend page. They wait for
+ * the library's owner to approve, merge or reject them, and only reach the
+ * Recommendations tab once approved or merged.
+ */
+import { supabase } from '@/lib/supabaseClient';
+import { Database, Tables } from '@/integrations/supabase/types';
+import { recommendationSubmissionSchema } from '@/lib/bookSchema';
+import { RECOMMENDATION_SUBMISSIONS_TABLE, SupabaseResponse } from '@/lib/supabase';
+import { Book } from '@/types/book';
+import {
+  NewRecommendationSubmission,
+  RecommendationSubmission,
+  SubmissionDuplicate,
+  SubmissionSignals,
+  SubmissionStatus
+} from '@/types/submission';
+import { normalizeIsbn } from '@/utils/bookMatching';
+import { convertDBToBook } from './bookMappers';
+import { ValidationError } from './errors';
+import { supabaseRequest } from './supabaseConnection';
+
+type SubmissionRow = Tables<'recommendation_submissions'>;
+type RecommendationRow = Tables<'recommendations'>;
+type DuplicateRow = Database['public']['Functions']['find_public_duplicate']['Returns'][number];
+
+const STATUSES: SubmissionStatus[] = ['pending', 'approved', 'merged', 'rejected'];
+
+const toSubmission = (row: SubmissionRow): RecommendationSubmission => ({
+  id: row.id,
+  ownerId: row.owner_id,
+  title: row.title,
+  author: row.author,
+  isbn: row.isbn || undefined,
+  recommendedBy: row.recommended_by,
+  email: row.email || undefined,
+  note: row.note || undefined,
+  status: STATUSES.includes(row.status as SubmissionStatus) ? row.status as SubmissionStatus : 'pending',
+  recommendationId: row.recommendation_id || undefined,
+  duplicateOf: row.duplicate_of || undefined,
+  createdAt: row.created_at
+});
+
+/**
+ * The book a visitor's recommendation repeats: one already on the library's
+ * shelf, or else one already recommended. The library is searched on the
+ * server, which checks only what visitors may see of it, so a hidden book is
+ * never given away and only the match is sent back.
+ */
+export const findDuplicate = async (
+  libraryOwnerId: string,
+  submission: Pick<NewRecommendationSubmission, 'title' | 'author' | 'isbn'>
+): Promise<SubmissionDuplicate | null> => {
+  const result = await supabaseRequest<DuplicateRow | null>(
+    signal => supabase.rpc('find_public_duplicate', {
+      library_owner: libraryOwnerId,
+      book_title: submission.title,
+      book_author: submission.author,
+      book_isbn: submission.isbn || undefined
+    })
+      .abortSignal(signal)
+      .maybeSingle()
+  );
+  
+  if (result.error) {
+    throw result.error;
+  }
+  if (!result.data) return null;
+  
+  const { id, title, status } = result.data;
+  return { id, title, status: status as Book['status'] };
+};
+
+/**
+ * Start a /recommend form, returning the token to send it with. Each token
+ * is good for one recommendation. Rejects with a QuotaError when the visitor
+ * has opened too many forms in the last hour.
+ */
+export const startForm = async (): Promise<string> => {
+  const result = await supabaseRequest<string>(
+    signal => supabase.rpc('start_recommendation_form').abortSignal(signal)
+  );
+  
+  if (result.error) {
+    throw result.error;
+  }
+  
+  return result.data;
+};
+
+/**
+ * Send a visitor's recommendation to the owner of a library for review.
+ * Rejects with a ValidationError when a field is missing or malformed, and
+ * with a QuotaError when the visitor has sent too many in the last hour.
+ * The server quietly drops submissions that look automated or that the
+ * owner has blocked, so those seem to go through like any other.
+ */
+export const submitRecommendation = async (
+  libraryOwnerId: string,
+  submission: NewRecommendationSubmission,
+  signals: SubmissionSignals
+): Promise<string> => {
+  const parsed = recommendationSubmissionSchema.safeParse(submission);
+  if (!parsed.success) {
+    throw new ValidationError(parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`));
+  }
+  
+  const { title, author, isbn, recommendedBy, email, note } = parsed.data;
+  // Not retried, so a slow response can't queue the same book twice
+  const result = await supabaseRequest<string>(
+    signal => supabase.rpc('submit_recommendation', {
+      library_owner: libraryOwnerId,
+      book_title: title,
+      book_author: author,
+      recommender_name: recommendedBy,
+      recommender_email: email || undefined,
+      submission_note: note || undefined,
+      book_isbn: normalizeIsbn(isbn) || undefined,
+      duplicate_of_recommendation: submission.duplicateOf,
+      honeypot: signals.honeypot || undefined,
+      form_token: signals.formToken
+    }).abortSignal(signal),
+    { retries: 0 }
+  );
+  
+  if (result.error) {
+    throw result.error;
+  }
+  
+  return result.data;
+};
+
+/**
+ * Submissions to the owner's library still waiting for review, oldest first
+ */
+export const getPendingSubmissions = async (ownerId: string): Promise<RecommendationSubmission[]> => {
+  const result = await supabaseRequest<SubmissionRow[]>(
+    signal => supabase.from(RECOMMENDATION_SUBMISSIONS_TABLE)
+      .select('*')
+      .eq('owner_id', ownerId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .abortSignal(signal)
+  );
+  
+  if (result.error) {
+    throw result.error;
+  }
+  
+  return (result.data || []).map(toSubmission);
+};
+
+const reviewedRecommendation = (result: SupabaseResponse<RecommendationRow>): Book => {
+  if (result.error) {
+    throw result.error;
+  }
+  return convertDBToBook(result.data);
+};
+
+/**
+ * Add a submission to the library's recommendations, returning the new one
+ */
+export const approveSubmission = async (submissionId: string): Promise<Book> =>
+  reviewedRecommendation(await supabaseRequest<RecommendationRow>(
+    signal => supabase.rpc('approve_recommendation_submission', { submission_id: submissionId })
+      .abortSignal(signal)
+      .single(),
+    { retries: 0 }
+  ));
+
+/**
+ * Fold a submission into a recommendation already in the library, returning
+ * that recommendation with the submission's recommender added
+ */
+export const mergeSubmission = async (submissionId: string, recommendationId: string): Promise<Book> =>
+  reviewedRecommendation(await supabaseRequest<RecommendationRow>(
+    signal => supabase.rpc('merge_recommendation_submission', {
+      submission_id: submissionId,
+      into_recommendation: recommendationId
+    })
+      .abortSignal(signal)
+      .single(),
+    { retries: 0 }
+  ));
+
+/**
+ * Turn a submission down. It's kept, marked rejected, rather than deleted.
+ */
+export const rejectSubmission = async (submissionId: string): Promise<void> => {
+  const result = await supabaseRequest(
+    signal => supabase.from(RECOMMENDATION_SUBMISSIONS_TABLE)
+      .update({ status: 'rejected', reviewed_at: new Date().toISOString() })
+      .eq('id', submissionId)
+      .eq('status', 'pending')
+      .abortSignal(signal)
+  );
+  
+  if (result.error) {
+    throw result.error;
+  }
+};
@@ -3,6 +3,7 @@
  * Main service that delegates to the specific book/recommendation services
  */
 import { Book } from '@/types/book';
+import { BookPage, PageOptions, UpdateOptions, Written } from '@/types/repository';
 import * as booksService from './booksSupabaseService';
 import * as recommendationsService from './recommendationsSupabaseService';
 
@@ -10,11 +11,46 @@ export const getAllBooks = booksService.getAllBooks;
 export const getBooksInSeries = booksService.getBooksInSeries;
 export const updateBookOrder = booksService.updateBookOrder;
 export const getAllRecommendations = recommendationsService.getAllRecommendations;
+export const acceptRecommendation = recommendationsService.acceptRecommendation;
+
+/**
+ * Get the trashed books or recommendations of one library
+ */
+export const getTrash = async (isRecommendation: boolean = false, ownerId: string | null = null): Promise<Book[]> => {
+  if (isRecommendation) {
+    return recommendationsService.getTrashedRecommendations(ownerId);
+  }
+  return booksService.getTrashedBooks(ownerId);
+};
+
+/**
+ * Get a page of book or recommendation summaries from one library
+ */
+export const getPage = async (
+  isRecommendation: boolean = false,
+  ownerId: string | null = null,
+  options: PageOptions = {}
+): Promise<BookPage> => {
+  if (isRecommendation) {
+    return recommendationsService.getRecommendationsPage(ownerId, options);
+  }
+  return booksService.getBooksPage(ownerId, options);
+};
+
+/**
+ * Get a single book or recommendation by id
+ */
+export const getBook = async (id: string, isRecommendation: boolean = false): Promise<Book | null> => {
+  if (isRecommendation) {
+    return recommendationsService.getRecommendationById(id);
+  }
+  return booksService.getBookById(id);
+};
 
 /**
  * Add a book to the appropriate service based on its status
  */
-export const addBook = async (book: Omit<Book, 'id'>): Promise<Book> => {
+export const addBook = async (book: Omit<Book, 'id'>): Promise<Written<Book>> => {
   if (book.status === 'recommendation') {
     return recommendationsService.addRecommendation(book);
   }
@@ -27,18 +63,19 @@ export const addBook = async (book: Omit<Book, 'id'>): Promise<Book> => {
 export const updateBook = async (
   id: string, 
   bookData: Partial<Book>, 
-  isRecommendation: boolean = false
-): Promise<Book> => {
+  isRecommendation: boolean = false,
+  options: UpdateOptions = {}
+): Promise<Written<Book>> => {
   if (isRecommendation) {
-    return recommendationsService.updateRecommendation(id, bookData);
+    return recommendationsService.updateRecommendation(id, bookData, options);
   }
-  return booksService.updateBook(id, bookData);
+  return booksService.updateBook(id, bookData, options);
 };
 
 /**
  * Delete a book from the appropriate service
  */
-export const deleteBook = async (id: string, isRecommendation: boolean = false): Promise<void> => {
+export const deleteBook = async (id: string, isRecommendation: boolean = false): Promise<Written<void>> => {
   if (isRecommendation) {
     return recommendationsService.deleteRecommendation(id);
   }
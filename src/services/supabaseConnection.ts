@@ -0,0 +1,109 @@
+/**
+ * Every request to Supabase goes through here: each attempt has a time limit
+ * and is cancelled when it runs out, network failures are retried with backoff,
+ * and after repeated failures the app switches to local mode until a probe
+ * finds Supabase reachable again.
+ */
+import { supabase } from '@/lib/supabaseClient';
+import { BOOKS_TABLE, SupabaseResponse } from '@/lib/supabase';
+import { withRetry } from '@/utils/timeoutUtils';
+import { CircuitListener, CircuitState, createCircuitBreaker } from '@/utils/circuitBreaker';
+import { NetworkError, toServiceError } from './errors';
+
+const TIMEOUT_MS = 5000;
+const PROBE_TIMEOUT_MS = 3000;
+
+// Failed requests in a row before switching to local mode
+const FAILURE_THRESHOLD = 3;
+const PROBE_DELAY_MS = 15000;
+const MAX_PROBE_DELAY_MS = 5 * 60 * 1000;
+
+// The cheapest request that proves the API and database are answering
+const probeSupabase = async (): Promise<void> => {
+  const result = await withRetry<SupabaseResponse<unknown>>(
+    signal => supabase.from(BOOKS_TABLE).select('id', { head: true }).limit(1).abortSignal(signal),
+    { timeoutMs: PROBE_TIMEOUT_MS }
+  );
+  
+  if (result.error) {
+    throw result.error;
+  }
+};
+
+const breaker = createCircuitBreaker({
+  failureThreshold: FAILURE_THRESHOLD,
+  probeDelayMs: PROBE_DELAY_MS,
+  maxProbeDelayMs: MAX_PROBE_DELAY_MS,
+  probe: probeSupabase
+});
+
+breaker.subscribe(state => {
+  if (state === 'open') {
+    console.warn('Supabase is unreachable, switching to local mode');
+  } else if (state === 'closed') {
+    console.log('Supabase is reachable again, leaving local mode');
+  }
+});
+
+// Coming back online is a good moment to check rather than wait for the next probe
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    breaker.probeNow();
+  });
+}
+
+export type ConnectionState = CircuitState;
+
+export const getConnectionState = (): ConnectionState => breaker.getState();
+
+// True while requests are answered from the local mirror instead of Supabase
+export const isLocalMode = (): boolean => !breaker.canRequest();
+
+export const subscribeToConnection = (listener: CircuitListener): (() => void) => breaker.subscribe(listener);
+
+/**
+ * Check whether Supabase is reachable again without waiting for the next scheduled probe
+ */
+export const reconnect = (): Promise<void> => breaker.probeNow();
+
+export interface SupabaseRequestOptions {
+  timeoutMs?: number;
+  // Extra attempts for network failures and timeouts; writes that the outbox retries pass 0
+  retries?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Send a Supabase request built by the given function, which must attach the
+ * signal with .abortSignal(). Failures come back in the error field like any
+ * Supabase response; in local mode the request is not sent at all.
+ */
+export const supabaseRequest = async <T>(
+  request: (signal: AbortSignal) => PromiseLike<SupabaseResponse<T>>,
+  { timeoutMs = TIMEOUT_MS, retries = 1, signal }: SupabaseRequestOptions = {}
+): Promise<SupabaseResponse<T>> => {
+  if (isLocalMode()) {
+    return { data: null, error: new NetworkError('Working in local mode until Supabase is reachable') };
+  }
+  
+  try {
+    const result = await withRetry(async attemptSignal => {
+      const response = await request(attemptSignal);
+      // Supabase reports failures in the response rather than rejecting, so surface them to be retried
+      if (response.error && toServiceError(response.error).retryable) {
+        throw response.error;
+      }
+      return response;
+    }, { timeoutMs, retries, signal });
+    
+    breaker.recordSuccess();
+    return result;
+  } catch (error) {
+    const serviceError = toServiceError(error);
+    // A request the caller cancelled says nothing about Supabase's health
+    if (serviceError.retryable && !signal?.aborted) {
+      breaker.recordFailure();
+    }
+    return { data: null, error: serviceError };
+  }
+};
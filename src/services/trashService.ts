@@ -0,0 +1,93 @@
+/**
+ * Retention settings for the trash: removed books stay restorable for a
+ * number of days and are then purged for good. A library in Supabase keeps
+ * its retention with it, so every device purges against the same period;
+ * a library that lives only on this device keeps it in localStorage, under
+ * its owner so that users sharing a browser don't share the setting.
+ */
+import { supabase } from '@/lib/supabaseClient';
+import { Tables } from '@/integrations/supabase/types';
+import { LIBRARY_SETTINGS_TABLE } from '@/lib/supabase';
+import { Book } from '@/types/book';
+import { supabaseRequest } from './supabaseConnection';
+
+const RETENTION_KEY = 'trashRetentionDays';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RETENTION_OPTIONS = [7, 14, 30, 90];
+
+export const DEFAULT_RETENTION_DAYS = Number(import.meta.env.VITE_TRASH_RETENTION_DAYS) || 30;
+
+// Libraries without an owner keep the key used before libraries had owners
+const deviceKeyFor = (ownerId: string | null): string => ownerId ? `${RETENTION_KEY}:${ownerId}` : RETENTION_KEY;
+
+const getDeviceRetentionDays = (ownerId: string | null): number => {
+  try {
+    const stored = Number(localStorage.getItem(deviceKeyFor(ownerId)));
+    return stored > 0 ? stored : DEFAULT_RETENTION_DAYS;
+  } catch (error) {
+    console.error('Error reading trash retention from localStorage:', error);
+    return DEFAULT_RETENTION_DAYS;
+  }
+};
+
+const setDeviceRetentionDays = (ownerId: string | null, days: number): void => {
+  try {
+    localStorage.setItem(deviceKeyFor(ownerId), String(days));
+  } catch (error) {
+    console.error('Error saving trash retention to localStorage:', error);
+  }
+};
+
+/**
+ * How long the given library keeps removed books. Pass inSupabase false for
+ * a library that lives only on this device. Rejects when the library's
+ * setting can't be read, so nothing is purged against a guess.
+ */
+export const getRetentionDays = async (ownerId: string | null, inSupabase: boolean): Promise<number> => {
+  if (!ownerId || !inSupabase) return getDeviceRetentionDays(ownerId);
+  
+  const result = await supabaseRequest<Tables<'library_settings'> | null>(
+    signal => supabase.from(LIBRARY_SETTINGS_TABLE)
+      .select('*')
+      .eq('owner_id', ownerId)
+      .abortSignal(signal)
+      .maybeSingle()
+  );
+  
+  if (result.error) {
+    throw result.error;
+  }
+  
+  return result.data?.trash_retention_days || DEFAULT_RETENTION_DAYS;
+};
+
+/**
+ * Save how long the given library keeps removed books, on this device only when inSupabase is false
+ */
+export const setRetentionDays = async (ownerId: string | null, inSupabase: boolean, days: number): Promise<void> => {
+  if (!ownerId || !inSupabase) {
+    setDeviceRetentionDays(ownerId, days);
+    return;
+  }
+  
+  const result = await supabaseRequest<unknown>(
+    signal => supabase.from(LIBRARY_SETTINGS_TABLE)
+      .upsert({ owner_id: ownerId, trash_retention_days: days })
+      .abortSignal(signal),
+    { retries: 0 }
+  );
+  
+  if (result.error) {
+    throw result.error;
+  }
+};
+
+/**
+ * When a trashed book will be permanently deleted
+ */
+export const getPurgeDate = (book: Book, retentionDays: number): Date =>
+  new Date(new Date(book.deletedAt).getTime() + retentionDays * DAY_MS);
+
+export const isExpired = (book: Book, retentionDays: number, now: Date = new Date()): boolean =>
+  Boolean(book.deletedAt) && getPurgeDate(book, retentionDays) <= now;
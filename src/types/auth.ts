@@ -0,0 +1,22 @@
+export type AuthProviderKind = 'firebase' | 'local';
+
+// The signed-in user, whichever provider they signed in through
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+}
+
+export type AuthListener = (user: AuthUser | null) => void;
+
+// Signs users in and issues the token Supabase requests are made with
+export interface AuthProvider {
+  kind: AuthProviderKind;
+  getCurrentUser: () => AuthUser | null;
+  // Called once the signed-in user is known, then on every sign-in, sign-out and token refresh
+  subscribe: (listener: AuthListener) => () => void;
+  signIn: (email: string, password: string) => Promise<AuthUser>;
+  signOut: () => Promise<void>;
+  // A JWT whose sub claim is the user's uid, or null when nobody is signed in
+  getAccessToken: () => Promise<string | null>;
+}
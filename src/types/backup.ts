@@ -0,0 +1,27 @@
+import { Book } from './book';
+
+// Every book and recommendation, as backed up and restored
+export interface LibraryContents {
+  books: Book[];
+  recommendations: Book[];
+}
+
+// Why a snapshot was taken
+export type SnapshotReason = 'scheduled' | 'manual' | 'before-restore';
+
+// The whole library at one point in time
+export interface LibrarySnapshot {
+  id: string;
+  createdAt: string;
+  reason: SnapshotReason;
+  ownerId?: string | null; // The library it was taken of; unset on snapshots from before this was recorded
+  books: Book[];
+  recommendations: Book[];
+}
+
+// How the current library differs from a snapshot, i.e. what restoring it would do
+export interface SnapshotDiff {
+  added: number; // In the snapshot but no longer in the library
+  removed: number; // In the library but not in the snapshot; restoring moves these to the trash
+  changed: number;
+}
@@ -17,4 +17,10 @@ export interface Book {
   seriesPosition?: number; // Optional position in the series
   tags?: string[]; // New property for tags that will show as badges
   email?: string; // Added optional email field
+  updatedAt?: string; // Server version of the record, used to detect conflicting edits
+  deletedAt?: string; // Set while the book is in the trash
+  ownerId?: string; // User whose library the book is in; unset on books saved before libraries had owners
+  hidden?: boolean; // Left out of what visitors to the library see
+  sourceRecommendationId?: string; // The recommendation this book was accepted from
+  isbn?: string; // ISBN-10 or ISBN-13, when known
 }
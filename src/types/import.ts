@@ -0,0 +1,43 @@
+import { Book } from './book';
+import { WriteStatus } from './repository';
+
+// The statuses imported books can get; recommendations come from other people, not imports
+export type ImportStatus = Exclude<Book['status'], 'recommendation'>;
+
+// One book from a Goodreads library export, before it's mapped onto a Book
+export interface GoodreadsBook {
+  row: number; // Position in the file, counting from 1 after the header
+  goodreadsId?: string;
+  title: string;
+  author: string;
+  isbn?: string;
+  rating: number; // Stars the reader gave it, 0 when unrated
+  exclusiveShelf: string; // read, currently-reading, to-read, or a custom exclusive shelf
+  shelves: string[]; // The other shelves it's on
+  dateRead?: Date;
+  dateAdded?: Date;
+  pages: number;
+  seriesName?: string; // From a title like "Catching Fire (The Hunger Games, #2)"
+  seriesPosition?: number;
+}
+
+// How Goodreads fields become Book fields, chosen in the import preview
+export interface ImportMapping {
+  statusByShelf: Record<string, ImportStatus>;
+  // Books rated at least this many stars are marked favorite; null marks none
+  favoriteFromRating: number | null;
+  shelvesAsTags: boolean;
+}
+
+// Why a book in the import may already be in the library
+export type ImportDuplicate =
+  | { in: 'library'; book: Book }
+  | { in: 'file'; row: number };
+
+// What an import added, and what it left out
+export interface ImportSummary {
+  added: Book[];
+  invalid: number; // Failed validation, and are in quarantine
+  failed: number; // Valid, but couldn't be saved
+  status: WriteStatus; // Queued if any of the added books only reached this device
+}
@@ -0,0 +1,38 @@
+import { TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { OrderUpdate } from './repository';
+
+export type OutboxTable = 'books' | 'recommendations';
+
+// A single remote write, recorded in the shape it will be sent to Supabase.
+// Recommendation rows use the same columns as book rows.
+export type OutboxOperation =
+  | { type: 'insert'; table: OutboxTable; row: TablesInsert<'books'> }
+  | { type: 'update'; table: OutboxTable; id: string; patch: TablesUpdate<'books'>; expectedUpdatedAt?: string }
+  | { type: 'delete'; table: OutboxTable; id: string }
+  | { type: 'reorder'; updates: OrderUpdate[] }
+  // Moves a recommendation onto the shelf as the given book
+  | { type: 'accept'; recommendationId: string; row: TablesInsert<'books'> };
+
+export type OutboxEntryStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  sequence: number; // Replay order; entries are always sent oldest first
+  userId: string | null; // Who made the write; null when signed out
+  operation: OutboxOperation;
+  status: OutboxEntryStatus;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: string;
+  lastError?: string;
+}
+
+export interface OutboxCounts {
+  pending: number;
+  failed: number;
+}
+
+// Result of sending a write through the outbox
+export type OutboxResult<T> =
+  | { status: 'synced'; data: T }
+  | { status: 'queued' };
@@ -0,0 +1,24 @@
+// How the signed-in user relates to the open library
+export type Role = 'owner' | 'editor' | 'viewer' | 'guest';
+
+// Roles an owner can give other users through library_members
+export type MemberRole = Extract<Role, 'editor' | 'viewer'>;
+
+// Things a user can do to a library
+export type Capability = 'add' | 'edit' | 'delete' | 'reorder' | 'moderate';
+
+// Someone the owner has shared their library with
+export interface LibraryMember {
+  userId: string;
+  role: MemberRole;
+  handle?: string; // Their own library's handle, which they were added by
+  displayName?: string;
+}
+
+// A library someone else has shared with the signed-in user
+export interface SharedLibrary {
+  ownerId: string;
+  role: MemberRole;
+  handle?: string;
+  displayName?: string;
+}
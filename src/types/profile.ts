@@ -0,0 +1,14 @@
+// Who can open a library's page at /u/:handle. Unlisted pages open for
+// anyone with the link but aren't listed; private ones only for the owner
+// and the people they share the library with.
+export type LibraryVisibility = 'public' | 'unlisted' | 'private';
+
+// How a library appears to visitors
+export interface LibraryProfile {
+  ownerId: string;
+  handle: string;
+  displayName?: string;
+  visibility: LibraryVisibility;
+  // Books with any of these tags are left out of what visitors see
+  hiddenTags: string[];
+}
@@ -0,0 +1,15 @@
+import { BookCollection } from './repository';
+
+// Where an invalid record was found
+export type QuarantineSource = 'supabase' | 'indexedDb' | 'import';
+
+// A record that failed validation, kept aside so it can be inspected instead of rendered
+export interface QuarantinedRecord {
+  key: string; // `${source}:${collection}:${recordId}`, so repeated loads don't duplicate entries
+  source: QuarantineSource;
+  collection: BookCollection;
+  recordId?: string;
+  record: unknown;
+  issues: string[];
+  quarantinedAt: string;
+}
@@ -0,0 +1,74 @@
+import { Book } from './book';
+
+export type BookCollection = 'books' | 'recommendations';
+
+export type RepositoryKind = 'supabase' | 'indexedDb' | 'memory' | 'public';
+
+// Emitted whenever a collection changes outside of the caller's own request.
+// Backends that can't say what changed ask for the whole collection to be reloaded.
+export type RepositoryChange =
+  | { type: 'upsert'; collection: BookCollection; book: Book }
+  | { type: 'delete'; collection: BookCollection; id: string }
+  | { type: 'resync'; collection: BookCollection };
+
+// A new position for one book on the shelf
+export interface OrderUpdate {
+  id: string;
+  order: number;
+}
+
+export type RepositoryListener = (change: RepositoryChange) => void;
+
+export interface UpdateOptions {
+  // updatedAt of the copy the edit was based on; the update fails with
+  // a BookConflictError if the stored record has changed since
+  expectedVersion?: string;
+}
+
+// 'saved' writes reached the repository's own store; 'queued' ones are held
+// on this device until the remote store can be reached
+export type WriteStatus = 'saved' | 'queued';
+
+export interface Written<T> {
+  value: T;
+  status: WriteStatus;
+}
+
+export interface PageOptions {
+  // nextCursor of the previous page; leave out for the first page
+  cursor?: string | null;
+  limit?: number;
+}
+
+// One page of a collection in list order. nextCursor is null on the last page.
+export interface BookPage {
+  books: Book[];
+  nextCursor: string | null;
+}
+
+// Storage-agnostic contract for reading and writing books and recommendations
+export interface BookRepository {
+  kind: RepositoryKind;
+  list: (collection: BookCollection) => Promise<Book[]>;
+  // Books moved to the trash, which list leaves out
+  listTrash: (collection: BookCollection) => Promise<Book[]>;
+  // A page of the same list. Books may be summaries without tags, email or an
+  // inline cover image; get returns the full book.
+  listPage: (collection: BookCollection, options?: PageOptions) => Promise<BookPage>;
+  get: (id: string, collection: BookCollection) => Promise<Book | null>;
+  create: (book: Omit<Book, 'id'>) => Promise<Written<Book>>;
+  update: (id: string, bookData: Partial<Book>, collection: BookCollection, options?: UpdateOptions) => Promise<Written<Book>>;
+  // Removes the book permanently; move it to the trash by setting deletedAt instead
+  delete: (id: string, collection: BookCollection) => Promise<Written<void>>;
+  // Saves the given positions together; books not listed keep theirs
+  reorder: (updates: OrderUpdate[]) => Promise<Written<void>>;
+  // Moves a recommendation onto the shelf as a to-read book, removing it from
+  // the recommendations in the same write
+  accept: (recommendationId: string) => Promise<Written<Book>>;
+  listSeries: (seriesName: string) => Promise<Book[]>;
+  subscribe: (listener: RepositoryListener) => () => void;
+}
+
+// Recommendations are stored separately from the shelf
+export const collectionFor = (book: Pick<Book, 'status'>): BookCollection =>
+  book.status === 'recommendation' ? 'recommendations' : 'books';
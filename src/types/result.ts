@@ -0,0 +1,4 @@
+// Outcome of a call that can fail in an expected way, returned instead of thrown
+export type Result<T, E = Error> =
+  | { ok: true; value: T }
+  | { ok: false; error: E };
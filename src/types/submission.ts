@@ -0,0 +1,51 @@
+import { Book } from './book';
+
+// Where a visitor's recommendation is in the owner's review. Approved ones
+// became a recommendation of their own, merged ones joined one that was
+// already in the library.
+export type SubmissionStatus = 'pending' | 'approved' | 'merged' | 'rejected';
+
+// What a visitor fills in on the /recommend page
+export interface NewRecommendationSubmission {
+  title: string;
+  author: string;
+  isbn?: string;
+  recommendedBy: string;
+  email?: string;
+  note?: string;
+  // The recommendation already in the library that this one repeats
+  duplicateOf?: string;
+}
+
+// A visitor's recommendation as the library's owner reviews it
+export interface RecommendationSubmission extends NewRecommendationSubmission {
+  id: string;
+  ownerId: string;
+  status: SubmissionStatus;
+  recommendationId?: string;
+  createdAt: string;
+}
+
+// What a blocklist entry matches: a sender's email, or a whole domain written
+// as '@example.com'; a sender's name; or a phrase anywhere in a submission
+export type BlocklistKind = 'email' | 'name' | 'phrase';
+
+// A sender or phrase the owner has blocked. Matching submissions are dropped
+// without reaching the review queue.
+export interface BlocklistEntry {
+  id: string;
+  kind: BlocklistKind;
+  value: string;
+  createdAt: string;
+}
+
+// The book in a library that a visitor's recommendation repeats
+export type SubmissionDuplicate = Pick<Book, 'id' | 'title' | 'status'>;
+
+// How the /recommend form was filled in, which tells people from bots
+export interface SubmissionSignals {
+  // The form's hidden field, which only bots fill in
+  honeypot?: string;
+  // Issued by the server when the form opened, so it can tell how long filling it in took
+  formToken: string;
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { Book } from '@/types/book';
+import { findMatch, matchBooks, normalizeIsbn, normalizeTitle } from './bookMatching';
+
+const book = (id: string, title: string, author: string, isbn?: string): Book => ({
+  id,
+  title,
+  author,
+  isbn,
+  coverUrl: '',
+  dateRead: new Date('2024-01-01T00:00:00.000Z'),
+  genres: [],
+  status: 'read',
+  progress: 100,
+  pages: 300,
+  recommendedBy: '',
+  favorite: false,
+  isSeries: false
+});
+
+describe('normalizeTitle', () => {
+  it('sets aside case, accents, punctuation, a leading article and the subtitle', () => {
+    expect(normalizeTitle('The Hobbit: Or There and Back Again')).toBe('hobbit');
+    expect(normalizeTitle('Cien años de soledad')).toBe('cien anos de soledad');
+    expect(normalizeTitle('Pride & Prejudice (Penguin Classics)')).toBe('pride and prejudice');
+  });
+  
+  it('keeps letters and digits of any script', () => {
+    expect(normalizeTitle('Мастер и Маргарита')).toBe('мастер и маргарита');
+    expect(normalizeTitle('ノルウェイの森')).toBe('ノルウェイの森');
+    expect(normalizeTitle('1984')).toBe('1984');
+  });
+  
+  it('leaves nothing of a title made of punctuation', () => {
+    expect(normalizeTitle('???')).toBe('');
+  });
+});
+
+describe('normalizeIsbn', () => {
+  it('turns an ISBN-10 into the ISBN-13 of the same book', () => {
+    expect(normalizeIsbn('0-441-47812-3')).toBe('9780441478125');
+    expect(normalizeIsbn('080442957X')).toBe('9780804429573');
+    expect(normalizeIsbn('978-0-441-47812-5')).toBe('9780441478125');
+  });
+  
+  it('is null for something that is not an ISBN', () => {
+    expect(normalizeIsbn('12345')).toBeNull();
+    expect(normalizeIsbn('')).toBeNull();
+    expect(normalizeIsbn(undefined)).toBeNull();
+  });
+});
+
+describe('matchBooks', () => {
+  it('matches the ISBN-10 and ISBN-13 of one book whatever the titles', () => {
+    expect(matchBooks(
+      { title: 'The Left Hand of Darkness', author: 'Ursula K. Le Guin', isbn: '0441478123' },
+      { title: 'Left Hand of Darkness (50th Anniversary Edition)', author: 'Le Guin', isbn: '978-0-441-47812-5' }
+    )).toBe('isbn');
+  });
+  
+  it('matches close titles by the same author written differently', () => {
+    expect(matchBooks(
+      { title: 'The Lord of the Rings', author: 'J.R.R. Tolkien' },
+      { title: 'Lord of the Rings: The Fellowship of the Ring', author: 'Tolkien, J. R. R.' }
+    )).toBe('title-author');
+    expect(matchBooks(
+      { title: 'The Dispossessed', author: 'Ursula K. Le Guin' },
+      { title: 'Dispossessed', author: 'Le Guin, Ursula' }
+    )).toBe('title-author');
+    expect(matchBooks(
+      { title: 'Harry Potter and the Philosophers Stone', author: 'J.K. Rowling' },
+      { title: "Harry Potter and the Philosopher's Stone", author: 'JK Rowling' }
+    )).toBe('title-author');
+  });
+  
+  it('matches titles in other scripts', () => {
+    expect(matchBooks(
+      { title: 'Война и мир', author: 'Лев Толстой' },
+      { title: 'Война и мир', author: 'Толстой' }
+    )).toBe('title-author');
+  });
+  
+  it("doesn't match different titles that are only a letter apart", () => {
+    expect(matchBooks({ title: 'It', author: 'Stephen King' }, { title: 'If', author: 'Stephen King' })).toBeNull();
+  });
+  
+  it("doesn't match different books by the same author in other scripts", () => {
+    expect(matchBooks(
+      { title: 'Война и мир', author: 'Толстой' },
+      { title: 'Анна Каренина', author: 'Толстой' }
+    )).toBeNull();
+  });
+  
+  it("doesn't match titles with nothing left once normalized", () => {
+    expect(matchBooks({ title: '???', author: 'Anonymous' }, { title: '!!!', author: 'Anonymous' })).toBeNull();
+    expect(matchBooks({ title: '', author: 'Anonymous' }, { title: '', author: 'Anonymous' })).toBeNull();
+  });
+  
+  it('compares surnames by whole words', () => {
+    expect(matchBooks({ title: 'Same Title', author: 'Kelly Wong' }, { title: 'Same Title', author: 'Andrew Ng' })).toBeNull();
+    expect(matchBooks({ title: 'Same Title', author: 'Ursula K. Le Guin' }, { title: 'Same Title', author: 'Guin' })).toBe('title-author');
+  });
+  
+  it("doesn't match the same title by a different author", () => {
+    expect(matchBooks({ title: 'Persuasion', author: 'Jane Austen' }, { title: 'Persuasion', author: 'Robert Cialdini' })).toBeNull();
+  });
+});
+
+describe('findMatch', () => {
+  it('prefers an ISBN match to an earlier title match', () => {
+    const byTitle = book('1', 'Dune', 'Frank Herbert');
+    const byIsbn = book('2', 'Dune (Deluxe Edition)', 'Herbert', '9780441013593');
+    
+    expect(findMatch({ title: 'Dune', author: 'Frank Herbert', isbn: '0441013597' }, [byTitle, byIsbn]))
+      .toEqual({ book: byIsbn, reason: 'isbn' });
+  });
+  
+  it('returns the first title match when there is no ISBN match', () => {
+    const first = book('1', 'Dune', 'Frank Herbert');
+    const second = book('2', 'Dune', 'Herbert, Frank');
+    
+    expect(findMatch({ title: 'dune', author: 'F. Herbert' }, [first, second])).toEqual({ book: first, reason: 'title-author' });
+  });
+  
+  it('is null when nothing matches', () => {
+    expect(findMatch({ title: 'Emma', author: 'Jane Austen' }, [book('1', 'Dune', 'Frank Herbert')])).toBeNull();
+  });
+});
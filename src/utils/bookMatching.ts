@@ -0,0 +1,150 @@
+/**
+ * Fuzzy matching of books, to catch the same book recommended or imported
+ * twice under slightly different titles, author spellings or editions.
+ * Matching ISBNs settle it; otherwise title and author must both be close
+ * once case, accents, punctuation, articles and subtitles are set aside.
+ * The database's find_public_duplicate matches the same way for visitors'
+ * recommendations, so a change here belongs there too.
+ */
+import { Book } from '@/types/book';
+
+// How close two normalized titles or author surnames must be, from 0 to 1
+const TITLE_THRESHOLD = 0.85;
+const AUTHOR_THRESHOLD = 0.8;
+
+const LEADING_ARTICLE = /^(the|a|an)\s+/;
+
+const simplify = (value: string): string => value
+  .normalize('NFKD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/&/g, ' and ')
+  .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/**
+ * A title reduced to what identifies the book: "The Hobbit: Or There and
+ * Back Again" and "hobbit" both become "hobbit"
+ */
+export const normalizeTitle = (title: string): string =>
+  simplify(title.split(/[:(]/)[0]).replace(LEADING_ARTICLE, '');
+
+// The surname is what stays the same across "J.R.R. Tolkien", "Tolkien, J. R. R." and "JRR Tolkien"
+const authorSurname = (author: string): string => {
+  const firstAuthor = author.split(/\s+(?:and|&)\s+|;/)[0];
+  const [beforeComma, afterComma] = firstAuthor.split(',');
+  const words = simplify(afterComma !== undefined ? beforeComma : firstAuthor).split(' ');
+  return afterComma !== undefined ? words.join(' ') : words[words.length - 1];
+};
+
+/**
+ * The digits of an ISBN as ISBN-13, so both editions of a number compare
+ * equal. Null when the value isn't a well-formed ISBN-10 or ISBN-13.
+ */
+export const normalizeIsbn = (isbn: string | undefined | null): string | null => {
+  const digits = (isbn || '').toUpperCase().replace(/[^0-9X]/g, '');
+  
+  if (/^\d{13}$/.test(digits)) return digits;
+  if (!/^\d{9}[\dX]$/.test(digits)) return null;
+  
+  const core = `978${digits.slice(0, 9)}`;
+  const sum = core.split('').reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return `${core}${(10 - (sum % 10)) % 10}`;
+};
+
+// Levenshtein distance scaled to a similarity, where 1 is identical
+const similarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+};
+
+// The edit distance is at least the difference in length, so most pairs are ruled out without computing it
+const isSimilar = (a: string, b: string, threshold: number): boolean =>
+  Math.abs(a.length - b.length) <= (1 - threshold) * Math.max(a.length, b.length) && similarity(a, b) >= threshold;
+
+// Whether the last words of a surname are the whole of the other: "le guin" ends with "guin", but "wong" doesn't end with "ng"
+const endsWithWords = (surname: string, ending: string): boolean =>
+  surname === ending || surname.endsWith(` ${ending}`);
+
+// "Le Guin" and "Ursula K. Le Guin" end the same way, so a surname ending the other's counts too
+const surnamesMatch = (a: string, b: string): boolean => {
+  if (!a || !b) return false;
+  return endsWithWords(a, b) || endsWithWords(b, a) || isSimilar(a, b, AUTHOR_THRESHOLD);
+};
+
+export type MatchReason = 'isbn' | 'title-author';
+
+export interface BookMatch {
+  book: Book;
+  reason: MatchReason;
+}
+
+type MatchCandidate = Pick<Book, 'title' | 'author' | 'isbn'>;
+
+interface MatchKey {
+  title: string;
+  surname: string;
+  isbn: string | null;
+}
+
+// Normalizing is the slow part, and checking an import compares each book with every other
+const matchKeys = new WeakMap<MatchCandidate, MatchKey>();
+
+const matchKeyOf = (candidate: MatchCandidate): MatchKey => {
+  let key = matchKeys.get(candidate);
+  if (!key) {
+    key = {
+      title: normalizeTitle(candidate.title),
+      surname: authorSurname(candidate.author),
+      isbn: normalizeIsbn(candidate.isbn)
+    };
+    matchKeys.set(candidate, key);
+  }
+  return key;
+};
+
+/**
+ * Whether two records are the same book, and why
+ */
+export const matchBooks = (a: MatchCandidate, b: MatchCandidate): MatchReason | null => {
+  const keyA = matchKeyOf(a);
+  const keyB = matchKeyOf(b);
+  
+  // Different ISBNs can still be editions of the same book, so those fall through to the title
+  if (keyA.isbn && keyA.isbn === keyB.isbn) return 'isbn';
+  
+  // A title with nothing left once normalized, such as one of only punctuation, can't be compared
+  if (!keyA.title || !keyB.title) return null;
+  
+  const sameTitle = isSimilar(keyA.title, keyB.title, TITLE_THRESHOLD);
+  return sameTitle && surnamesMatch(keyA.surname, keyB.surname) ? 'title-author' : null;
+};
+
+/**
+ * The first of the books that is the same book as the candidate, preferring an ISBN match
+ */
+export const findMatch = (candidate: MatchCandidate, books: Book[]): BookMatch | null => {
+  let titleMatch: BookMatch | null = null;
+  
+  for (const book of books) {
+    const reason = matchBooks(candidate, book);
+    if (reason === 'isbn') return { book, reason };
+    if (reason && !titleMatch) titleMatch = { book, reason };
+  }
+  return titleMatch;
+};
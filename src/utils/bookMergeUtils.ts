@@ -0,0 +1,97 @@
+/**
+ * Utilities for merging an edit with a newer server copy of the same book
+ */
+import { format } from 'date-fns';
+import { Book } from '@/types/book';
+
+export type MergeableField = keyof Omit<Book, 'id' | 'order' | 'color' | 'updatedAt'>;
+
+export type MergeChoice = 'local' | 'remote';
+
+export interface FieldConflict {
+  field: MergeableField;
+  label: string;
+  local: unknown;
+  remote: unknown;
+  // Suggested side: whichever copy actually changed the field
+  suggested: MergeChoice;
+}
+
+export const MERGEABLE_FIELDS: { field: MergeableField; label: string }[] = [
+  { field: 'title', label: 'Title' },
+  { field: 'author', label: 'Author' },
+  { field: 'isbn', label: 'ISBN' },
+  { field: 'status', label: 'Status' },
+  { field: 'dateRead', label: 'Date Read' },
+  { field: 'pages', label: 'Pages' },
+  { field: 'progress', label: 'Progress' },
+  { field: 'coverUrl', label: 'Cover' },
+  { field: 'genres', label: 'Genres' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'recommendedBy', label: 'Recommended By' },
+  { field: 'email', label: 'Email' },
+  { field: 'favorite', label: 'Favorite' },
+  { field: 'hidden', label: 'Hidden From Visitors' },
+  { field: 'isSeries', label: 'Series' },
+  { field: 'seriesName', label: 'Series Name' },
+  { field: 'seriesPosition', label: 'Book # in Series' },
+];
+
+// Compare values the way they are displayed: empty values match, dates match by day
+const normalizeValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '';
+  if (value instanceof Date) return format(value, 'yyyy-MM-dd');
+  if (Array.isArray(value)) return [...value].sort().join('|');
+  return String(value);
+};
+
+const valuesEqual = (a: unknown, b: unknown): boolean => normalizeValue(a) === normalizeValue(b);
+
+/**
+ * List fields where the edit and the server copy disagree
+ * @param base The copy the edit started from
+ * @param local The edited values
+ * @param remote The current server copy
+ */
+export const getFieldConflicts = (
+  base: Partial<Book>,
+  local: Partial<Book>,
+  remote: Book
+): FieldConflict[] => {
+  return MERGEABLE_FIELDS
+    .filter(({ field }) => field in local && !valuesEqual(local[field], remote[field]))
+    .map(({ field, label }) => ({
+      field,
+      label,
+      local: local[field],
+      remote: remote[field],
+      suggested: valuesEqual(local[field], base[field]) ? 'remote' : 'local'
+    }));
+};
+
+/**
+ * Build the update to send after the user picked a side for each conflicting field
+ */
+export const mergeBookFields = (
+  local: Partial<Book>,
+  remote: Book,
+  choices: Partial<Record<MergeableField, MergeChoice>>
+): Partial<Book> => {
+  const merged: Partial<Book> = { ...local };
+  
+  (Object.keys(choices) as MergeableField[]).forEach(field => {
+    if (choices[field] === 'remote') {
+      (merged as Record<string, unknown>)[field] = remote[field];
+    }
+  });
+  
+  return merged;
+};
+
+export const formatMergeValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (value instanceof Date) return format(value, 'MMM d, yyyy');
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
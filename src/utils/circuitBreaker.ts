@@ -0,0 +1,117 @@
+/**
+ * Circuit breaker for a remote dependency. After repeated failures the circuit
+ * opens and requests are refused without being sent; a probe is then tried
+ * periodically, and the circuit closes again once one succeeds.
+ */
+import { getBackoffDelay } from './timeoutUtils';
+
+// closed: requests go through; open: requests are refused; probing: a probe is in flight
+export type CircuitState = 'closed' | 'open' | 'probing';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // Wait before the first probe; later probes back off from here up to maxProbeDelayMs
+  probeDelayMs: number;
+  maxProbeDelayMs: number;
+  // Resolves if the dependency is reachable again, rejects otherwise
+  probe: () => Promise<void>;
+}
+
+export type CircuitListener = (state: CircuitState) => void;
+
+export interface CircuitBreaker {
+  getState: () => CircuitState;
+  // False while the circuit is open, so callers can go straight to their fallback
+  canRequest: () => boolean;
+  recordSuccess: () => void;
+  recordFailure: () => void;
+  // Probe now instead of waiting for the next scheduled probe
+  probeNow: () => Promise<void>;
+  subscribe: (listener: CircuitListener) => () => void;
+}
+
+export const createCircuitBreaker = ({
+  failureThreshold,
+  probeDelayMs,
+  maxProbeDelayMs,
+  probe
+}: CircuitBreakerOptions): CircuitBreaker => {
+  let state: CircuitState = 'closed';
+  let consecutiveFailures = 0;
+  let failedProbes = 0;
+  let probeTimer: ReturnType<typeof setTimeout> | null = null;
+  const listeners = new Set<CircuitListener>();
+  
+  const setState = (next: CircuitState) => {
+    if (state === next) return;
+    state = next;
+    listeners.forEach(listener => listener(state));
+  };
+  
+  const scheduleProbe = () => {
+    if (probeTimer) clearTimeout(probeTimer);
+    // Half the delay is fixed and half is jitter, so tabs don't probe in lockstep
+    const delay = probeDelayMs / 2 + getBackoffDelay(failedProbes, probeDelayMs, maxProbeDelayMs);
+    probeTimer = setTimeout(() => {
+      probeTimer = null;
+      probeNow();
+    }, delay);
+  };
+  
+  const close = () => {
+    if (probeTimer) clearTimeout(probeTimer);
+    probeTimer = null;
+    consecutiveFailures = 0;
+    failedProbes = 0;
+    setState('closed');
+  };
+  
+  const open = () => {
+    setState('open');
+    scheduleProbe();
+  };
+  
+  const probeNow = async () => {
+    if (state === 'closed' || state === 'probing') return;
+    
+    setState('probing');
+    try {
+      await probe();
+      close();
+    } catch {
+      failedProbes++;
+      open();
+    }
+  };
+  
+  return {
+    getState: () => state,
+    
+    canRequest: () => state === 'closed',
+    
+    recordSuccess: () => {
+      if (state === 'closed') {
+        consecutiveFailures = 0;
+      }
+    },
+    
+    recordFailure: () => {
+      if (state !== 'closed') return;
+      
+      consecutiveFailures++;
+      if (consecutiveFailures >= failureThreshold) {
+        open();
+      }
+    },
+    
+    probeNow,
+    
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseCsvRecords } from './csv';
+
+describe('parseCsv', () => {
+  it('splits rows on line breaks and fields on commas', () => {
+    expect(parseCsv('a,b,c\n1,2,3\n')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+  
+  it('reads Windows line endings as one break', () => {
+    expect(parseCsv('a,b\r\n1,2\r\n3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+  });
+  
+  it('keeps commas, doubled quotes and line breaks inside quoted fields', () => {
+    const text = 'title,review\r\n"Dune, Messiah","Said ""wow"".\r\nTwice."\r\n';
+    expect(parseCsv(text)).toEqual([
+      ['title', 'review'],
+      ['Dune, Messiah', 'Said "wow".\r\nTwice.']
+    ]);
+  });
+  
+  it('keeps empty fields, including a trailing one', () => {
+    expect(parseCsv('a,,c,\n')).toEqual([['a', '', 'c', '']]);
+  });
+  
+  it('skips blank lines and a byte order mark', () => {
+    expect(parseCsv('\uFEFFa,b\n\n1,2\n\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+  
+  it('reads a last row without a line break after it', () => {
+    expect(parseCsv('a\n"last"')).toEqual([['a'], ['last']]);
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('keys rows by the trimmed header and fills missing fields with empty strings', () => {
+    expect(parseCsvRecords(' Title ,Author,Pages\nDune,Frank Herbert\n')).toEqual({
+      columns: ['Title', 'Author', 'Pages'],
+      records: [{ Title: 'Dune', Author: 'Frank Herbert', Pages: '' }]
+    });
+  });
+  
+  it('has no columns or records for an empty file', () => {
+    expect(parseCsvRecords('')).toEqual({ columns: [], records: [] });
+  });
+});
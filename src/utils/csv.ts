@@ -0,0 +1,66 @@
+/**
+ * A small CSV reader for exports from other apps: comma separated, fields
+ * optionally in double quotes, "" for a quote inside one, and line breaks
+ * allowed inside quoted fields.
+ */
+
+/**
+ * The rows of a CSV file, each a list of its fields. Blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+  
+  // Spreadsheet apps often start the file with a byte order mark
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+/**
+ * The rows after the header, keyed by the header's column names
+ */
+export const parseCsvRecords = (text: string): { columns: string[]; records: Record<string, string>[] } => {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map(column => column.trim());
+  
+  return {
+    columns,
+    records: rows.map(row => Object.fromEntries(columns.map((column, index) => [column, row[index] ?? ''])))
+  };
+};
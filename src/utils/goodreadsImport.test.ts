@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { Book } from '@/types/book';
+import { ValidationError } from '@/services/errors';
+import exportCsv from './__fixtures__/goodreads_library_export.csv?raw';
+import { defaultMapping, findImportDuplicates, parseGoodreadsCsv, toImportedBook } from './goodreadsImport';
+
+const library: Book[] = [{
+  id: 'b6f1c2a4-5d3e-4f7a-9b8c-0d1e2f3a4b5c',
+  title: 'Infinite Jest',
+  author: 'David Foster Wallace',
+  coverUrl: '',
+  dateRead: new Date('2024-01-01T00:00:00.000Z'),
+  genres: [],
+  status: 'to-read',
+  progress: 0,
+  pages: 1079,
+  recommendedBy: '',
+  favorite: false,
+  isSeries: false
+}];
+
+describe('parseGoodreadsCsv', () => {
+  const books = parseGoodreadsCsv(exportCsv);
+
+  it('reads every row of the export, including one with a line break in a review', () => {
+    expect(books.map(book => [book.row, book.title])).toEqual([
+      [1, 'The Hunger Games'],
+      [2, 'Catching Fire'],
+      [3, 'The Left Hand of Darkness'],
+      [4, 'Infinite Jest'],
+      [5, 'The Lord of the Rings']
+    ]);
+  });
+
+  it('reads a finished book in full', () => {
+    expect(books[0]).toEqual({
+      row: 1,
+      goodreadsId: '2767052',
+      title: 'The Hunger Games',
+      seriesName: 'The Hunger Games',
+      seriesPosition: 1,
+      author: 'Suzanne Collins',
+      isbn: '9780439023481',
+      rating: 5,
+      exclusiveShelf: 'read',
+      shelves: [],
+      dateRead: new Date(2023, 4, 14),
+      dateAdded: new Date(2023, 0, 2),
+      pages: 374
+    });
+  });
+
+  it('unwraps ="..." ISBNs and leaves out empty ones', () => {
+    expect(books.map(book => book.isbn)).toEqual([
+      '9780439023481',
+      undefined,
+      '9780441478125',
+      '9780316066525',
+      undefined
+    ]);
+  });
+
+  it('keeps a series without a position when it names a range', () => {
+    expect(books[4]).toMatchObject({ title: 'The Lord of the Rings', seriesName: 'The Lord of the Rings' });
+    expect(books[4].seriesPosition).toBeUndefined();
+  });
+
+  it('keeps the shelves other than the exclusive one and the standard ones', () => {
+    expect(books.map(book => [book.exclusiveShelf, book.shelves])).toEqual([
+      ['read', []],
+      ['currently-reading', ['favorites', 'book-club']],
+      ['to-read', ['book-club']],
+      ['did-not-finish', []],
+      ['read', []]
+    ]);
+  });
+
+  it('rejects a file without the Goodreads columns', () => {
+    expect(() => parseGoodreadsCsv('Title,Writer\nDune,Frank Herbert\n')).toThrow(ValidationError);
+  });
+});
+
+describe('defaultMapping', () => {
+  it('maps the standard shelves to their statuses and custom ones to the to-read list', () => {
+    expect(defaultMapping(parseGoodreadsCsv(exportCsv))).toEqual({
+      statusByShelf: {
+        read: 'read',
+        'currently-reading': 'reading',
+        'to-read': 'to-read',
+        'did-not-finish': 'to-read'
+      },
+      favoriteFromRating: 5,
+      shelvesAsTags: true
+    });
+  });
+});
+
+describe('toImportedBook', () => {
+  const books = parseGoodreadsCsv(exportCsv);
+  const mapping = defaultMapping(books);
+
+  it('finishes read books on the day they were read and marks five stars as favorite', () => {
+    expect(toImportedBook(books[0], mapping)).toMatchObject({
+      status: 'read',
+      progress: 100,
+      dateRead: new Date(2023, 4, 14),
+      favorite: true,
+      isSeries: true,
+      seriesName: 'The Hunger Games',
+      seriesPosition: 1
+    });
+  });
+
+  it('dates unfinished books from when they were added and turns shelves into tags', () => {
+    expect(toImportedBook(books[1], mapping)).toMatchObject({
+      status: 'reading',
+      progress: 0,
+      dateRead: new Date(2023, 5, 1),
+      favorite: false,
+      tags: ['favorites', 'book-club']
+    });
+  });
+
+  it('follows the mapping the user changed', () => {
+    const changed = {
+      statusByShelf: { ...mapping.statusByShelf, 'did-not-finish': 'read' as const },
+      favoriteFromRating: null,
+      shelvesAsTags: false
+    };
+
+    expect(toImportedBook(books[3], changed)).toMatchObject({ status: 'read', progress: 100, favorite: false, tags: [] });
+    expect(toImportedBook(books[0], changed).favorite).toBe(false);
+  });
+});
+
+describe('findImportDuplicates', () => {
+  it('points at the book already in the library, or at the earlier row of the same file', () => {
+    const books = parseGoodreadsCsv(exportCsv);
+    const withRepeat = [...books, { ...books[0], row: 6, title: 'Hunger Games', isbn: undefined }];
+
+    expect(findImportDuplicates(withRepeat, library)).toEqual([
+      null,
+      null,
+      null,
+      { in: 'library', book: library[0] },
+      null,
+      { in: 'file', row: 1 }
+    ]);
+  });
+});
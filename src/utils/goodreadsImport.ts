@@ -0,0 +1,135 @@
+/**
+ * Reading a Goodreads library export (My Books > Import and export > Export
+ * Library) and turning its rows into books. Each book's exclusive shelf
+ * becomes its status and its other shelves its tags, by a mapping the user
+ * can change in the import preview.
+ */
+import { Book } from '@/types/book';
+import { GoodreadsBook, ImportDuplicate, ImportMapping, ImportStatus } from '@/types/import';
+import { ValidationError } from '@/services/errors';
+import { findMatch, matchBooks, normalizeIsbn } from './bookMatching';
+import { parseCsvRecords } from './csv';
+
+const REQUIRED_COLUMNS = ['Title', 'Author', 'Exclusive Shelf'];
+
+// The exclusive shelves every Goodreads account has
+export const DEFAULT_SHELF_STATUSES: Record<string, ImportStatus> = {
+  read: 'read',
+  'currently-reading': 'reading',
+  'to-read': 'to-read'
+};
+
+// Books on a custom exclusive shelf, like "did-not-finish", wait on the to-read list unless mapped otherwise
+const FALLBACK_STATUS: ImportStatus = 'to-read';
+
+// "Catching Fire (The Hunger Games, #2)"; positions like "#1-3" keep the series but not the position
+const SERIES_PATTERN = /^(.*\S)\s*\(([^()]+?),?\s*#([^()]+)\)\s*$/;
+
+// Goodreads writes ISBNs as ="0439023483" so spreadsheets keep the leading zero
+const parseIsbn = (value: string | undefined): string | undefined =>
+  normalizeIsbn((value || '').replace(/[="]/g, '')) || undefined;
+
+// Dates are written 2023/05/14
+const parseDate = (value: string | undefined): Date | undefined => {
+  const [year, month, day] = (value || '').trim().split(/[/-]/).map(Number);
+  if (!year || !month) return undefined;
+
+  const date = new Date(year, month - 1, day || 1);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const parseShelves = (value: string | undefined): string[] =>
+  (value || '').split(',').map(shelf => shelf.trim()).filter(Boolean);
+
+const parseTitle = (title: string): Pick<GoodreadsBook, 'title' | 'seriesName' | 'seriesPosition'> => {
+  const match = title.trim().match(SERIES_PATTERN);
+  if (!match) return { title: title.trim() };
+
+  const [, bookTitle, seriesName, position] = match;
+  return {
+    title: bookTitle,
+    seriesName: seriesName.trim(),
+    seriesPosition: /^\d+$/.test(position.trim()) && Number(position) > 0 ? Number(position) : undefined
+  };
+};
+
+/**
+ * The books in a Goodreads export. Rejects with a ValidationError when the
+ * file isn't one. Rows are kept even when they're missing a title or author,
+ * so the import can report them rather than lose them.
+ */
+export const parseGoodreadsCsv = (text: string): GoodreadsBook[] => {
+  const { columns, records } = parseCsvRecords(text);
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new ValidationError([`This isn't a Goodreads library export: it has no ${missing.join(', ')} column`]);
+  }
+
+  return records.map((record, index) => {
+    const exclusiveShelf = record['Exclusive Shelf'].trim() || 'read';
+    return {
+      row: index + 1,
+      goodreadsId: record['Book Id'] || undefined,
+      ...parseTitle(record['Title']),
+      author: record['Author'].trim(),
+      isbn: parseIsbn(record['ISBN13']) || parseIsbn(record['ISBN']),
+      rating: Number(record['My Rating']) || 0,
+      exclusiveShelf,
+      shelves: parseShelves(record['Bookshelves'])
+        .filter(shelf => shelf !== exclusiveShelf && !(shelf in DEFAULT_SHELF_STATUSES)),
+      dateRead: parseDate(record['Date Read']),
+      dateAdded: parseDate(record['Date Added']),
+      pages: Math.min(Number.parseInt(record['Number of Pages'], 10) || 0, 10000)
+    };
+  });
+};
+
+/**
+ * The mapping an import starts with: the standard shelves to their statuses,
+ * any others to the to-read list, five stars to favorite, shelves to tags
+ */
+export const defaultMapping = (books: GoodreadsBook[]): ImportMapping => ({
+  statusByShelf: Object.fromEntries([...new Set(books.map(book => book.exclusiveShelf))]
+    .map(shelf => [shelf, DEFAULT_SHELF_STATUSES[shelf] || FALLBACK_STATUS])),
+  favoriteFromRating: 5,
+  shelvesAsTags: true
+});
+
+/**
+ * The book a Goodreads row becomes under the mapping. Read books count as
+ * finished; others are dated from when they were added to Goodreads.
+ */
+export const toImportedBook = (book: GoodreadsBook, mapping: ImportMapping): Omit<Book, 'id'> => {
+  const status = mapping.statusByShelf[book.exclusiveShelf] || FALLBACK_STATUS;
+
+  return {
+    title: book.title,
+    author: book.author,
+    isbn: book.isbn,
+    coverUrl: '',
+    status,
+    progress: status === 'read' ? 100 : 0,
+    pages: book.pages,
+    dateRead: (status === 'read' && book.dateRead) || book.dateAdded || new Date(),
+    genres: [],
+    tags: mapping.shelvesAsTags ? book.shelves : [],
+    recommendedBy: '',
+    favorite: mapping.favoriteFromRating !== null && book.rating >= mapping.favoriteFromRating,
+    isSeries: Boolean(book.seriesName),
+    seriesName: book.seriesName,
+    seriesPosition: book.seriesPosition
+  };
+};
+
+/**
+ * For each book in the import, the book it repeats: one already in the
+ * library, or else one earlier in the same file
+ */
+export const findImportDuplicates = (books: GoodreadsBook[], library: Book[]): (ImportDuplicate | null)[] =>
+  books.map((book, index) => {
+    const inLibrary = findMatch(book, library);
+    if (inLibrary) return { in: 'library', book: inLibrary.book };
+
+    const earlier = books.slice(0, index).find(other => matchBooks(book, other));
+    return earlier ? { in: 'file', row: earlier.row } : null;
+  });
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { Book } from '@/types/book';
+import { OrderUpdate } from '@/types/repository';
+import { ORDER_GAP, computeOrderUpdates, rebalanceOrder } from './orderUtils';
+
+const book = (id: string, order: number | undefined): Book => ({
+  id,
+  title: `Book ${id}`,
+  author: 'Author',
+  coverUrl: '',
+  dateRead: new Date('2024-01-01T00:00:00.000Z'),
+  genres: [],
+  status: 'read',
+  progress: 100,
+  pages: 100,
+  recommendedBy: '',
+  favorite: false,
+  isSeries: false,
+  order
+});
+
+// Four books spread the usual gap apart
+const spaced = () => ['a', 'b', 'c', 'd'].map((id, index) => book(id, (index + 1) * ORDER_GAP));
+
+// The ids in the order the books sort in once the updates are applied
+const sortedAfter = (books: Book[], updates: OrderUpdate[]): string[] => {
+  const positions = new Map(books.map(item => [item.id, item.order ?? 0]));
+  updates.forEach(({ id, order }) => positions.set(id, order));
+  return [...positions.entries()].sort((a, b) => a[1] - b[1]).map(([id]) => id);
+};
+
+describe('computeOrderUpdates', () => {
+  it('changes nothing when the order is the same', () => {
+    expect(computeOrderUpdates(spaced(), ['a', 'b', 'c', 'd'])).toEqual([]);
+  });
+  
+  it('moves a book to the start by giving it a position before the first', () => {
+    const books = spaced();
+    const updates = computeOrderUpdates(books, ['d', 'a', 'b', 'c']);
+    
+    expect(updates).toEqual([{ id: 'd', order: 0 }]);
+    expect(sortedAfter(books, updates)).toEqual(['d', 'a', 'b', 'c']);
+  });
+  
+  it('moves a book to the end by giving it a position after the last', () => {
+    const books = spaced();
+    const updates = computeOrderUpdates(books, ['b', 'c', 'd', 'a']);
+    
+    expect(updates).toEqual([{ id: 'a', order: 5 * ORDER_GAP }]);
+    expect(sortedAfter(books, updates)).toEqual(['b', 'c', 'd', 'a']);
+  });
+  
+  it('moves a book between two others by splitting the gap', () => {
+    const books = spaced();
+    const updates = computeOrderUpdates(books, ['a', 'c', 'b', 'd']);
+    
+    expect(updates).toHaveLength(1);
+    expect(sortedAfter(books, updates)).toEqual(['a', 'c', 'b', 'd']);
+  });
+  
+  it('spreads a run of moved books evenly between their neighbours', () => {
+    const books = spaced();
+    const updates = computeOrderUpdates(books, ['a', 'c', 'd', 'b']);
+    
+    expect(updates).toEqual([{ id: 'b', order: 5 * ORDER_GAP }]);
+    
+    const run = computeOrderUpdates(books, ['d', 'c', 'a', 'b']);
+    expect(sortedAfter(books, run)).toEqual(['d', 'c', 'a', 'b']);
+    expect(run).toHaveLength(2);
+  });
+  
+  it('renumbers every book once the gap is too small to split', () => {
+    const books = [book('a', 1), book('b', 1 + 1e-7), book('c', 2)];
+    const updates = computeOrderUpdates(books, ['a', 'c', 'b']);
+    
+    expect(updates).toEqual(rebalanceOrder(['a', 'c', 'b']));
+    expect(updates).toEqual([
+      { id: 'a', order: ORDER_GAP },
+      { id: 'c', order: 2 * ORDER_GAP },
+      { id: 'b', order: 3 * ORDER_GAP }
+    ]);
+  });
+  
+  it('puts books that all share position zero in order', () => {
+    const books = ['a', 'b', 'c', 'd'].map(id => book(id, 0));
+    const updates = computeOrderUpdates(books, ['c', 'a', 'd', 'b']);
+    
+    expect(sortedAfter(books, updates)).toEqual(['c', 'a', 'd', 'b']);
+    expect(new Set(updates.map(({ order }) => order)).size).toBe(updates.length);
+  });
+  
+  it('treats books without a position as position zero', () => {
+    const books = [book('a', undefined), book('b', undefined), book('c', ORDER_GAP)];
+    const updates = computeOrderUpdates(books, ['b', 'a', 'c']);
+    
+    expect(sortedAfter(books, updates)).toEqual(['b', 'a', 'c']);
+  });
+  
+  it('ignores ids of books it was not given', () => {
+    const books = spaced();
+    const updates = computeOrderUpdates(books, ['missing', 'b', 'a', 'c', 'd']);
+    
+    expect(updates.map(({ id }) => id)).not.toContain('missing');
+    expect(sortedAfter(books, updates)).toEqual(['b', 'a', 'c', 'd']);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Gap-based ordering: books keep sparse numeric positions so that moving one
+ * book only needs a new position between its neighbours, not a renumbering.
+ */
+import { Book } from '@/types/book';
+import { OrderUpdate } from '@/types/repository';
+
+export const ORDER_GAP = 1024;
+
+// Below this, neighbouring positions are too close to keep splitting
+const MIN_ORDER_SPACING = 1e-6;
+
+// Indexes of the longest run of strictly increasing values (not necessarily contiguous)
+const longestIncreasingIndexes = (values: number[]): Set<number> => {
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length).fill(-1);
+  
+  values.forEach((value, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (values[tails[middle]] < value) low = middle + 1;
+      else high = middle;
+    }
+    if (low > 0) previous[index] = tails[low - 1];
+    tails[low] = index;
+  });
+  
+  const kept = new Set<number>();
+  for (let index = tails[tails.length - 1] ?? -1; index !== -1; index = previous[index]) {
+    kept.add(index);
+  }
+  return kept;
+};
+
+/**
+ * Spread every book evenly, for when positions have run out of room
+ */
+export const rebalanceOrder = (orderedIds: string[]): OrderUpdate[] =>
+  orderedIds.map((id, index) => ({ id, order: (index + 1) * ORDER_GAP }));
+
+/**
+ * Work out the fewest position changes that put the books in newOrder.
+ * Books that are already in the right relative order keep their position.
+ */
+export const computeOrderUpdates = (books: Book[], newOrder: string[]): OrderUpdate[] => {
+  const currentOrder = new Map(books.map(book => [book.id, book.order ?? 0]));
+  const orderedIds = newOrder.filter(id => currentOrder.has(id));
+  const positions = orderedIds.map(id => currentOrder.get(id));
+  const kept = longestIncreasingIndexes(positions);
+  
+  const updates: OrderUpdate[] = [];
+  let index = 0;
+  
+  while (index < orderedIds.length) {
+    if (kept.has(index)) {
+      index++;
+      continue;
+    }
+    
+    // Place the run of moved books between the kept books either side of it
+    const runStart = index;
+    while (index < orderedIds.length && !kept.has(index)) index++;
+    const runLength = index - runStart;
+    
+    const lower = runStart > 0 ? positions[runStart - 1] : undefined;
+    const upper = index < orderedIds.length ? positions[index] : undefined;
+    
+    for (let step = 1; step <= runLength; step++) {
+      let order: number;
+      if (lower !== undefined && upper !== undefined) {
+        if (upper - lower < MIN_ORDER_SPACING * (runLength + 1)) {
+          return rebalanceOrder(orderedIds);
+        }
+        order = lower + ((upper - lower) * step) / (runLength + 1);
+      } else if (lower !== undefined) {
+        order = lower + ORDER_GAP * step;
+      } else if (upper !== undefined) {
+        order = upper - ORDER_GAP * (runLength + 1 - step);
+      } else {
+        order = ORDER_GAP * step;
+      }
+      
+      const id = orderedIds[runStart + step - 1];
+      positions[runStart + step - 1] = order;
+      updates.push({ id, order });
+    }
+  }
+  
+  return updates;
+};
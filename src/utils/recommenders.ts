@@ -0,0 +1,29 @@
+/**
+ * A recommendation recommended by several people keeps their names in
+ * recommendedBy as one comma-separated list, the same way the database's
+ * merge_recommendation_submission function writes it.
+ */
+
+const SEPARATOR = ', ';
+
+/**
+ * The names in a recommendedBy value
+ */
+export const parseRecommenders = (recommendedBy: string | undefined | null): string[] =>
+  (recommendedBy || '').split(',').map(name => name.trim()).filter(Boolean);
+
+/**
+ * A recommendedBy value with the given names added, leaving out any already listed
+ */
+export const addRecommenders = (recommendedBy: string | undefined | null, ...names: (string | undefined)[]): string => {
+  const recommenders = parseRecommenders(recommendedBy);
+  const listed = new Set(recommenders.map(name => name.toLowerCase()));
+  
+  names.flatMap(parseRecommenders).forEach(name => {
+    if (!listed.has(name.toLowerCase())) {
+      listed.add(name.toLowerCase());
+      recommenders.push(name);
+    }
+  });
+  return recommenders.join(SEPARATOR);
+};
@@ -1,7 +1,8 @@
 
 /**
- * Utility for handling timeouts in async operations
+ * Utility for handling timeouts, retries and cancellation in async operations
  */
+import { TimeoutError, toServiceError } from '@/services/errors';
 
 export type PromiseWithTimeout<T> = Promise<T> | { then(onfulfilled: any): any };
 
@@ -9,13 +10,15 @@ export type PromiseWithTimeout<T> = Promise<T> | { then(onfulfilled: any): any }
  * Executes a promise with a timeout
  * @param promise The promise to execute
  * @param timeoutMs The timeout in milliseconds
- * @param fallbackFn Optional fallback function to execute if the promise times out
+ * @param fallbackFn Optional fallback function to execute if the promise times out or fails
+ * @param controller Optional controller that is aborted on timeout, cancelling the underlying request
  * @returns The result of the promise or fallback function
  */
 export const withTimeout = async <T>(
   promise: PromiseWithTimeout<T>,
   timeoutMs: number,
-  fallbackFn?: () => T
+  fallbackFn?: () => T,
+  controller?: AbortController
 ): Promise<T> => {
   let timeoutId: NodeJS.Timeout;
   
@@ -24,7 +27,8 @@ export const withTimeout = async <T>(
   
   const timeoutPromise = new Promise<never>((_, reject) => {
     timeoutId = setTimeout(() => {
-      reject(new Error(`Request timed out after ${timeoutMs}ms`));
+      controller?.abort();
+      reject(new TimeoutError(timeoutMs));
     }, timeoutMs);
   });
   
@@ -45,3 +49,83 @@ export const withTimeout = async <T>(
     throw error;
   }
 };
+
+export interface RetryOptions {
+  // Time limit for each attempt
+  timeoutMs: number;
+  // Attempts after the first one (default 0)
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Cancels the attempt in flight and any retries still to come
+  signal?: AbortSignal;
+  // Defaults to retrying the errors classed as retryable (network failures and timeouts)
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay up to base * 2^attempt, capped at maxDelayMs
+ */
+export const getBackoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number =>
+  Math.random() * Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+
+const abortError = () => new DOMException('The operation was aborted', 'AbortError');
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Run a request with a time limit, retrying failures with backoff. Each attempt
+ * gets its own AbortSignal, which is aborted when the attempt times out or the
+ * caller's signal is aborted, so the underlying request is cancelled too.
+ * @param request Starts one attempt; must pass the signal on to the request
+ * @returns The result of the first successful attempt; otherwise the last error is thrown
+ */
+export const withRetry = async <T>(
+  request: (signal: AbortSignal) => PromiseWithTimeout<T>,
+  {
+    timeoutMs,
+    retries = 0,
+    baseDelayMs = 500,
+    maxDelayMs = 8000,
+    signal,
+    shouldRetry = (error) => toServiceError(error).retryable
+  }: RetryOptions
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw abortError();
+    }
+    
+    const controller = new AbortController();
+    const abortAttempt = () => controller.abort();
+    signal?.addEventListener('abort', abortAttempt, { once: true });
+    
+    try {
+      return await withTimeout(request(controller.signal), timeoutMs, undefined, controller);
+    } catch (error) {
+      if (signal?.aborted || attempt >= retries || !shouldRetry(error)) {
+        throw error;
+      }
+      console.warn(`Attempt ${attempt + 1} failed, retrying:`, error);
+    } finally {
+      signal?.removeEventListener('abort', abortAttempt);
+    }
+    
+    await wait(getBackoffDelay(attempt, baseDelayMs, maxDelayMs), signal);
+  }
+};
@@ -0,0 +1,21 @@
+-- Keep updated_at current on every write so clients can detect conflicting edits
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists books_set_updated_at on public.books;
+create trigger books_set_updated_at
+  before update on public.books
+  for each row execute function public.set_updated_at();
+
+drop trigger if exists recommendations_set_updated_at on public.recommendations;
+create trigger recommendations_set_updated_at
+  before update on public.recommendations
+  for each row execute function public.set_updated_at();
@@ -0,0 +1,11 @@
+-- Columns the app always sent on update but that were never created, so tags and
+-- emails were dropped. Recommendations also get "order" so both tables share one shape.
+
+alter table public.books
+  add column if not exists tags text[] default '{}',
+  add column if not exists email text;
+
+alter table public.recommendations
+  add column if not exists tags text[] default '{}',
+  add column if not exists email text,
+  add column if not exists "order" integer;
@@ -0,0 +1,20 @@
+-- Shelf positions become sparse so a moved book can slot between its neighbours
+-- without renumbering the rest of the shelf.
+
+alter table public.books
+  alter column "order" type double precision;
+
+alter table public.recommendations
+  alter column "order" type double precision;
+
+-- Save a batch of positions in one statement, so a reorder is applied completely or not at all.
+-- updates: [{ "id": "...", "order": 1536.0 }, ...]
+create or replace function public.reorder_books(updates jsonb)
+returns void
+language sql
+as $$
+  update public.books as b
+  set "order" = (u ->> 'order')::double precision
+  from jsonb_array_elements(updates) as u
+  where b.id::text = u ->> 'id';
+$$;
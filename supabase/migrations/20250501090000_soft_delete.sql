@@ -0,0 +1,14 @@
+-- Removed books go to the trash first: deleted_at marks them until they are
+-- restored or purged.
+
+alter table public.books
+  add column if not exists deleted_at timestamptz;
+
+alter table public.recommendations
+  add column if not exists deleted_at timestamptz;
+
+create index if not exists books_deleted_at_idx
+  on public.books (deleted_at) where deleted_at is not null;
+
+create index if not exists recommendations_deleted_at_idx
+  on public.recommendations (deleted_at) where deleted_at is not null;
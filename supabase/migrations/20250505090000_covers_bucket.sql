@@ -0,0 +1,16 @@
+-- Uploaded covers are stored as files in a public bucket; books keep only the
+-- public URL in cover_url instead of an inline data URL.
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('covers', 'covers', true, 1048576, array['image/jpeg'])
+on conflict (id) do nothing;
+
+-- The app talks to Supabase with the anon key, so uploads and clean-up are
+-- open to it like the books tables; reads go through the public URL.
+create policy "Anyone can upload covers"
+  on storage.objects for insert
+  with check (bucket_id = 'covers');
+
+create policy "Anyone can delete covers"
+  on storage.objects for delete
+  using (bucket_id = 'covers');
@@ -0,0 +1,59 @@
+-- Light rows for the shelf grid and list, read a page at a time. Tags and
+-- email are left out, and so are covers stored inline as data URLs; the app
+-- loads the full row when a book is opened.
+
+create or replace view public.book_list_items
+with (security_invoker = true) as
+select
+  id,
+  title,
+  author,
+  case when cover_url like 'data:%' then null else cover_url end as cover_url,
+  date_read,
+  color,
+  genres,
+  status,
+  "order",
+  progress,
+  pages,
+  recommended_by,
+  favorite,
+  is_series,
+  series_name,
+  series_position,
+  updated_at,
+  deleted_at
+from public.books;
+
+create or replace view public.recommendation_list_items
+with (security_invoker = true) as
+select
+  id,
+  title,
+  author,
+  case when cover_url like 'data:%' then null else cover_url end as cover_url,
+  date_read,
+  color,
+  genres,
+  status,
+  "order",
+  progress,
+  pages,
+  recommended_by,
+  favorite,
+  is_series,
+  series_name,
+  series_position,
+  updated_at,
+  deleted_at
+from public.recommendations;
+
+grant select on public.book_list_items to anon, authenticated;
+grant select on public.recommendation_list_items to anon, authenticated;
+
+-- Pages are read in shelf order with the id as tie-breaker
+create index if not exists books_order_id_idx
+  on public.books ("order", id) where deleted_at is null;
+
+create index if not exists recommendations_date_read_id_idx
+  on public.recommendations (date_read desc nulls last, id) where deleted_at is null;
@@ -0,0 +1,113 @@
+-- Every book and recommendation belongs to the library of one user. owner_id
+-- holds the user id from the signed-in session's JWT (the sub claim), which is
+-- text because sign-in goes through Firebase rather than Supabase Auth.
+--
+-- Rows saved before libraries had owners are left without one and can only be
+-- changed once claimed, e.g.
+--   update public.books set owner_id = '<user id>' where owner_id is null;
+
+alter table public.books
+  add column if not exists owner_id text default (auth.jwt() ->> 'sub');
+
+alter table public.recommendations
+  add column if not exists owner_id text default (auth.jwt() ->> 'sub');
+
+create index if not exists books_owner_id_idx on public.books (owner_id);
+create index if not exists recommendations_owner_id_idx on public.recommendations (owner_id);
+
+-- Libraries can be browsed by anyone, but only their owner can change them.
+-- reorder_books runs as the caller, so it is covered by the update policy.
+alter table public.books enable row level security;
+alter table public.recommendations enable row level security;
+
+create policy "Libraries are readable by anyone"
+  on public.books for select
+  using (true);
+
+create policy "Owners add books to their own library"
+  on public.books for insert
+  with check (owner_id = (auth.jwt() ->> 'sub'));
+
+create policy "Owners update their own books"
+  on public.books for update
+  using (owner_id = (auth.jwt() ->> 'sub'))
+  with check (owner_id = (auth.jwt() ->> 'sub'));
+
+create policy "Owners delete their own books"
+  on public.books for delete
+  using (owner_id = (auth.jwt() ->> 'sub'));
+
+create policy "Libraries are readable by anyone"
+  on public.recommendations for select
+  using (true);
+
+create policy "Owners add recommendations to their own library"
+  on public.recommendations for insert
+  with check (owner_id = (auth.jwt() ->> 'sub'));
+
+create policy "Owners update their own recommendations"
+  on public.recommendations for update
+  using (owner_id = (auth.jwt() ->> 'sub'))
+  with check (owner_id = (auth.jwt() ->> 'sub'));
+
+create policy "Owners delete their own recommendations"
+  on public.recommendations for delete
+  using (owner_id = (auth.jwt() ->> 'sub'));
+
+-- The list views gain the owner so pages can be read for one library
+create or replace view public.book_list_items
+with (security_invoker = true) as
+select
+  id,
+  title,
+  author,
+  case when cover_url like 'data:%' then null else cover_url end as cover_url,
+  date_read,
+  color,
+  genres,
+  status,
+  "order",
+  progress,
+  pages,
+  recommended_by,
+  favorite,
+  is_series,
+  series_name,
+  series_position,
+  updated_at,
+  deleted_at,
+  owner_id
+from public.books;
+
+create or replace view public.recommendation_list_items
+with (security_invoker = true) as
+select
+  id,
+  title,
+  author,
+  case when cover_url like 'data:%' then null else cover_url end as cover_url,
+  date_read,
+  color,
+  genres,
+  status,
+  "order",
+  progress,
+  pages,
+  recommended_by,
+  favorite,
+  is_series,
+  series_name,
+  series_position,
+  updated_at,
+  deleted_at,
+  owner_id
+from public.recommendations;
+
+drop index if exists books_order_id_idx;
+drop index if exists recommendations_date_read_id_idx;
+
+create index if not exists books_owner_order_id_idx
+  on public.books (owner_id, "order", id) where deleted_at is null;
+
+create index if not exists recommendations_owner_date_read_id_idx
+  on public.recommendations (owner_id, date_read desc nulls last, id) where deleted_at is null;
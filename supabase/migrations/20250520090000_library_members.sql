@@ -0,0 +1,77 @@
+-- Owners can share their library with other users. Editors add, edit, remove
+-- and reorder books like the owner; viewers only read. Moderating
+-- recommendations stays with the owner.
+
+create table if not exists public.library_members (
+  library_owner_id text not null,
+  user_id text not null,
+  role text not null check (role in ('editor', 'viewer')),
+  created_at timestamptz not null default now(),
+  primary key (library_owner_id, user_id)
+);
+
+create index if not exists library_members_user_id_idx on public.library_members (user_id);
+
+alter table public.library_members enable row level security;
+
+create policy "Owners manage the members of their library"
+  on public.library_members for all
+  using (library_owner_id = (auth.jwt() ->> 'sub'))
+  with check (library_owner_id = (auth.jwt() ->> 'sub'));
+
+create policy "Members can see their own memberships"
+  on public.library_members for select
+  using (user_id = (auth.jwt() ->> 'sub'));
+
+-- Whether the signed-in user may change the given library. Runs as definer so
+-- the write policies below can read memberships the caller cannot see.
+create or replace function public.can_edit_library(library_owner text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select library_owner = (auth.jwt() ->> 'sub')
+    or exists (
+      select 1
+      from public.library_members m
+      where m.library_owner_id = library_owner
+        and m.user_id = (auth.jwt() ->> 'sub')
+        and m.role = 'editor'
+    );
+$$;
+
+-- Editors write to the owner's rows, so the owner-only policies are replaced
+drop policy if exists "Owners add books to their own library" on public.books;
+drop policy if exists "Owners update their own books" on public.books;
+drop policy if exists "Owners delete their own books" on public.books;
+drop policy if exists "Owners add recommendations to their own library" on public.recommendations;
+drop policy if exists "Owners update their own recommendations" on public.recommendations;
+drop policy if exists "Owners delete their own recommendations" on public.recommendations;
+
+create policy "Owners and editors add books"
+  on public.books for insert
+  with check (public.can_edit_library(owner_id));
+
+create policy "Owners and editors update books"
+  on public.books for update
+  using (public.can_edit_library(owner_id))
+  with check (public.can_edit_library(owner_id));
+
+create policy "Owners and editors delete books"
+  on public.books for delete
+  using (public.can_edit_library(owner_id));
+
+create policy "Owners and editors add recommendations"
+  on public.recommendations for insert
+  with check (public.can_edit_library(owner_id));
+
+create policy "Owners and editors update recommendations"
+  on public.recommendations for update
+  using (public.can_edit_library(owner_id))
+  with check (public.can_edit_library(owner_id));
+
+create policy "Owners and editors delete recommendations"
+  on public.recommendations for delete
+  using (public.can_edit_library(owner_id));
@@ -0,0 +1,213 @@
+-- Libraries can be shared at /u/<handle>. The owner chooses who can see it:
+--   public    anyone, and the library may be listed
+--   unlisted  anyone with the link
+--   private   only the owner and the members they have added
+-- Individual books, and books with certain tags, can be left out of what
+-- everyone else sees. Libraries without a profile stay public as before.
+
+create table if not exists public.library_profiles (
+  owner_id text primary key default (auth.jwt() ->> 'sub'),
+  handle text not null unique check (handle ~ '^[a-z0-9][a-z0-9-]{2,29}$'),
+  display_name text,
+  visibility text not null default 'public' check (visibility in ('public', 'unlisted', 'private')),
+  hidden_tags text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists library_profiles_set_updated_at on public.library_profiles;
+create trigger library_profiles_set_updated_at
+  before update on public.library_profiles
+  for each row execute function public.set_updated_at();
+
+alter table public.library_profiles enable row level security;
+
+-- Unlisted and private profiles are only found through get_library_profile
+create policy "Public profiles are readable by anyone"
+  on public.library_profiles for select
+  using (visibility = 'public' or owner_id = (auth.jwt() ->> 'sub'));
+
+create policy "Owners manage their own profile"
+  on public.library_profiles for all
+  using (owner_id = (auth.jwt() ->> 'sub'))
+  with check (owner_id = (auth.jwt() ->> 'sub'));
+
+alter table public.books
+  add column if not exists is_hidden boolean not null default false;
+
+alter table public.recommendations
+  add column if not exists is_hidden boolean not null default false;
+
+-- Whether the signed-in user sees all of a library: its owner and members do
+create or replace function public.can_see_whole_library(library_owner text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select library_owner = (auth.jwt() ->> 'sub')
+    or exists (
+      select 1
+      from public.library_members m
+      where m.library_owner_id = library_owner
+        and m.user_id = (auth.jwt() ->> 'sub')
+    );
+$$;
+
+-- Whether everyone else may see a book. Books without an owner always can.
+create or replace function public.is_public_book(book_owner text, book_hidden boolean, book_tags text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select book_owner is null or (
+    not coalesce(book_hidden, false)
+    and not exists (
+      select 1
+      from public.library_profiles p
+      where p.owner_id = book_owner
+        and (p.visibility = 'private' or coalesce(book_tags, '{}') && p.hidden_tags)
+    )
+  );
+$$;
+
+drop policy if exists "Libraries are readable by anyone" on public.books;
+drop policy if exists "Libraries are readable by anyone" on public.recommendations;
+
+create policy "Books are readable by their library or when public"
+  on public.books for select
+  using (public.can_see_whole_library(owner_id) or public.is_public_book(owner_id, is_hidden, tags));
+
+create policy "Recommendations are readable by their library or when public"
+  on public.recommendations for select
+  using (public.can_see_whole_library(owner_id) or public.is_public_book(owner_id, is_hidden, tags));
+
+-- The profile behind a /u/<handle> link. Private profiles are only returned
+-- to the owner and members, so everyone else is told the library isn't there.
+create or replace function public.get_library_profile(profile_handle text)
+returns setof public.library_profiles
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select *
+  from public.library_profiles p
+  where p.handle = lower(profile_handle)
+    and (p.visibility <> 'private' or public.can_see_whole_library(p.owner_id));
+$$;
+
+-- The list views gain the flag so the owner's shelf can mark hidden books
+create or replace view public.book_list_items
+with (security_invoker = true) as
+select
+  id,
+  title,
+  author,
+  case when cover_url like 'data:%' then null else cover_url end as cover_url,
+  date_read,
+  color,
+  genres,
+  status,
+  "order",
+  progress,
+  pages,
+  recommended_by,
+  favorite,
+  is_series,
+  series_name,
+  series_position,
+  updated_at,
+  deleted_at,
+  owner_id,
+  is_hidden
+from public.books;
+
+create or replace view public.recommendation_list_items
+with (security_invoker = true) as
+select
+  id,
+  title,
+  author,
+  case when cover_url like 'data:%' then null else cover_url end as cover_url,
+  date_read,
+  color,
+  genres,
+  status,
+  "order",
+  progress,
+  pages,
+  recommended_by,
+  favorite,
+  is_series,
+  series_name,
+  series_position,
+  updated_at,
+  deleted_at,
+  owner_id,
+  is_hidden
+from public.recommendations;
+
+-- What the /u/<handle> page reads: the books everyone may see, for the owner
+-- too, so they see their page as visitors do. Email addresses are left out.
+create or replace view public.public_books
+with (security_invoker = true) as
+select
+  id,
+  title,
+  author,
+  cover_url,
+  date_read,
+  color,
+  genres,
+  status,
+  "order",
+  progress,
+  pages,
+  recommended_by,
+  favorite,
+  is_series,
+  series_name,
+  series_position,
+  tags,
+  updated_at,
+  deleted_at,
+  owner_id,
+  is_hidden
+from public.books
+where deleted_at is null
+  and public.is_public_book(owner_id, is_hidden, tags);
+
+create or replace view public.public_recommendations
+with (security_invoker = true) as
+select
+  id,
+  title,
+  author,
+  cover_url,
+  date_read,
+  color,
+  genres,
+  status,
+  "order",
+  progress,
+  pages,
+  recommended_by,
+  favorite,
+  is_series,
+  series_name,
+  series_position,
+  tags,
+  updated_at,
+  deleted_at,
+  owner_id,
+  is_hidden
+from public.recommendations
+where deleted_at is null
+  and public.is_public_book(owner_id, is_hidden, tags);
+
+grant select on public.public_books to anon, authenticated;
+grant select on public.public_recommendations to anon, authenticated;
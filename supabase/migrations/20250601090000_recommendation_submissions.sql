@@ -0,0 +1,169 @@
+-- Visitors recommend books from /recommend without signing in. What they
+-- send waits in recommendation_submissions until the library's owner
+-- approves it, which adds it to their recommendations, merges it into a
+-- recommendation they already have, or rejects it. Visitors can only add
+-- submissions through submit_recommendation and can never read them back.
+
+create table if not exists public.recommendation_submissions (
+  id uuid primary key default gen_random_uuid(),
+  owner_id text not null,
+  title text not null check (length(trim(title)) > 0),
+  author text not null check (length(trim(author)) > 0),
+  recommended_by text not null check (length(trim(recommended_by)) > 0),
+  email text,
+  note text,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'merged', 'rejected')),
+  -- The recommendation an approved or merged submission ended up in
+  recommendation_id text,
+  created_at timestamptz not null default now(),
+  reviewed_at timestamptz
+);
+
+create index if not exists recommendation_submissions_pending_idx
+  on public.recommendation_submissions (owner_id, created_at)
+  where status = 'pending';
+
+alter table public.recommendation_submissions enable row level security;
+
+create policy "Owners read submissions to their library"
+  on public.recommendation_submissions for select
+  using (owner_id = (auth.jwt() ->> 'sub'));
+
+create policy "Owners review submissions to their library"
+  on public.recommendation_submissions for update
+  using (owner_id = (auth.jwt() ->> 'sub'))
+  with check (owner_id = (auth.jwt() ->> 'sub'));
+
+create policy "Owners delete submissions to their library"
+  on public.recommendation_submissions for delete
+  using (owner_id = (auth.jwt() ->> 'sub'));
+
+-- Queue a visitor's recommendation for the owner to review. Libraries made
+-- private only take submissions from their owner and members.
+create or replace function public.submit_recommendation(
+  library_owner text,
+  book_title text,
+  book_author text,
+  recommender_name text,
+  recommender_email text default null,
+  submission_note text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  submission_id uuid;
+begin
+  if exists (
+    select 1
+    from public.library_profiles p
+    where p.owner_id = library_owner
+      and p.visibility = 'private'
+  ) and not public.can_see_whole_library(library_owner) then
+    raise exception 'Library % not found', library_owner using errcode = 'P0002';
+  end if;
+
+  insert into public.recommendation_submissions (owner_id, title, author, recommended_by, email, note)
+  values (
+    library_owner,
+    trim(book_title),
+    trim(book_author),
+    trim(recommender_name),
+    nullif(trim(recommender_email), ''),
+    nullif(trim(submission_note), '')
+  )
+  returning id into submission_id;
+
+  return submission_id;
+end;
+$$;
+
+grant execute on function public.submit_recommendation(text, text, text, text, text, text) to anon, authenticated;
+
+-- Add a pending submission to the owner's recommendations. Runs as the
+-- caller, so row-level security keeps it to the library's owner.
+create or replace function public.approve_recommendation_submission(submission_id uuid)
+returns setof public.recommendations
+language plpgsql
+as $$
+declare
+  submission public.recommendation_submissions;
+  recommendation public.recommendations;
+begin
+  select * into submission
+  from public.recommendation_submissions s
+  where s.id = submission_id
+    and s.status = 'pending'
+  for update;
+
+  if not found then
+    raise exception 'Submission % is not waiting for review', submission_id using errcode = 'P0002';
+  end if;
+
+  insert into public.recommendations (owner_id, title, author, recommended_by, email, status, progress, date_read)
+  values (
+    submission.owner_id,
+    submission.title,
+    submission.author,
+    submission.recommended_by,
+    submission.email,
+    'recommendation',
+    0,
+    submission.created_at
+  )
+  returning * into recommendation;
+
+  update public.recommendation_submissions
+  set status = 'approved', recommendation_id = recommendation.id::text, reviewed_at = now()
+  where id = submission_id;
+
+  return next recommendation;
+end;
+$$;
+
+-- Fold a pending submission into a recommendation the library already has:
+-- its recommender joins those already listed and fills in a missing email.
+create or replace function public.merge_recommendation_submission(submission_id uuid, into_recommendation text)
+returns setof public.recommendations
+language plpgsql
+as $$
+declare
+  submission public.recommendation_submissions;
+  recommendation public.recommendations;
+begin
+  select * into submission
+  from public.recommendation_submissions s
+  where s.id = submission_id
+    and s.status = 'pending'
+  for update;
+
+  if not found then
+    raise exception 'Submission % is not waiting for review', submission_id using errcode = 'P0002';
+  end if;
+
+  update public.recommendations r
+  set
+    recommended_by = case
+      when coalesce(r.recommended_by, '') = '' then submission.recommended_by
+      when lower(submission.recommended_by) = any (string_to_array(lower(r.recommended_by), ', ')) then r.recommended_by
+      else r.recommended_by || ', ' || submission.recommended_by
+    end,
+    email = coalesce(nullif(r.email, ''), submission.email)
+  where r.id::text = into_recommendation
+    and r.owner_id = submission.owner_id
+    and r.deleted_at is null
+  returning * into recommendation;
+
+  if not found then
+    raise exception 'Recommendation % not found', into_recommendation using errcode = 'P0002';
+  end if;
+
+  update public.recommendation_submissions
+  set status = 'merged', recommendation_id = into_recommendation, reviewed_at = now()
+  where id = submission_id;
+
+  return next recommendation;
+end;
+$$;
@@ -0,0 +1,87 @@
+-- Accepting a recommendation moves it onto the to-read shelf. The new book
+-- gets an id of its own and keeps the id of the recommendation it came from
+-- in source_recommendation_id. Recommendation rows share the books table's
+-- columns, so they get the column too and leave it empty.
+
+alter table public.books
+  add column if not exists source_recommendation_id text;
+
+alter table public.recommendations
+  add column if not exists source_recommendation_id text;
+
+-- Insert the accepted book and delete the recommendation in one statement, so
+-- a recommendation is never lost or left on both shelves. The book is built by
+-- the client, which already shows it, and sent with the id it was given there.
+-- Runs as the caller, so row-level security applies to both tables.
+-- Sending the same book again returns it unchanged, so a replayed request is harmless.
+create or replace function public.accept_recommendation(recommendation_id text, book jsonb)
+returns setof public.books
+language plpgsql
+as $$
+begin
+  if exists (select 1 from public.books b where b.id::text = book ->> 'id') then
+    return query select * from public.books b where b.id::text = book ->> 'id';
+    return;
+  end if;
+
+  delete from public.recommendations r
+  where r.id::text = recommendation_id
+    and r.deleted_at is null
+    and r.owner_id is not distinct from (book ->> 'owner_id');
+
+  if not found then
+    raise exception 'Recommendation % not found', recommendation_id using errcode = 'P0002';
+  end if;
+
+  return query
+  insert into public.books (
+    id,
+    title,
+    author,
+    cover_url,
+    date_read,
+    color,
+    genres,
+    status,
+    "order",
+    progress,
+    pages,
+    recommended_by,
+    favorite,
+    is_series,
+    series_name,
+    series_position,
+    tags,
+    email,
+    deleted_at,
+    owner_id,
+    is_hidden,
+    source_recommendation_id
+  )
+  select
+    b.id,
+    b.title,
+    b.author,
+    b.cover_url,
+    b.date_read,
+    b.color,
+    b.genres,
+    b.status,
+    b."order",
+    b.progress,
+    b.pages,
+    b.recommended_by,
+    b.favorite,
+    b.is_series,
+    b.series_name,
+    b.series_position,
+    b.tags,
+    b.email,
+    b.deleted_at,
+    b.owner_id,
+    coalesce(b.is_hidden, false),
+    recommendation_id
+  from jsonb_populate_record(null::public.books, book) as b
+  returning *;
+end;
+$$;
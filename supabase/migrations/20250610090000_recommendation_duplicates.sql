@@ -0,0 +1,347 @@
+-- Books recommended twice, or recommended while already on the shelf, are
+-- caught by matching titles and authors, and ISBNs where the book has one.
+-- The matching runs in the app; the database keeps the ISBNs and remembers
+-- which recommendation a visitor's submission repeats, so the owner can merge
+-- it and keep a single entry listing everyone who recommended the book.
+
+alter table public.books
+  add column if not exists isbn text;
+
+alter table public.recommendations
+  add column if not exists isbn text;
+
+alter table public.recommendation_submissions
+  add column if not exists isbn text,
+  add column if not exists duplicate_of text;
+
+-- Adding a recommendation is checked against the shelf as the app has it
+-- loaded, so the list views carry the ISBN too
+create or replace view public.book_list_items
+with (security_invoker = true) as
+select
+  id,
+  title,
+  author,
+  case when cover_url like 'data:%' then null else cover_url end as cover_url,
+  date_read,
+  color,
+  genres,
+  status,
+  "order",
+  progress,
+  pages,
+  recommended_by,
+  favorite,
+  is_series,
+  series_name,
+  series_position,
+  updated_at,
+  deleted_at,
+  owner_id,
+  is_hidden,
+  isbn
+from public.books;
+
+create or replace view public.recommendation_list_items
+with (security_invoker = true) as
+select
+  id,
+  title,
+  author,
+  case when cover_url like 'data:%' then null else cover_url end as cover_url,
+  date_read,
+  color,
+  genres,
+  status,
+  "order",
+  progress,
+  pages,
+  recommended_by,
+  favorite,
+  is_series,
+  series_name,
+  series_position,
+  updated_at,
+  deleted_at,
+  owner_id,
+  is_hidden,
+  isbn
+from public.recommendations;
+
+-- The /recommend page checks a visitor's book against the library's public
+-- books, so the public views gain the ISBN
+create or replace view public.public_books
+with (security_invoker = true) as
+select
+  id,
+  title,
+  author,
+  cover_url,
+  date_read,
+  color,
+  genres,
+  status,
+  "order",
+  progress,
+  pages,
+  recommended_by,
+  favorite,
+  is_series,
+  series_name,
+  series_position,
+  tags,
+  updated_at,
+  deleted_at,
+  owner_id,
+  is_hidden,
+  isbn
+from public.books
+where deleted_at is null
+  and public.is_public_book(owner_id, is_hidden, tags);
+
+create or replace view public.public_recommendations
+with (security_invoker = true) as
+select
+  id,
+  title,
+  author,
+  cover_url,
+  date_read,
+  color,
+  genres,
+  status,
+  "order",
+  progress,
+  pages,
+  recommended_by,
+  favorite,
+  is_series,
+  series_name,
+  series_position,
+  tags,
+  updated_at,
+  deleted_at,
+  owner_id,
+  is_hidden,
+  isbn
+from public.recommendations
+where deleted_at is null
+  and public.is_public_book(owner_id, is_hidden, tags);
+
+-- Replaced rather than changed in place, since it takes two more arguments
+drop function if exists public.submit_recommendation(text, text, text, text, text, text);
+
+-- Queue a visitor's recommendation for the owner to review. Libraries made
+-- private only take submissions from their owner and members. A repeated
+-- recommendation names the one it repeats, if that one is in the same library.
+create or replace function public.submit_recommendation(
+  library_owner text,
+  book_title text,
+  book_author text,
+  recommender_name text,
+  recommender_email text default null,
+  submission_note text default null,
+  book_isbn text default null,
+  duplicate_of_recommendation text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  submission_id uuid;
+begin
+  if exists (
+    select 1
+    from public.library_profiles p
+    where p.owner_id = library_owner
+      and p.visibility = 'private'
+  ) and not public.can_see_whole_library(library_owner) then
+    raise exception 'Library % not found', library_owner using errcode = 'P0002';
+  end if;
+
+  insert into public.recommendation_submissions (owner_id, title, author, recommended_by, email, note, isbn, duplicate_of)
+  values (
+    library_owner,
+    trim(book_title),
+    trim(book_author),
+    trim(recommender_name),
+    nullif(trim(recommender_email), ''),
+    nullif(trim(submission_note), ''),
+    nullif(trim(book_isbn), ''),
+    (
+      select r.id::text
+      from public.recommendations r
+      where r.id::text = duplicate_of_recommendation
+        and r.owner_id = library_owner
+        and r.deleted_at is null
+    )
+  )
+  returning id into submission_id;
+
+  return submission_id;
+end;
+$$;
+
+grant execute on function public.submit_recommendation(text, text, text, text, text, text, text, text) to anon, authenticated;
+
+-- Approving and merging carry the ISBN over
+create or replace function public.approve_recommendation_submission(submission_id uuid)
+returns setof public.recommendations
+language plpgsql
+as $$
+declare
+  submission public.recommendation_submissions;
+  recommendation public.recommendations;
+begin
+  select * into submission
+  from public.recommendation_submissions s
+  where s.id = submission_id
+    and s.status = 'pending'
+  for update;
+
+  if not found then
+    raise exception 'Submission % is not waiting for review', submission_id using errcode = 'P0002';
+  end if;
+
+  insert into public.recommendations (owner_id, title, author, recommended_by, email, isbn, status, progress, date_read)
+  values (
+    submission.owner_id,
+    submission.title,
+    submission.author,
+    submission.recommended_by,
+    submission.email,
+    submission.isbn,
+    'recommendation',
+    0,
+    submission.created_at
+  )
+  returning * into recommendation;
+
+  update public.recommendation_submissions
+  set status = 'approved', recommendation_id = recommendation.id::text, reviewed_at = now()
+  where id = submission_id;
+
+  return next recommendation;
+end;
+$$;
+
+create or replace function public.merge_recommendation_submission(submission_id uuid, into_recommendation text)
+returns setof public.recommendations
+language plpgsql
+as $$
+declare
+  submission public.recommendation_submissions;
+  recommendation public.recommendations;
+begin
+  select * into submission
+  from public.recommendation_submissions s
+  where s.id = submission_id
+    and s.status = 'pending'
+  for update;
+
+  if not found then
+    raise exception 'Submission % is not waiting for review', submission_id using errcode = 'P0002';
+  end if;
+
+  update public.recommendations r
+  set
+    recommended_by = case
+      when coalesce(r.recommended_by, '') = '' then submission.recommended_by
+      when lower(submission.recommended_by) = any (string_to_array(lower(r.recommended_by), ', ')) then r.recommended_by
+      else r.recommended_by || ', ' || submission.recommended_by
+    end,
+    email = coalesce(nullif(r.email, ''), submission.email),
+    isbn = coalesce(nullif(r.isbn, ''), submission.isbn)
+  where r.id::text = into_recommendation
+    and r.owner_id = submission.owner_id
+    and r.deleted_at is null
+  returning * into recommendation;
+
+  if not found then
+    raise exception 'Recommendation % not found', into_recommendation using errcode = 'P0002';
+  end if;
+
+  update public.recommendation_submissions
+  set status = 'merged', recommendation_id = into_recommendation, reviewed_at = now()
+  where id = submission_id;
+
+  return next recommendation;
+end;
+$$;
+
+-- Accepted books keep the recommendation's ISBN
+create or replace function public.accept_recommendation(recommendation_id text, book jsonb)
+returns setof public.books
+language plpgsql
+as $$
+begin
+  if exists (select 1 from public.books b where b.id::text = book ->> 'id') then
+    return query select * from public.books b where b.id::text = book ->> 'id';
+    return;
+  end if;
+
+  delete from public.recommendations r
+  where r.id::text = recommendation_id
+    and r.deleted_at is null
+    and r.owner_id is not distinct from (book ->> 'owner_id');
+
+  if not found then
+    raise exception 'Recommendation % not found', recommendation_id using errcode = 'P0002';
+  end if;
+
+  return query
+  insert into public.books (
+    id,
+    title,
+    author,
+    cover_url,
+    date_read,
+    color,
+    genres,
+    status,
+    "order",
+    progress,
+    pages,
+    recommended_by,
+    favorite,
+    is_series,
+    series_name,
+    series_position,
+    tags,
+    email,
+    isbn,
+    deleted_at,
+    owner_id,
+    is_hidden,
+    source_recommendation_id
+  )
+  select
+    b.id,
+    b.title,
+    b.author,
+    b.cover_url,
+    b.date_read,
+    b.color,
+    b.genres,
+    b.status,
+    b."order",
+    b.progress,
+    b.pages,
+    b.recommended_by,
+    b.favorite,
+    b.is_series,
+    b.series_name,
+    b.series_position,
+    b.tags,
+    b.email,
+    b.isbn,
+    b.deleted_at,
+    b.owner_id,
+    coalesce(b.is_hidden, false),
+    recommendation_id
+  from jsonb_populate_record(null::public.books, book) as b
+  returning *;
+end;
+$$;
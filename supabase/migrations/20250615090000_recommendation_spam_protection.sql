@@ -0,0 +1,209 @@
+-- Keeps spam out of the recommendations visitors send. submit_recommendation
+-- limits how often one address or email can send, quietly drops what bots
+-- send (a filled-in honeypot field, a form sent too quickly) and what the
+-- owner has blocked, and the tables refuse overlong fields and links.
+
+-- Lengths match the /recommend form. Existing rows aren't checked, only new
+-- and changed ones.
+alter table public.recommendation_submissions
+  add constraint recommendation_submissions_title_length check (length(title) <= 200) not valid,
+  add constraint recommendation_submissions_author_length check (length(author) <= 150) not valid,
+  add constraint recommendation_submissions_recommended_by_length check (length(recommended_by) <= 100) not valid,
+  add constraint recommendation_submissions_email_length check (length(email) <= 254) not valid,
+  add constraint recommendation_submissions_note_length check (length(note) <= 500) not valid,
+  add constraint recommendation_submissions_no_links check (
+    concat_ws(' ', title, author, recommended_by) !~* '(https?://|www\.)'
+  ) not valid;
+
+-- A recommendation lists everyone who recommended it, so its recommended_by
+-- may grow well past one name
+alter table public.recommendations
+  add constraint recommendations_title_length check (length(title) <= 200) not valid,
+  add constraint recommendations_author_length check (length(author) <= 150) not valid,
+  add constraint recommendations_recommended_by_length check (length(recommended_by) <= 1000) not valid,
+  add constraint recommendations_no_links check (
+    concat_ws(' ', title, author, recommended_by) !~* '(https?://|www\.)'
+  ) not valid;
+
+-- Senders the owner doesn't want to hear from. An email entry blocks that
+-- address, or a whole domain when it starts with '@'; a name entry blocks a
+-- recommender's name; a phrase entry blocks submissions that contain it.
+create table if not exists public.recommendation_blocklist (
+  id uuid primary key default gen_random_uuid(),
+  owner_id text not null,
+  kind text not null check (kind in ('email', 'name', 'phrase')),
+  value text not null check (value = lower(trim(value)) and length(value) between 1 and 200),
+  created_at timestamptz not null default now(),
+  unique (owner_id, kind, value)
+);
+
+alter table public.recommendation_blocklist enable row level security;
+
+create policy "Owners read their blocklist"
+  on public.recommendation_blocklist for select
+  using (owner_id = (auth.jwt() ->> 'sub'));
+
+create policy "Owners add to their blocklist"
+  on public.recommendation_blocklist for insert
+  with check (owner_id = (auth.jwt() ->> 'sub'));
+
+create policy "Owners remove from their blocklist"
+  on public.recommendation_blocklist for delete
+  using (owner_id = (auth.jwt() ->> 'sub'));
+
+-- Every call to submit_recommendation, kept for a day to count against the
+-- rate limit. Row-level security without policies leaves it to the function.
+create table if not exists public.recommendation_submission_attempts (
+  id bigint generated always as identity primary key,
+  ip text,
+  email text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists recommendation_submission_attempts_ip_idx
+  on public.recommendation_submission_attempts (ip, created_at);
+
+create index if not exists recommendation_submission_attempts_email_idx
+  on public.recommendation_submission_attempts (email, created_at);
+
+alter table public.recommendation_submission_attempts enable row level security;
+
+-- The address a request came from. The API gateway puts the client's address
+-- first in X-Forwarded-For.
+create or replace function public.request_ip()
+returns text
+language sql
+stable
+as $$
+  select nullif(trim(split_part(coalesce(
+    current_setting('request.headers', true)::json ->> 'x-forwarded-for',
+    current_setting('request.headers', true)::json ->> 'x-real-ip',
+    ''
+  ), ',', 1)), '');
+$$;
+
+-- Whether the owner has blocked a submission
+create or replace function public.is_blocked_submission(
+  library_owner text,
+  sender_name text,
+  sender_email text,
+  content text
+)
+returns boolean
+language sql
+stable
+as $$
+  select exists (
+    select 1
+    from public.recommendation_blocklist b
+    where b.owner_id = library_owner
+      and (
+        (b.kind = 'email' and (lower(sender_email) = b.value or (b.value like '@%' and lower(sender_email) like '%' || b.value)))
+        or (b.kind = 'name' and lower(trim(sender_name)) = b.value)
+        or (b.kind = 'phrase' and strpos(lower(content), b.value) > 0)
+      )
+  );
+$$;
+
+-- Replaced rather than changed in place, since it takes two more arguments
+drop function if exists public.submit_recommendation(text, text, text, text, text, text, text, text);
+
+-- Queue a visitor's recommendation for the owner to review. Libraries made
+-- private only take submissions from their owner and members. A repeated
+-- recommendation names the one it repeats, if that one is in the same library.
+-- Sending too often fails with PT429, which PostgREST answers with a 429.
+-- Submissions that look automated or that the owner blocked seem to go
+-- through, so their senders learn nothing, but are never stored.
+create or replace function public.submit_recommendation(
+  library_owner text,
+  book_title text,
+  book_author text,
+  recommender_name text,
+  recommender_email text default null,
+  submission_note text default null,
+  book_isbn text default null,
+  duplicate_of_recommendation text default null,
+  honeypot text default null,
+  fill_seconds integer default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  submission_id uuid;
+  sender_ip text := public.request_ip();
+  sender_email text := lower(nullif(trim(recommender_email), ''));
+begin
+  if exists (
+    select 1
+    from public.library_profiles p
+    where p.owner_id = library_owner
+      and p.visibility = 'private'
+  ) and not public.can_see_whole_library(library_owner) then
+    raise exception 'Library % not found', library_owner using errcode = 'P0002';
+  end if;
+
+  delete from public.recommendation_submission_attempts
+  where created_at < now() - interval '1 day';
+
+  -- At most 10 an hour from one address and 5 an hour from one email
+  if (
+    sender_ip is not null and (
+      select count(*)
+      from public.recommendation_submission_attempts a
+      where a.ip = sender_ip
+        and a.created_at > now() - interval '1 hour'
+    ) >= 10
+  ) or (
+    sender_email is not null and (
+      select count(*)
+      from public.recommendation_submission_attempts a
+      where a.email = sender_email
+        and a.created_at > now() - interval '1 hour'
+    ) >= 5
+  ) then
+    raise exception 'Too many recommendations, try again later' using errcode = 'PT429';
+  end if;
+
+  insert into public.recommendation_submission_attempts (ip, email)
+  values (sender_ip, sender_email);
+
+  -- People don't fill in the hidden field, and take more than a few seconds over the form
+  if nullif(trim(honeypot), '') is not null
+    or fill_seconds is null
+    or fill_seconds < 3
+    or public.is_blocked_submission(
+      library_owner,
+      recommender_name,
+      sender_email,
+      concat_ws(' ', book_title, book_author, recommender_name, submission_note)
+    ) then
+    return gen_random_uuid();
+  end if;
+
+  insert into public.recommendation_submissions (owner_id, title, author, recommended_by, email, note, isbn, duplicate_of)
+  values (
+    library_owner,
+    trim(book_title),
+    trim(book_author),
+    trim(recommender_name),
+    nullif(trim(recommender_email), ''),
+    nullif(trim(submission_note), ''),
+    nullif(trim(book_isbn), ''),
+    (
+      select r.id::text
+      from public.recommendations r
+      where r.id::text = duplicate_of_recommendation
+        and r.owner_id = library_owner
+        and r.deleted_at is null
+    )
+  )
+  returning id into submission_id;
+
+  return submission_id;
+end;
+$$;
+
+grant execute on function public.submit_recommendation(text, text, text, text, text, text, text, text, text, integer) to anon, authenticated;
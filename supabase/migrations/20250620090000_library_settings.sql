@@ -0,0 +1,27 @@
+-- Settings that belong to a library rather than to one device. The trash is
+-- purged against the library's retention period, so a device can't delete
+-- books sooner than the library keeps them.
+
+create table if not exists public.library_settings (
+  owner_id text primary key default (auth.jwt() ->> 'sub'),
+  trash_retention_days integer not null default 30 check (trash_retention_days between 1 and 365),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists library_settings_set_updated_at on public.library_settings;
+create trigger library_settings_set_updated_at
+  before update on public.library_settings
+  for each row execute function public.set_updated_at();
+
+alter table public.library_settings enable row level security;
+
+-- Members purge the trash too, so they read the same retention
+create policy "Library settings are readable by the library"
+  on public.library_settings for select
+  using (public.can_see_whole_library(owner_id));
+
+create policy "Owners manage their library settings"
+  on public.library_settings for all
+  using (owner_id = (auth.jwt() ->> 'sub'))
+  with check (owner_id = (auth.jwt() ->> 'sub'));
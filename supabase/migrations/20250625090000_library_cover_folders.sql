@@ -0,0 +1,21 @@
+-- Covers were open to anyone holding the anon key. Now that libraries have
+-- owners, each library's covers live under a folder named for its owner, and
+-- only the owner and the library's editors can add or delete files there.
+-- Covers uploaded before this sit outside any folder and are left in place.
+
+drop policy if exists "Anyone can upload covers" on storage.objects;
+drop policy if exists "Anyone can delete covers" on storage.objects;
+
+create policy "Owners and editors upload covers to their library"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'covers'
+    and public.can_edit_library((storage.foldername(name))[1])
+  );
+
+create policy "Owners and editors delete covers from their library"
+  on storage.objects for delete
+  using (
+    bucket_id = 'covers'
+    and public.can_edit_library((storage.foldername(name))[1])
+  );
@@ -0,0 +1,68 @@
+-- Owners share their library with other users by the handle of that user's
+-- own library page, and members find the libraries shared with them. Handles
+-- of private libraries can't be read directly, so these run as definer and
+-- only ever act on the signed-in user's own memberships.
+
+-- The members of the signed-in user's library, with the handle each goes by
+create or replace function public.list_library_members()
+returns table (user_id text, role text, handle text, display_name text, created_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.user_id, m.role, p.handle, p.display_name, m.created_at
+  from public.library_members m
+  left join public.library_profiles p on p.owner_id = m.user_id
+  where m.library_owner_id = (auth.jwt() ->> 'sub')
+  order by m.created_at;
+$$;
+
+-- Share the signed-in user's library with the owner of the given handle, or
+-- change their role if it is already shared with them
+create or replace function public.add_library_member(member_handle text, member_role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  library_owner text := auth.jwt() ->> 'sub';
+  member_id text;
+begin
+  if library_owner is null then
+    raise exception 'Sign in to share your library' using errcode = '42501';
+  end if;
+
+  select p.owner_id into member_id
+  from public.library_profiles p
+  where p.handle = lower(trim(member_handle));
+
+  if member_id is null then
+    raise exception 'No library has the handle %', member_handle using errcode = 'P0002';
+  end if;
+
+  if member_id = library_owner then
+    raise exception 'That handle is your own library' using errcode = '23514';
+  end if;
+
+  insert into public.library_members (library_owner_id, user_id, role)
+  values (library_owner, member_id, member_role)
+  on conflict (library_owner_id, user_id) do update set role = excluded.role;
+end;
+$$;
+
+-- The libraries shared with the signed-in user
+create or replace function public.list_shared_libraries()
+returns table (library_owner_id text, role text, handle text, display_name text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.library_owner_id, m.role, p.handle, p.display_name
+  from public.library_members m
+  left join public.library_profiles p on p.owner_id = m.library_owner_id
+  where m.user_id = (auth.jwt() ->> 'sub')
+  order by coalesce(p.display_name, p.handle, m.library_owner_id);
+$$;
@@ -0,0 +1,48 @@
+-- The book tables are only readable by a library's owner and members.
+-- Everyone else reads a library through the functions below, which return
+-- the public_books and public_recommendations rows (no email, no hidden or
+-- private books) of one library at a time. They need the library's owner,
+-- which for an unlisted library is only found from its link, so unlisted
+-- libraries can't be listed by reading the views.
+
+drop policy if exists "Books are readable by their library or when public" on public.books;
+drop policy if exists "Recommendations are readable by their library or when public" on public.recommendations;
+
+-- Books from before libraries had owners stay readable by anyone
+create policy "Books are readable by their library"
+  on public.books for select
+  using (owner_id is null or public.can_see_whole_library(owner_id));
+
+create policy "Recommendations are readable by their library"
+  on public.recommendations for select
+  using (owner_id is null or public.can_see_whole_library(owner_id));
+
+revoke select on public.public_books from anon, authenticated;
+revoke select on public.public_recommendations from anon, authenticated;
+
+create or replace function public.library_public_books(library_owner text)
+returns setof public.public_books
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select *
+  from public.public_books v
+  where v.owner_id = library_owner;
+$$;
+
+create or replace function public.library_public_recommendations(library_owner text)
+returns setof public.public_recommendations
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select *
+  from public.public_recommendations v
+  where v.owner_id = library_owner;
+$$;
+
+grant execute on function public.library_public_books(text) to anon, authenticated;
+grant execute on function public.library_public_recommendations(text) to anon, authenticated;
@@ -0,0 +1,191 @@
+-- Tightens the spam protection of submit_recommendation:
+--   - how long the form took is measured from a token the server issued when
+--     it opened, instead of trusting a time the browser reports
+--   - the sender's address is the one the platform saw, which the client
+--     can't set, instead of the first X-Forwarded-For entry
+--   - submissions without an email are rate limited too
+
+-- Issued by start_recommendation_form and used up by submit_recommendation.
+-- Row-level security without policies leaves it to the functions.
+create table if not exists public.recommendation_form_tokens (
+  id uuid primary key default gen_random_uuid(),
+  ip text,
+  issued_at timestamptz not null default now()
+);
+
+create index if not exists recommendation_form_tokens_ip_idx
+  on public.recommendation_form_tokens (ip, issued_at);
+
+alter table public.recommendation_form_tokens enable row level security;
+
+alter table public.recommendation_submission_attempts
+  add column if not exists owner_id text;
+
+-- The address a request came from. Cloudflare, in front of the API gateway,
+-- sets CF-Connecting-IP itself. Otherwise the last X-Forwarded-For entry is
+-- the one the gateway appended; the ones before it come from the client.
+create or replace function public.request_ip()
+returns text
+language sql
+stable
+as $$
+  select nullif(trim(coalesce(
+    current_setting('request.headers', true)::json ->> 'cf-connecting-ip',
+    split_part(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ',', -1),
+    current_setting('request.headers', true)::json ->> 'x-real-ip',
+    ''
+  )), '');
+$$;
+
+-- A token for a /recommend form that just opened. At most 30 an hour from
+-- one address; more fails with PT429.
+create or replace function public.start_recommendation_form()
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  token uuid;
+  sender_ip text := public.request_ip();
+begin
+  delete from public.recommendation_form_tokens
+  where issued_at < now() - interval '1 day';
+
+  if sender_ip is not null and (
+    select count(*)
+    from public.recommendation_form_tokens t
+    where t.ip = sender_ip
+      and t.issued_at > now() - interval '1 hour'
+  ) >= 30 then
+    raise exception 'Too many recommendations, try again later' using errcode = 'PT429';
+  end if;
+
+  insert into public.recommendation_form_tokens (ip)
+  values (sender_ip)
+  returning id into token;
+
+  return token;
+end;
+$$;
+
+grant execute on function public.start_recommendation_form() to anon, authenticated;
+
+-- Replaced rather than changed in place, since the fill time becomes a token
+drop function if exists public.submit_recommendation(text, text, text, text, text, text, text, text, text, integer);
+
+-- Queue a visitor's recommendation for the owner to review. Libraries made
+-- private only take submissions from their owner and members. A repeated
+-- recommendation names the one it repeats, if that one is in the same library.
+-- Sending too often fails with PT429, which PostgREST answers with a 429.
+-- Submissions that look automated or that the owner blocked seem to go
+-- through, so their senders learn nothing, but are never stored.
+create or replace function public.submit_recommendation(
+  library_owner text,
+  book_title text,
+  book_author text,
+  recommender_name text,
+  recommender_email text default null,
+  submission_note text default null,
+  book_isbn text default null,
+  duplicate_of_recommendation text default null,
+  honeypot text default null,
+  form_token uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  submission_id uuid;
+  form_opened_at timestamptz;
+  sender_ip text := public.request_ip();
+  sender_email text := lower(nullif(trim(recommender_email), ''));
+begin
+  if exists (
+    select 1
+    from public.library_profiles p
+    where p.owner_id = library_owner
+      and p.visibility = 'private'
+  ) and not public.can_see_whole_library(library_owner) then
+    raise exception 'Library % not found', library_owner using errcode = 'P0002';
+  end if;
+
+  delete from public.recommendation_submission_attempts
+  where created_at < now() - interval '1 day';
+
+  -- At most 10 an hour from one address and 5 an hour from one email. Those
+  -- without an email count against their address, or against the library
+  -- when the address isn't known, 5 an hour.
+  if (
+    sender_ip is not null and (
+      select count(*)
+      from public.recommendation_submission_attempts a
+      where a.ip = sender_ip
+        and a.created_at > now() - interval '1 hour'
+    ) >= 10
+  ) or (
+    sender_email is not null and (
+      select count(*)
+      from public.recommendation_submission_attempts a
+      where a.email = sender_email
+        and a.created_at > now() - interval '1 hour'
+    ) >= 5
+  ) or (
+    sender_email is null and (
+      select count(*)
+      from public.recommendation_submission_attempts a
+      where a.email is null
+        and (a.ip = sender_ip or (sender_ip is null and a.ip is null and a.owner_id = library_owner))
+        and a.created_at > now() - interval '1 hour'
+    ) >= 5
+  ) then
+    raise exception 'Too many recommendations, try again later' using errcode = 'PT429';
+  end if;
+
+  insert into public.recommendation_submission_attempts (ip, email, owner_id)
+  values (sender_ip, sender_email, library_owner);
+
+  -- Each token is good for one submission
+  delete from public.recommendation_form_tokens t
+  where t.id = form_token
+  returning t.issued_at into form_opened_at;
+
+  -- People don't fill in the hidden field, and take more than a few seconds over the form
+  if nullif(trim(honeypot), '') is not null
+    or form_opened_at is null
+    or form_opened_at > now() - interval '3 seconds'
+    or public.is_blocked_submission(
+      library_owner,
+      recommender_name,
+      sender_email,
+      concat_ws(' ', book_title, book_author, recommender_name, submission_note)
+    ) then
+    return gen_random_uuid();
+  end if;
+
+  insert into public.recommendation_submissions (owner_id, title, author, recommended_by, email, note, isbn, duplicate_of)
+  values (
+    library_owner,
+    trim(book_title),
+    trim(book_author),
+    trim(recommender_name),
+    nullif(trim(recommender_email), ''),
+    nullif(trim(submission_note), ''),
+    nullif(trim(book_isbn), ''),
+    (
+      select r.id::text
+      from public.recommendations r
+      where r.id::text = duplicate_of_recommendation
+        and r.owner_id = library_owner
+        and r.deleted_at is null
+    )
+  )
+  returning id into submission_id;
+
+  return submission_id;
+end;
+$$;
+
+grant execute on function public.submit_recommendation(text, text, text, text, text, text, text, text, text, uuid) to anon, authenticated;
@@ -0,0 +1,3 @@
+-- The shelf now pages through books newest read first, like recommendations
+create index if not exists books_owner_date_read_id_idx
+  on public.books (owner_id, date_read desc nulls last, id) where deleted_at is null;
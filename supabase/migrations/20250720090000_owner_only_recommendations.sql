@@ -0,0 +1,20 @@
+-- Moderating recommendations stays with the owner, as the members migration
+-- meant: editors change books, but only the owner adds, accepts, edits or
+-- deletes recommendations.
+
+drop policy if exists "Owners and editors add recommendations" on public.recommendations;
+drop policy if exists "Owners and editors update recommendations" on public.recommendations;
+drop policy if exists "Owners and editors delete recommendations" on public.recommendations;
+
+create policy "Owners add recommendations"
+  on public.recommendations for insert
+  with check (owner_id = (auth.jwt() ->> 'sub'));
+
+create policy "Owners update recommendations"
+  on public.recommendations for update
+  using (owner_id = (auth.jwt() ->> 'sub'))
+  with check (owner_id = (auth.jwt() ->> 'sub'));
+
+create policy "Owners delete recommendations"
+  on public.recommendations for delete
+  using (owner_id = (auth.jwt() ->> 'sub'));
@@ -0,0 +1,151 @@
+-- A visitor's recommendation is checked against the library in the database,
+-- so the /recommend form gets back only the book it repeats instead of
+-- downloading the library to compare it in the browser. The functions below
+-- match books the same way utils/bookMatching.ts does.
+
+create extension if not exists fuzzystrmatch with schema extensions;
+
+-- Lower case, without accents or punctuation, single spaced
+create or replace function public.simplify_for_matching(value text)
+returns text
+language sql
+immutable
+as $$
+  select trim(regexp_replace(
+    regexp_replace(
+      replace(lower(regexp_replace(normalize(coalesce(value, ''), NFKD), '[\u0300-\u036f]', '', 'g')), '&', ' and '),
+      '[^[:alnum:][:space:]]', ' ', 'g'
+    ),
+    '\s+', ' ', 'g'
+  ));
+$$;
+
+-- The title without its subtitle or a leading article
+create or replace function public.normalize_title(title text)
+returns text
+language sql
+immutable
+as $$
+  select regexp_replace(
+    public.simplify_for_matching((regexp_split_to_array(coalesce(title, ''), '[:(]'))[1]),
+    '^(the|a|an)\s+', ''
+  );
+$$;
+
+-- The first author's surname: the part before a comma, or else the last word
+create or replace function public.author_surname(author text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when strpos(first_author, ',') > 0 then public.simplify_for_matching(split_part(first_author, ',', 1))
+    else regexp_replace(public.simplify_for_matching(first_author), '^.* ', '')
+  end
+  from (
+    select (regexp_split_to_array(coalesce(author, ''), '\s+(and|&)\s+|;'))[1] as first_author
+  ) a;
+$$;
+
+-- The digits of an ISBN as ISBN-13, or null when it isn't a well-formed ISBN
+create or replace function public.normalize_isbn(isbn text)
+returns text
+language plpgsql
+immutable
+as $$
+declare
+  digits text := regexp_replace(upper(coalesce(isbn, '')), '[^0-9X]', '', 'g');
+  core text;
+  total integer := 0;
+begin
+  if digits ~ '^[0-9]{13}$' then
+    return digits;
+  end if;
+  if digits !~ '^[0-9]{9}[0-9X]$' then
+    return null;
+  end if;
+
+  core := '978' || left(digits, 9);
+  for i in 1..12 loop
+    total := total + substr(core, i, 1)::integer * (case when i % 2 = 1 then 1 else 3 end);
+  end loop;
+  return core || ((10 - total % 10) % 10)::text;
+end;
+$$;
+
+-- Levenshtein distance scaled to a similarity, where 1 is identical
+create or replace function public.matching_similarity(a text, b text)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when a = b then 1
+    when a = '' or b = '' then 0
+    else 1 - extensions.levenshtein(left(a, 255), left(b, 255))::numeric / greatest(length(a), length(b))
+  end;
+$$;
+
+-- Same surname, or one ends with the whole words of the other, or close enough
+create or replace function public.surnames_match(a text, b text)
+returns boolean
+language sql
+immutable
+as $$
+  select a <> '' and b <> '' and (
+    a = b
+    or a like ('% ' || b)
+    or b like ('% ' || a)
+    or public.matching_similarity(a, b) >= 0.8
+  );
+$$;
+
+-- The book on the library's shelf, or else the recommendation, that a
+-- visitor's recommendation repeats. Only what visitors may see of the library
+-- is checked, so a hidden book is never given away. An ISBN match wins over a
+-- title and author match.
+create or replace function public.find_public_duplicate(
+  library_owner text,
+  book_title text,
+  book_author text,
+  book_isbn text default null
+)
+returns table (id text, title text, status text)
+language sql
+stable
+set search_path = public
+as $$
+  with candidate as (
+    select
+      public.normalize_title(book_title) as title,
+      public.author_surname(book_author) as surname,
+      public.normalize_isbn(book_isbn) as isbn
+  ),
+  library as (
+    select b.id::text as id, b.title, b.status, b.author, b.isbn, b.date_read, 0 as shelf_rank
+    from public.library_public_books(library_owner) b
+    union all
+    select r.id::text, r.title, r.status, r.author, r.isbn, r.date_read, 1
+    from public.library_public_recommendations(library_owner) r
+  ),
+  matches as (
+    select
+      l.*,
+      case when c.isbn is not null and public.normalize_isbn(l.isbn) = c.isbn then 0 else 1 end as reason_rank
+    from library l
+    cross join candidate c
+    where (c.isbn is not null and public.normalize_isbn(l.isbn) = c.isbn)
+      or (
+        c.title <> ''
+        and public.normalize_title(l.title) <> ''
+        and public.matching_similarity(c.title, public.normalize_title(l.title)) >= 0.85
+        and public.surnames_match(c.surname, public.author_surname(l.author))
+      )
+  )
+  select m.id, m.title, m.status
+  from matches m
+  order by m.shelf_rank, m.reason_rank, m.date_read desc nulls last, m.id
+  limit 1;
+$$;
+
+grant execute on function public.find_public_duplicate(text, text, text, text) to anon, authenticated;
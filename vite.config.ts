@@ -1,8 +1,54 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
 import { componentTagger } from "lovable-tagger";
 
+// Development stand-in for the Supabase covers bucket: uploaded covers are
+// written to .dev-covers/ and served from /dev-covers/<name>
+const localCoverStorage = (): Plugin => {
+  const coverDir = path.resolve(__dirname, ".dev-covers");
+
+  return {
+    name: "local-cover-storage",
+    configureServer(server) {
+      server.middlewares.use("/dev-covers", (req, res) => {
+        const name = path.basename(decodeURIComponent((req.url || "").split("?")[0]));
+        if (!/^[\w-]+\.jpg$/.test(name)) {
+          res.statusCode = 400;
+          res.end();
+          return;
+        }
+        const filePath = path.join(coverDir, name);
+
+        if (req.method === "PUT") {
+          fs.mkdirSync(coverDir, { recursive: true });
+          req.pipe(fs.createWriteStream(filePath))
+            .on("finish", () => {
+              res.statusCode = 201;
+              res.end();
+            })
+            .on("error", () => {
+              res.statusCode = 500;
+              res.end();
+            });
+        } else if (req.method === "DELETE") {
+          fs.rm(filePath, (error) => {
+            res.statusCode = error ? 404 : 204;
+            res.end();
+          });
+        } else if (fs.existsSync(filePath)) {
+          res.setHeader("Content-Type", "image/jpeg");
+          fs.createReadStream(filePath).pipe(res);
+        } else {
+          res.statusCode = 404;
+          res.end();
+        }
+      });
+    },
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,6 +57,7 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    localCoverStorage(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),